@@ -0,0 +1,79 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { AnalyticsService } from './analytics.service';
+import { CurrentTenant } from '../auth/decorators/auth.decorators';
+import {
+  AnalyticsQueryDto,
+  PeriodAnalyticsQueryDto,
+  TopItemsQueryDto,
+} from './dto/analytics-query.dto';
+import {
+  AnalyticsResult,
+  BasketSize,
+  CategorySpend,
+  CurrencySpend,
+  ItemSpend,
+  PeriodSpend,
+  PeriodTax,
+  VendorSpend,
+} from './interfaces/analytics.interface';
+
+@Controller('analytics')
+export class AnalyticsController {
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  @Get('spend/by-vendor')
+  spendByVendor(
+    @CurrentTenant() tenantId: string,
+    @Query() query: AnalyticsQueryDto,
+  ): Promise<AnalyticsResult<VendorSpend>> {
+    return this.analyticsService.spendByVendor(tenantId, query);
+  }
+
+  @Get('spend/by-category')
+  spendByCategory(
+    @CurrentTenant() tenantId: string,
+    @Query() query: AnalyticsQueryDto,
+  ): Promise<AnalyticsResult<CategorySpend>> {
+    return this.analyticsService.spendByCategory(tenantId, query);
+  }
+
+  @Get('spend/by-period')
+  spendByPeriod(
+    @CurrentTenant() tenantId: string,
+    @Query() query: PeriodAnalyticsQueryDto,
+  ): Promise<AnalyticsResult<PeriodSpend>> {
+    return this.analyticsService.spendByPeriod(tenantId, query);
+  }
+
+  @Get('spend/by-currency')
+  spendByCurrency(
+    @CurrentTenant() tenantId: string,
+    @Query() query: AnalyticsQueryDto,
+  ): Promise<AnalyticsResult<CurrencySpend>> {
+    return this.analyticsService.spendByCurrency(tenantId, query);
+  }
+
+  @Get('items/top')
+  topItems(
+    @CurrentTenant() tenantId: string,
+    @Query() query: TopItemsQueryDto,
+  ): Promise<AnalyticsResult<ItemSpend>> {
+    return this.analyticsService.topItems(tenantId, query);
+  }
+
+  @Get('basket-size')
+  basketSize(
+    @CurrentTenant() tenantId: string,
+    @Query() query: AnalyticsQueryDto,
+  ): Promise<AnalyticsResult<BasketSize>> {
+    return this.analyticsService.basketSize(tenantId, query);
+  }
+
+  @Get('tax/by-period')
+  taxByPeriod(
+    @CurrentTenant() tenantId: string,
+    @Query() query: PeriodAnalyticsQueryDto,
+  ): Promise<AnalyticsResult<PeriodTax>> {
+    return this.analyticsService.taxByPeriod(tenantId, query);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ReceiptModule } from '../receipt/receipt.module';
+import { AnalyticsController } from './analytics.controller';
+import { AnalyticsService } from './analytics.service';
+
+@Module({
+  imports: [ReceiptModule],
+  controllers: [AnalyticsController],
+  providers: [AnalyticsService],
+})
+export class AnalyticsModule {}
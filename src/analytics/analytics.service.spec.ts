@@ -0,0 +1,311 @@
+import { AnalyticsService, isoWeek } from './analytics.service';
+import { InMemoryReceiptRepository } from '../receipt/repositories/in-memory-receipt.repository';
+import { ReceiptResponse } from '../receipt/dto/receipt-response.dto';
+import { VendorRegistry } from '../receipt/vendors/vendor-registry.service';
+
+function receipt(overrides: Partial<ReceiptResponse>): ReceiptResponse {
+  return {
+    id: overrides.id ?? 'r',
+    tenant_id: 'acme',
+    date: '2024-01-10',
+    currency: 'USD',
+    vendor_name: 'Corner Store',
+    receipt_items: [],
+    tax: 0,
+    total: 0,
+    image_url: '/uploads/r.jpg',
+    ...overrides,
+  };
+}
+
+describe('AnalyticsService', () => {
+  let service: AnalyticsService;
+  let repository: InMemoryReceiptRepository;
+
+  beforeEach(async () => {
+    repository = new InMemoryReceiptRepository();
+    await repository.save(
+      receipt({
+        id: 'a',
+        date: '2024-01-10',
+        vendor_name: 'Corner Store',
+        vendor_id: 'v-corner',
+        receipt_items: [
+          { item_name: 'Milk', item_cost: 4, quantity: 2 },
+          { item_name: 'Bread', item_cost: 3 },
+        ],
+        tax: 0.7,
+        total: 7.7,
+      }),
+    );
+    await repository.save(
+      receipt({
+        id: 'b',
+        date: '2024-01-25',
+        vendor_name: 'CORNER STORE #12',
+        vendor_id: 'v-corner',
+        receipt_items: [{ item_name: 'milk', item_cost: 2 }],
+        tax: 0.2,
+        total: 2.2,
+      }),
+    );
+    await repository.save(
+      receipt({
+        id: 'c',
+        date: '2024-02-03',
+        vendor_name: 'Cafe Rio',
+        category: 'meals',
+        receipt_items: [{ item_name: 'Coffee', item_cost: 5 }],
+        tax: 0.5,
+        total: 5.5,
+      }),
+    );
+    await repository.save(
+      receipt({
+        id: 'd',
+        date: '2024-02-04',
+        currency: 'EUR',
+        vendor_name: 'Cafe Rio',
+        receipt_items: [{ item_name: 'Coffee', item_cost: 4 }],
+        tax: 0.8,
+        total: 4.8,
+        base_amounts: {
+          currency: 'USD',
+          rate: 1.25,
+          rate_date: '2024-02-01',
+          total: 6,
+          tax: 1,
+        },
+      }),
+    );
+    const vendorRegistry = {
+      list: async () => [{ id: 'v-corner', name: 'Corner Store' }],
+    } as unknown as VendorRegistry;
+    // Another tenant's spend never shows up
+    await repository.save(
+      receipt({ id: 'z', tenant_id: 'globex', total: 999, tax: 99 }),
+    );
+    service = new AnalyticsService(repository, vendorRegistry);
+  });
+
+  it('groups vendor spend by registry vendor without mixing currencies', async () => {
+    const { data } = await service.spendByVendor('acme', {});
+
+    expect(data).toEqual([
+      {
+        vendor_id: 'v-corner',
+        vendor_name: 'Corner Store',
+        currency: 'USD',
+        receipt_count: 2,
+        total_spend: 9.9,
+      },
+      {
+        vendor_name: 'Cafe Rio',
+        currency: 'USD',
+        receipt_count: 1,
+        total_spend: 5.5,
+      },
+      {
+        vendor_name: 'Cafe Rio',
+        currency: 'EUR',
+        receipt_count: 1,
+        total_spend: 4.8,
+      },
+    ]);
+  });
+
+  it('groups spend by category, treating uncategorized receipts as other', async () => {
+    const { data } = await service.spendByCategory('acme', { currency: 'USD' });
+
+    expect(data).toEqual([
+      {
+        category: 'other',
+        currency: 'USD',
+        receipt_count: 2,
+        total_spend: 9.9,
+      },
+      {
+        category: 'meals',
+        currency: 'USD',
+        receipt_count: 1,
+        total_spend: 5.5,
+      },
+    ]);
+    expect(
+      (await service.spendByVendor('acme', { category: 'meals' })).data,
+    ).toHaveLength(1);
+  });
+
+  it('groups spend by month and by ISO week', async () => {
+    const months = await service.spendByPeriod('acme', { currency: 'USD' });
+    expect(months.data.map((row) => [row.period, row.total_spend])).toEqual([
+      ['2024-01', 9.9],
+      ['2024-02', 5.5],
+    ]);
+
+    const weeks = await service.spendByPeriod('acme', {
+      currency: 'USD',
+      granularity: 'week',
+    });
+    expect(weeks.data.map((row) => row.period)).toEqual([
+      '2024-W02',
+      '2024-W04',
+      '2024-W05',
+    ]);
+  });
+
+  it('groups receipts without an ISO date under an unknown period', async () => {
+    await repository.save(receipt({ id: 'e', date: '', total: 1, tax: 0.1 }));
+    await repository.save(
+      receipt({ id: 'f', date: '03/02/2024', total: 2, tax: 0.2 }),
+    );
+
+    for (const granularity of ['month', 'week'] as const) {
+      const spend = await service.spendByPeriod('acme', {
+        currency: 'USD',
+        granularity,
+      });
+      expect(spend.data[spend.data.length - 1]).toMatchObject({
+        period: 'unknown',
+        receipt_count: 2,
+        total_spend: 3,
+      });
+      expect(spend.data.some((row) => row.period.includes('NaN'))).toBe(false);
+    }
+    const tax = await service.taxByPeriod('acme', { currency: 'USD' });
+    expect(tax.data.map((row) => row.period)).toEqual([
+      '2024-01',
+      '2024-02',
+      'unknown',
+    ]);
+  });
+
+  it('totals spend and tax per currency', async () => {
+    const { data } = await service.spendByCurrency('acme', {});
+
+    expect(data).toEqual([
+      { currency: 'USD', receipt_count: 3, total_spend: 15.4, total_tax: 1.4 },
+      { currency: 'EUR', receipt_count: 1, total_spend: 4.8, total_tax: 0.8 },
+    ]);
+  });
+
+  it('ranks top items and respects the limit', async () => {
+    const { data } = await service.topItems('acme', {
+      currency: 'USD',
+      limit: 2,
+    });
+
+    expect(data).toEqual([
+      {
+        item_name: 'Milk',
+        currency: 'USD',
+        occurrences: 2,
+        quantity: 3,
+        total_spend: 6,
+      },
+      {
+        item_name: 'Coffee',
+        currency: 'USD',
+        occurrences: 1,
+        quantity: 1,
+        total_spend: 5,
+      },
+    ]);
+  });
+
+  it('computes average basket size per currency', async () => {
+    const { data } = await service.basketSize('acme', { currency: 'USD' });
+
+    expect(data).toEqual([
+      {
+        currency: 'USD',
+        receipt_count: 3,
+        average_total: 5.13,
+        average_item_count: 1.33,
+      },
+    ]);
+  });
+
+  it('applies date range and vendor filters to every endpoint', async () => {
+    const query = { date_from: '2024-01-20', vendor: 'corner' };
+
+    expect((await service.taxByPeriod('acme', query)).data).toEqual([
+      { period: '2024-01', currency: 'USD', receipt_count: 1, total_tax: 0.2 },
+    ]);
+    expect((await service.spendByVendor('acme', query)).data).toHaveLength(1);
+    expect((await service.topItems('acme', query)).data).toHaveLength(1);
+  });
+
+  it('reports in the base currency when asked', async () => {
+    const { data } = await service.spendByVendor('acme', { amounts: 'base' });
+
+    // Only the EUR receipt has base amounts recorded in this fixture
+    expect(data).toEqual([
+      {
+        vendor_name: 'Cafe Rio',
+        currency: 'USD',
+        receipt_count: 1,
+        total_spend: 6,
+      },
+    ]);
+    expect(
+      (await service.topItems('acme', { amounts: 'base' })).data[0].total_spend,
+    ).toBe(5);
+  });
+
+  it('leaves flagged duplicates out of spend unless asked for', async () => {
+    await repository.save(
+      receipt({
+        id: 'e',
+        vendor_name: 'Cafe Rio',
+        category: 'meals',
+        receipt_items: [{ item_name: 'Coffee', item_cost: 5 }],
+        tax: 0.5,
+        total: 5.5,
+        possible_duplicate_of: 'c',
+      }),
+    );
+
+    const meals = async (include_duplicates?: boolean) =>
+      (
+        await service.spendByCategory('acme', {
+          currency: 'USD',
+          include_duplicates,
+        })
+      ).data.find((row) => row.category === 'meals');
+
+    expect(await meals()).toMatchObject({ receipt_count: 1, total_spend: 5.5 });
+    expect(await meals(true)).toMatchObject({
+      receipt_count: 2,
+      total_spend: 11,
+    });
+  });
+
+  it('leaves receipts a reviewer rejected out of every total', async () => {
+    await repository.save(
+      receipt({
+        id: 'f',
+        receipt_items: [{ item_name: 'Milk', item_cost: 50 }],
+        tax: 5,
+        total: 55,
+        review: { status: 'rejected', reasons: [] },
+      }),
+    );
+
+    expect(
+      (await service.spendByCurrency('acme', { currency: 'USD' })).data,
+    ).toEqual([
+      expect.objectContaining({ receipt_count: 3, total_spend: 15.4 }),
+    ]);
+    expect(
+      (await service.topItems('acme', { currency: 'USD' })).data[0],
+    ).toMatchObject({
+      total_spend: 6,
+    });
+  });
+
+  it('formats ISO weeks across year boundaries', () => {
+    expect(isoWeek('2021-01-03')).toBe('2020-W53');
+    expect(isoWeek('2024-12-30')).toBe('2025-W01');
+  });
+});
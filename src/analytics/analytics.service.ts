@@ -0,0 +1,320 @@
+import { Injectable } from '@nestjs/common';
+import { ReceiptRepository } from '../receipt/repositories/receipt.repository';
+import { ReceiptResponse } from '../receipt/dto/receipt-response.dto';
+import {
+  countsTowardSpend,
+  matchesReceiptFilters,
+} from '../receipt/repositories/receipt-query';
+import { FALLBACK_CATEGORY } from '../categorization/default-taxonomy';
+import { VendorRegistry } from '../receipt/vendors/vendor-registry.service';
+import {
+  AnalyticsQueryDto,
+  PeriodAnalyticsQueryDto,
+  PeriodGranularity,
+  TopItemsQueryDto,
+} from './dto/analytics-query.dto';
+import {
+  AnalyticsResult,
+  BasketSize,
+  CategorySpend,
+  CurrencySpend,
+  ItemSpend,
+  PeriodSpend,
+  PeriodTax,
+  VendorSpend,
+} from './interfaces/analytics.interface';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// ISO 8601 week, e.g. 2024-W03; weeks start on Monday
+export function isoWeek(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+// Restates a receipt in its base currency so it can be grouped with others
+function inBaseCurrency(receipt: ReceiptResponse): ReceiptResponse {
+  const { currency, rate, total, tax } = receipt.base_amounts;
+  return {
+    ...receipt,
+    currency,
+    total,
+    tax,
+    receipt_items: receipt.receipt_items.map((item) => ({
+      ...item,
+      item_cost: round(item.item_cost * rate),
+    })),
+  };
+}
+
+// Receipts without a readable ISO date are grouped apart, not dropped, so
+// period totals still add up to overall spend
+const UNKNOWN_PERIOD = 'unknown';
+
+function periodOf(date: string, granularity: PeriodGranularity): string {
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(date ?? '') ||
+    isNaN(Date.parse(`${date}T00:00:00Z`))
+  ) {
+    return UNKNOWN_PERIOD;
+  }
+  return granularity === 'week' ? isoWeek(date) : date.slice(0, 7);
+}
+
+/**
+ * Groups rows by key, creating each group on first sight. Keeps insertion
+ * order so callers only sort once at the end.
+ */
+function groupBy<T>(
+  receipts: ReceiptResponse[],
+  key: (receipt: ReceiptResponse) => string,
+  create: (receipt: ReceiptResponse) => T,
+  add: (group: T, receipt: ReceiptResponse) => void,
+): T[] {
+  const groups = new Map<string, T>();
+  for (const receipt of receipts) {
+    const groupKey = key(receipt);
+    if (!groups.has(groupKey)) {
+      groups.set(groupKey, create(receipt));
+    }
+    add(groups.get(groupKey), receipt);
+  }
+  return Array.from(groups.values());
+}
+
+@Injectable()
+export class AnalyticsService {
+  constructor(
+    private readonly receiptRepository: ReceiptRepository,
+    private readonly vendorRegistry: VendorRegistry,
+  ) {}
+
+  // Groups by registry vendor, so every spelling of a vendor counts once
+  async spendByVendor(
+    tenantId: string,
+    query: AnalyticsQueryDto,
+  ): Promise<AnalyticsResult<VendorSpend>> {
+    const names = new Map(
+      (await this.vendorRegistry.list(tenantId)).map((v) => [v.id, v.name]),
+    );
+    const vendorKey = (r: ReceiptResponse) =>
+      r.vendor_id ?? r.vendor_name.trim().toLowerCase();
+    const rows = groupBy<VendorSpend>(
+      await this.receipts(tenantId, query),
+      (r) => `${vendorKey(r)}|${r.currency}`,
+      (r) => ({
+        vendor_id: r.vendor_id,
+        vendor_name: names.get(r.vendor_id) ?? r.vendor_name.trim(),
+        currency: r.currency,
+        receipt_count: 0,
+        total_spend: 0,
+      }),
+      (row, r) => {
+        row.receipt_count++;
+        row.total_spend += r.total;
+      },
+    );
+    return {
+      data: rows
+        .map((row) => ({ ...row, total_spend: round(row.total_spend) }))
+        .sort((a, b) => b.total_spend - a.total_spend),
+    };
+  }
+
+  // Receipts categorized before categories existed count as 'other'
+  async spendByCategory(
+    tenantId: string,
+    query: AnalyticsQueryDto,
+  ): Promise<AnalyticsResult<CategorySpend>> {
+    const categoryOf = (r: ReceiptResponse) => r.category ?? FALLBACK_CATEGORY;
+    const rows = groupBy<CategorySpend>(
+      await this.receipts(tenantId, query),
+      (r) => `${categoryOf(r)}|${r.currency}`,
+      (r) => ({
+        category: categoryOf(r),
+        currency: r.currency,
+        receipt_count: 0,
+        total_spend: 0,
+      }),
+      (row, r) => {
+        row.receipt_count++;
+        row.total_spend += r.total;
+      },
+    );
+    return {
+      data: rows
+        .map((row) => ({ ...row, total_spend: round(row.total_spend) }))
+        .sort((a, b) => b.total_spend - a.total_spend),
+    };
+  }
+
+  async spendByPeriod(
+    tenantId: string,
+    query: PeriodAnalyticsQueryDto,
+  ): Promise<AnalyticsResult<PeriodSpend>> {
+    const granularity = query.granularity ?? 'month';
+    const rows = groupBy<PeriodSpend>(
+      await this.receipts(tenantId, query),
+      (r) => `${periodOf(r.date, granularity)}|${r.currency}`,
+      (r) => ({
+        period: periodOf(r.date, granularity),
+        currency: r.currency,
+        receipt_count: 0,
+        total_spend: 0,
+      }),
+      (row, r) => {
+        row.receipt_count++;
+        row.total_spend += r.total;
+      },
+    );
+    return {
+      data: rows
+        .map((row) => ({ ...row, total_spend: round(row.total_spend) }))
+        .sort(
+          (a, b) =>
+            a.period.localeCompare(b.period) ||
+            a.currency.localeCompare(b.currency),
+        ),
+    };
+  }
+
+  async spendByCurrency(
+    tenantId: string,
+    query: AnalyticsQueryDto,
+  ): Promise<AnalyticsResult<CurrencySpend>> {
+    const rows = groupBy<CurrencySpend>(
+      await this.receipts(tenantId, query),
+      (r) => r.currency,
+      (r) => ({
+        currency: r.currency,
+        receipt_count: 0,
+        total_spend: 0,
+        total_tax: 0,
+      }),
+      (row, r) => {
+        row.receipt_count++;
+        row.total_spend += r.total;
+        row.total_tax += r.tax;
+      },
+    );
+    return {
+      data: rows
+        .map((row) => ({
+          ...row,
+          total_spend: round(row.total_spend),
+          total_tax: round(row.total_tax),
+        }))
+        .sort((a, b) => b.total_spend - a.total_spend),
+    };
+  }
+
+  async topItems(
+    tenantId: string,
+    query: TopItemsQueryDto,
+  ): Promise<AnalyticsResult<ItemSpend>> {
+    const items = new Map<string, ItemSpend>();
+    for (const receipt of await this.receipts(tenantId, query)) {
+      for (const item of receipt.receipt_items) {
+        const name = item.item_name.trim();
+        const key = `${name.toLowerCase()}|${receipt.currency}`;
+        if (!items.has(key)) {
+          items.set(key, {
+            item_name: name,
+            currency: receipt.currency,
+            occurrences: 0,
+            quantity: 0,
+            total_spend: 0,
+          });
+        }
+        const row = items.get(key);
+        row.occurrences++;
+        row.quantity += item.quantity ?? 1;
+        row.total_spend += item.item_cost;
+      }
+    }
+
+    return {
+      data: Array.from(items.values())
+        .map((row) => ({ ...row, total_spend: round(row.total_spend) }))
+        .sort((a, b) => b.total_spend - a.total_spend)
+        .slice(0, query.limit ?? 10),
+    };
+  }
+
+  async basketSize(
+    tenantId: string,
+    query: AnalyticsQueryDto,
+  ): Promise<AnalyticsResult<BasketSize>> {
+    const rows = groupBy(
+      await this.receipts(tenantId, query),
+      (r) => r.currency,
+      (r) => ({ currency: r.currency, receipt_count: 0, total: 0, items: 0 }),
+      (row, r) => {
+        row.receipt_count++;
+        row.total += r.total;
+        row.items += r.receipt_items.length;
+      },
+    );
+    return {
+      data: rows
+        .map((row) => ({
+          currency: row.currency,
+          receipt_count: row.receipt_count,
+          average_total: round(row.total / row.receipt_count),
+          average_item_count: round(row.items / row.receipt_count),
+        }))
+        .sort((a, b) => b.receipt_count - a.receipt_count),
+    };
+  }
+
+  async taxByPeriod(
+    tenantId: string,
+    query: PeriodAnalyticsQueryDto,
+  ): Promise<AnalyticsResult<PeriodTax>> {
+    const granularity = query.granularity ?? 'month';
+    const rows = groupBy<PeriodTax>(
+      await this.receipts(tenantId, query),
+      (r) => `${periodOf(r.date, granularity)}|${r.currency}`,
+      (r) => ({
+        period: periodOf(r.date, granularity),
+        currency: r.currency,
+        receipt_count: 0,
+        total_tax: 0,
+      }),
+      (row, r) => {
+        row.receipt_count++;
+        row.total_tax += r.tax;
+      },
+    );
+    return {
+      data: rows
+        .map((row) => ({ ...row, total_tax: round(row.total_tax) }))
+        .sort(
+          (a, b) =>
+            a.period.localeCompare(b.period) ||
+            a.currency.localeCompare(b.currency),
+        ),
+    };
+  }
+
+  private async receipts(
+    tenantId: string,
+    query: AnalyticsQueryDto,
+  ): Promise<ReceiptResponse[]> {
+    const receipts = (await this.receiptRepository.findAll(tenantId)).filter(
+      (receipt) =>
+        countsTowardSpend(receipt, query) &&
+        matchesReceiptFilters(receipt, query),
+    );
+    if (query.amounts !== 'base') {
+      return receipts;
+    }
+    return receipts
+      .filter((receipt) => receipt.base_amounts)
+      .map((receipt) => inBaseCurrency(receipt));
+  }
+}
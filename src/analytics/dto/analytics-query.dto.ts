@@ -0,0 +1,33 @@
+import { Transform, Type } from 'class-transformer';
+import { IsBoolean, IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ReceiptFilterQueryDto } from '../../receipt/dto/receipt-filter-query.dto';
+
+export class AnalyticsQueryDto extends ReceiptFilterQueryDto {
+  // 'base' reports everything in BASE_CURRENCY, skipping receipts without a rate
+  @IsOptional()
+  @IsIn(['original', 'base'])
+  amounts?: 'original' | 'base';
+
+  // Flagged possible duplicates are left out of totals unless this is set
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  include_duplicates?: boolean;
+}
+
+export type PeriodGranularity = 'month' | 'week';
+
+export class PeriodAnalyticsQueryDto extends AnalyticsQueryDto {
+  @IsOptional()
+  @IsIn(['month', 'week'])
+  granularity?: PeriodGranularity;
+}
+
+export class TopItemsQueryDto extends AnalyticsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
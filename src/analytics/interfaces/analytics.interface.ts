@@ -0,0 +1,58 @@
+// Amounts are never summed across currencies, so every row carries one
+
+export interface VendorSpend {
+  // Absent for receipts not yet linked to the vendor registry
+  vendor_id?: string;
+  vendor_name: string;
+  currency: string;
+  receipt_count: number;
+  total_spend: number;
+}
+
+export interface CategorySpend {
+  category: string;
+  currency: string;
+  receipt_count: number;
+  total_spend: number;
+}
+
+export interface PeriodSpend {
+  // YYYY-MM for months, YYYY-Www (ISO week) for weeks
+  period: string;
+  currency: string;
+  receipt_count: number;
+  total_spend: number;
+}
+
+export interface CurrencySpend {
+  currency: string;
+  receipt_count: number;
+  total_spend: number;
+  total_tax: number;
+}
+
+export interface ItemSpend {
+  item_name: string;
+  currency: string;
+  occurrences: number;
+  quantity: number;
+  total_spend: number;
+}
+
+export interface BasketSize {
+  currency: string;
+  receipt_count: number;
+  average_total: number;
+  average_item_count: number;
+}
+
+export interface PeriodTax {
+  period: string;
+  currency: string;
+  receipt_count: number;
+  total_tax: number;
+}
+
+export interface AnalyticsResult<T> {
+  data: T[];
+}
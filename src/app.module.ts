@@ -1,12 +1,37 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { ReceiptModule } from './receipt/receipt.module';
 import { TestModule } from './test/test.module';
+import { AnalyticsModule } from './analytics/analytics.module';
+import { AuthModule } from './auth/auth.module';
+import { ExportModule } from './exports/export.module';
+import { ReconciliationModule } from './reconciliation/reconciliation.module';
+import { EvaluationModule } from './evaluation/evaluation.module';
+import { DocsModule } from './docs/docs.module';
+import { AppExceptionFilter } from './common/errors/app-exception.filter';
+import { RequestIdMiddleware } from './common/request-id.middleware';
 
 @Module({
-  imports: [ReceiptModule, TestModule],
+  imports: [
+    AuthModule,
+    ReceiptModule,
+    TestModule,
+    AnalyticsModule,
+    ExportModule,
+    ReconciliationModule,
+    EvaluationModule,
+    DocsModule,
+  ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    { provide: APP_FILTER, useClass: AppExceptionFilter },
+  ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(RequestIdMiddleware).forRoutes('*');
+  }
+}
@@ -0,0 +1,17 @@
+import { FactoryProvider } from '@nestjs/common';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import { resolveDataPath } from '../common/persistence/data-dir';
+import { ApiKeyService, ApiKeyState } from './api-key.service';
+
+export function createApiKeyService(): ApiKeyService {
+  return new ApiKeyService(
+    new JsonFileStore<ApiKeyState>(resolveDataPath('api-keys.json'), () => ({
+      keys: [],
+    })),
+  );
+}
+
+export const apiKeyService: FactoryProvider<ApiKeyService> = {
+  provide: ApiKeyService,
+  useFactory: () => createApiKeyService(),
+};
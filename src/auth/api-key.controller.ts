@@ -0,0 +1,38 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiKeyService } from './api-key.service';
+import { AdminOnly } from './decorators/auth.decorators';
+import { IssueApiKeyDto, ListApiKeysQueryDto } from './dto/api-key.dto';
+import { ApiKeySummary, IssuedApiKey } from './interfaces/auth.interface';
+
+@Controller('admin/api-keys')
+@AdminOnly()
+export class ApiKeyController {
+  constructor(private readonly apiKeys: ApiKeyService) {}
+
+  // The plaintext key is only ever returned here
+  @Post()
+  issueKey(@Body() body: IssueApiKeyDto): Promise<IssuedApiKey> {
+    return this.apiKeys.issue(body.tenant_id, body.name);
+  }
+
+  @Get()
+  listKeys(@Query() query: ListApiKeysQueryDto): Promise<ApiKeySummary[]> {
+    return this.apiKeys.list(query.tenant_id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  revokeKey(@Param('id') id: string): Promise<ApiKeySummary> {
+    return this.apiKeys.revoke(id);
+  }
+}
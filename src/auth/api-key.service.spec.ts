@@ -0,0 +1,68 @@
+import { NotFoundException } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import { ApiKeyService, ApiKeyState } from './api-key.service';
+
+describe('ApiKeyService', () => {
+  let dataDir: string;
+  let filePath: string;
+  let apiKeys: ApiKeyService;
+
+  const open = () =>
+    new ApiKeyService(
+      new JsonFileStore<ApiKeyState>(filePath, () => ({ keys: [] })),
+    );
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'api-keys-'));
+    filePath = path.join(dataDir, 'api-keys.json');
+    apiKeys = open();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('issues keys that authenticate as their tenant', async () => {
+    const issued = await apiKeys.issue('acme', 'CI uploads');
+
+    expect(issued.key).toMatch(/^rk_[\w-]{32}$/);
+    expect(issued.key.startsWith(issued.prefix)).toBe(true);
+    expect(await open().authenticate(issued.key)).toMatchObject({
+      id: issued.id,
+      tenant_id: 'acme',
+      name: 'CI uploads',
+    });
+    expect(await apiKeys.authenticate('rk_unknown')).toBeUndefined();
+  });
+
+  it('stores only a hash of each key', async () => {
+    const issued = await apiKeys.issue('acme', 'CI uploads');
+
+    const stored = await fs.readFile(filePath, 'utf8');
+    expect(stored).not.toContain(issued.key);
+    expect(await apiKeys.list()).toEqual([
+      expect.not.objectContaining({ key_hash: expect.anything() }),
+    ]);
+  });
+
+  it('lists keys per tenant', async () => {
+    await apiKeys.issue('acme', 'one');
+    await apiKeys.issue('globex', 'two');
+
+    expect((await apiKeys.list('acme')).map((k) => k.name)).toEqual(['one']);
+    expect(await apiKeys.list()).toHaveLength(2);
+  });
+
+  it('rejects revoked keys', async () => {
+    const issued = await apiKeys.issue('acme', 'laptop');
+
+    const revoked = await apiKeys.revoke(issued.id);
+
+    expect(revoked.revoked_at).toBeDefined();
+    expect(await apiKeys.authenticate(issued.key)).toBeUndefined();
+    await expect(apiKeys.revoke('missing')).rejects.toThrow(NotFoundException);
+  });
+});
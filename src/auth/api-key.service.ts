@@ -0,0 +1,89 @@
+import { NotFoundException } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import {
+  ApiKey,
+  ApiKeySummary,
+  IssuedApiKey,
+} from './interfaces/auth.interface';
+
+export interface ApiKeyState {
+  keys: ApiKey[];
+}
+
+export const API_KEY_PREFIX = 'rk_';
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function summarize(apiKey: ApiKey): ApiKeySummary {
+  const summary: Partial<ApiKey> = { ...apiKey };
+  delete summary.key_hash;
+  return summary as ApiKeySummary;
+}
+
+/**
+ * Tenant API keys. Only a hash of each key is stored, so a key is shown once
+ * when issued and cannot be recovered afterwards.
+ */
+export class ApiKeyService {
+  constructor(private readonly store: JsonFileStore<ApiKeyState>) {}
+
+  async issue(tenantId: string, name: string): Promise<IssuedApiKey> {
+    const key = API_KEY_PREFIX + randomBytes(24).toString('base64url');
+    const apiKey: ApiKey = {
+      id: uuidv4(),
+      tenant_id: tenantId,
+      name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      key_hash: hashKey(key),
+      created_at: new Date().toISOString(),
+    };
+    await this.store.update((state) => {
+      state.keys.push(apiKey);
+    });
+    return { ...summarize(apiKey), key };
+  }
+
+  async list(tenantId?: string): Promise<ApiKeySummary[]> {
+    const { keys } = await this.store.read();
+    return keys
+      .filter((k) => !tenantId || k.tenant_id === tenantId)
+      .map((k) => summarize(structuredClone(k)));
+  }
+
+  async revoke(id: string): Promise<ApiKeySummary> {
+    return this.store.update((state) => {
+      const apiKey = state.keys.find((k) => k.id === id);
+      if (!apiKey) {
+        throw new NotFoundException(`API key with ID '${id}' not found`);
+      }
+      apiKey.revoked_at ??= new Date().toISOString();
+      return summarize(structuredClone(apiKey));
+    });
+  }
+
+  // Resolves to undefined for unknown or revoked keys
+  async authenticate(key: string): Promise<ApiKeySummary | undefined> {
+    const keyHash = hashKey(key);
+    const { keys } = await this.store.read();
+    const apiKey = keys.find((k) => k.key_hash === keyHash && !k.revoked_at);
+    if (!apiKey) {
+      return undefined;
+    }
+    // Recorded at most once a minute to keep writes down
+    const now = new Date();
+    if (
+      !apiKey.last_used_at ||
+      now.getTime() - Date.parse(apiKey.last_used_at) > 60_000
+    ) {
+      await this.store.update((state) => {
+        const stored = state.keys.find((k) => k.id === apiKey.id);
+        stored.last_used_at = now.toISOString();
+      });
+    }
+    return summarize(structuredClone(apiKey));
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHmac } from 'crypto';
+import { AuthGuard } from './auth.guard';
+import { ApiKeyService } from './api-key.service';
+import { IS_ADMIN, IS_PUBLIC } from './decorators/auth.decorators';
+import { AuthenticatedRequest } from './interfaces/auth.interface';
+import { CategorizationController } from '../categorization/categorization.controller';
+import { ExchangeRateController } from '../currency/exchange-rate.controller';
+
+function jwt(claims: object): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256' })}.${encode(claims)}`;
+  return `${unsigned}.${createHmac('sha256', 'jwt-secret').update(unsigned).digest('base64url')}`;
+}
+
+describe('AuthGuard', () => {
+  let guard: AuthGuard;
+  let apiKeys: ApiKeyService;
+  let metadata: Record<string, boolean>;
+
+  const context = (headers: Record<string, string>) => {
+    const request = { headers } as unknown as AuthenticatedRequest;
+    return {
+      request,
+      context: {
+        getHandler: () => undefined,
+        getClass: () => undefined,
+        switchToHttp: () => ({ getRequest: () => request }),
+      } as unknown as ExecutionContext,
+    };
+  };
+
+  beforeEach(() => {
+    process.env.ADMIN_API_KEY = 'admin-secret';
+    process.env.JWT_SECRET = 'jwt-secret';
+    metadata = {};
+    const reflector = {
+      getAllAndOverride: (key: string) => metadata[key],
+    } as unknown as Reflector;
+    apiKeys = {
+      authenticate: async (key: string) =>
+        key === 'rk_valid' ? { id: 'key-1', tenant_id: 'acme' } : undefined,
+    } as unknown as ApiKeyService;
+    guard = new AuthGuard(reflector, apiKeys);
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_API_KEY;
+    delete process.env.JWT_SECRET;
+  });
+
+  it('lets anyone through to public routes', async () => {
+    metadata[IS_PUBLIC] = true;
+
+    await expect(guard.canActivate(context({}).context)).resolves.toBe(true);
+  });
+
+  it('rejects requests without valid credentials', async () => {
+    await expect(guard.canActivate(context({}).context)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    await expect(
+      guard.canActivate(context({ 'x-api-key': 'rk_revoked' }).context),
+    ).rejects.toThrow(UnauthorizedException);
+    await expect(
+      guard.canActivate(
+        context({ authorization: `Bearer ${jwt({ sub: 'u' })}` }).context,
+      ),
+    ).rejects.toThrow('Token must include sub and tenant_id');
+  });
+
+  it('attaches the tenant of an API key', async () => {
+    const { request, context: ctx } = context({ 'x-api-key': 'rk_valid' });
+
+    await expect(guard.canActivate(ctx)).resolves.toBe(true);
+    expect(request.principal).toEqual({
+      method: 'api_key',
+      subject: 'key-1',
+      tenant_id: 'acme',
+    });
+  });
+
+  it('attaches the tenant of a bearer JWT', async () => {
+    const token = jwt({ sub: 'user-1', tenant_id: 'globex' });
+    const { request, context: ctx } = context({
+      authorization: `Bearer ${token}`,
+    });
+
+    await expect(guard.canActivate(ctx)).resolves.toBe(true);
+    expect(request.principal).toEqual({
+      method: 'jwt',
+      subject: 'user-1',
+      tenant_id: 'globex',
+    });
+  });
+
+  it('keeps the admin key and tenant credentials apart', async () => {
+    const admin = { 'x-api-key': 'admin-secret' };
+    const tenant = { 'x-api-key': 'rk_valid' };
+
+    await expect(guard.canActivate(context(admin).context)).rejects.toThrow(
+      ForbiddenException,
+    );
+    metadata[IS_ADMIN] = true;
+    await expect(guard.canActivate(context(admin).context)).resolves.toBe(true);
+    await expect(guard.canActivate(context(tenant).context)).rejects.toThrow(
+      'Admin access required',
+    );
+  });
+
+  // Shared by every tenant, so a tenant changing them affects all the others
+  it.each([
+    ['PUT /categories', CategorizationController, 'setTaxonomy'],
+    ['POST /exchange-rates/import', ExchangeRateController, 'importRates'],
+  ])('reserves %s for the admin key', async (_, controller, method) => {
+    const routeGuard = new AuthGuard(new Reflector(), apiKeys);
+    const { request } = context({ 'x-api-key': 'rk_valid' });
+    const route = {
+      getHandler: () => controller.prototype[method],
+      getClass: () => controller,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+
+    await expect(routeGuard.canActivate(route)).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHash, timingSafeEqual } from 'crypto';
+import { ApiKeyService, API_KEY_PREFIX } from './api-key.service';
+import { InvalidTokenError, JwtVerifier } from './jwt-verifier';
+import { IS_ADMIN, IS_PUBLIC } from './decorators/auth.decorators';
+import { AuthenticatedRequest, Principal } from './interfaces/auth.interface';
+
+function sameSecret(a: string, b: string): boolean {
+  // Hashing first makes the comparison constant-time for any length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Authenticates every request unless the route is marked @Public(). Callers
+ * send a tenant API key or an HS256 JWT, either as `X-API-Key` or as
+ * `Authorization: Bearer <credential>`. ADMIN_API_KEY only opens @AdminOnly()
+ * routes, which in turn accept nothing else.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  private readonly logger = new Logger(AuthGuard.name);
+  private readonly adminKey = process.env.ADMIN_API_KEY;
+  private readonly jwtVerifier = process.env.JWT_SECRET
+    ? new JwtVerifier(process.env.JWT_SECRET)
+    : undefined;
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeys: ApiKeyService,
+  ) {
+    if (!this.adminKey) {
+      this.logger.warn('ADMIN_API_KEY is not set; API keys cannot be issued');
+    }
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const credential = this.credentialOf(request);
+    if (!credential) {
+      throw new UnauthorizedException('Missing API key or bearer token');
+    }
+    const principal = await this.authenticate(credential);
+    if (!principal) {
+      throw new UnauthorizedException('Invalid API key or token');
+    }
+
+    const adminRoute = this.reflector.getAllAndOverride<boolean>(
+      IS_ADMIN,
+      targets,
+    );
+    if (adminRoute && principal.method !== 'admin') {
+      throw new ForbiddenException('Admin access required');
+    }
+    if (!adminRoute && !principal.tenant_id) {
+      throw new ForbiddenException('The admin key cannot access tenant data');
+    }
+
+    request.principal = principal;
+    return true;
+  }
+
+  private credentialOf(request: AuthenticatedRequest): string | undefined {
+    const apiKey = request.headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey) {
+      return apiKey;
+    }
+    const [scheme, value] = (request.headers.authorization ?? '').split(' ');
+    return scheme?.toLowerCase() === 'bearer' && value ? value : undefined;
+  }
+
+  private async authenticate(
+    credential: string,
+  ): Promise<Principal | undefined> {
+    if (this.adminKey && sameSecret(credential, this.adminKey)) {
+      return { method: 'admin', subject: 'admin' };
+    }
+    if (credential.startsWith(API_KEY_PREFIX)) {
+      const apiKey = await this.apiKeys.authenticate(credential);
+      return (
+        apiKey && {
+          method: 'api_key',
+          subject: apiKey.id,
+          tenant_id: apiKey.tenant_id,
+        }
+      );
+    }
+    if (this.jwtVerifier) {
+      try {
+        const claims = this.jwtVerifier.verify(credential);
+        return {
+          method: 'jwt',
+          subject: claims.sub,
+          tenant_id: claims.tenant_id,
+        };
+      } catch (error) {
+        if (error instanceof InvalidTokenError) {
+          throw new UnauthorizedException(error.message);
+        }
+        throw error;
+      }
+    }
+    return undefined;
+  }
+}
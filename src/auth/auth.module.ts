@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { ApiKeyController } from './api-key.controller';
+import { apiKeyService } from './api-key-service.factory';
+import { AuthGuard } from './auth.guard';
+
+@Module({
+  controllers: [ApiKeyController],
+  providers: [apiKeyService, { provide: APP_GUARD, useClass: AuthGuard }],
+})
+export class AuthModule {}
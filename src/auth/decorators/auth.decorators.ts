@@ -0,0 +1,28 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+import { AuthenticatedRequest, Principal } from '../interfaces/auth.interface';
+
+export const IS_PUBLIC = 'auth:public';
+export const IS_ADMIN = 'auth:admin';
+
+// Skips authentication, e.g. for links that carry their own signature
+export const Public = () => SetMetadata(IS_PUBLIC, true);
+
+// Only ADMIN_API_KEY may call the route
+export const AdminOnly = () => SetMetadata(IS_ADMIN, true);
+
+// Tenant of the authenticated caller
+export const CurrentTenant = createParamDecorator(
+  (_: unknown, context: ExecutionContext): string =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().principal
+      ?.tenant_id,
+);
+
+// The authenticated caller, e.g. to record who changed something
+export const CurrentPrincipal = createParamDecorator(
+  (_: unknown, context: ExecutionContext): Principal =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().principal,
+);
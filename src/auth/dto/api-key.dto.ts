@@ -0,0 +1,20 @@
+import { IsNotEmpty, IsOptional, IsString, Matches } from 'class-validator';
+
+export class IssueApiKeyDto {
+  // Letters, digits, '-' and '_' so tenant ids are safe in keys and paths
+  @IsString()
+  @Matches(/^[\w-]{1,64}$/, {
+    message: 'tenant_id must be 1-64 letters, digits, "-" or "_"',
+  })
+  tenant_id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+}
+
+export class ListApiKeysQueryDto {
+  @IsOptional()
+  @IsString()
+  tenant_id?: string;
+}
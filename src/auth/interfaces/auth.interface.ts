@@ -0,0 +1,33 @@
+import { Request } from 'express';
+
+export type AuthMethod = 'api_key' | 'jwt' | 'admin';
+
+// Who made the request; admin callers act on no tenant's behalf
+export interface Principal {
+  method: AuthMethod;
+  subject: string;
+  tenant_id?: string;
+}
+
+export interface AuthenticatedRequest extends Request {
+  principal?: Principal;
+}
+
+export interface ApiKey {
+  id: string;
+  tenant_id: string;
+  name: string;
+  // First characters of the key, so callers can tell keys apart
+  prefix: string;
+  // SHA-256 of the key; the key itself is only returned when issued
+  key_hash: string;
+  created_at: string;
+  last_used_at?: string;
+  revoked_at?: string;
+}
+
+export type ApiKeySummary = Omit<ApiKey, 'key_hash'>;
+
+export interface IssuedApiKey extends ApiKeySummary {
+  key: string;
+}
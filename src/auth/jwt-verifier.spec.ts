@@ -0,0 +1,57 @@
+import { createHmac } from 'crypto';
+import { InvalidTokenError, JwtVerifier } from './jwt-verifier';
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function sign(
+  claims: object,
+  secret = 'jwt-secret',
+  header: object = { alg: 'HS256', typ: 'JWT' },
+): string {
+  const unsigned = `${encode(header)}.${encode(claims)}`;
+  const signature = createHmac('sha256', secret)
+    .update(unsigned)
+    .digest('base64url');
+  return `${unsigned}.${signature}`;
+}
+
+describe('JwtVerifier', () => {
+  const verifier = new JwtVerifier('jwt-secret');
+  const now = Date.UTC(2024, 0, 1);
+  const claims = { sub: 'user-1', tenant_id: 'acme', exp: now / 1000 + 60 };
+
+  it('returns the claims of a valid token', () => {
+    expect(verifier.verify(sign(claims), now)).toMatchObject({
+      sub: 'user-1',
+      tenant_id: 'acme',
+    });
+  });
+
+  it('rejects tokens signed with another secret or algorithm', () => {
+    expect(() => verifier.verify(sign(claims, 'other'), now)).toThrow(
+      'Invalid token signature',
+    );
+    expect(() =>
+      verifier.verify(sign(claims, 'jwt-secret', { alg: 'none' }), now),
+    ).toThrow('Unsupported token algorithm');
+    expect(() => verifier.verify('not-a-token', now)).toThrow(
+      InvalidTokenError,
+    );
+  });
+
+  it('enforces exp and nbf', () => {
+    expect(() => verifier.verify(sign(claims), now + 61_000)).toThrow(
+      'Token has expired',
+    );
+    expect(() =>
+      verifier.verify(sign({ ...claims, nbf: now / 1000 + 10 }), now),
+    ).toThrow('Token is not valid yet');
+  });
+
+  it('requires sub and tenant_id', () => {
+    expect(() => verifier.verify(sign({ sub: 'user-1' }), now)).toThrow(
+      'Token must include sub and tenant_id',
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface JwtClaims {
+  sub: string;
+  tenant_id: string;
+  exp?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+export class InvalidTokenError extends Error {}
+
+function decodeSegment(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString());
+  } catch {
+    throw new InvalidTokenError('Malformed token');
+  }
+}
+
+/**
+ * Verifies HS256 JSON Web Tokens signed with a shared secret. Tokens must
+ * name the caller (`sub`) and their tenant (`tenant_id`); `exp` and `nbf`
+ * are enforced when present.
+ */
+export class JwtVerifier {
+  constructor(private readonly secret: string) {}
+
+  verify(token: string, now = Date.now()): JwtClaims {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new InvalidTokenError('Malformed token');
+    }
+    const [header, payload, signature] = segments;
+
+    // Pinning the algorithm rules out "none" and key-confusion tricks
+    if (decodeSegment(header).alg !== 'HS256') {
+      throw new InvalidTokenError('Unsupported token algorithm');
+    }
+    const expected = createHmac('sha256', this.secret)
+      .update(`${header}.${payload}`)
+      .digest();
+    const actual = Buffer.from(signature, 'base64url');
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      throw new InvalidTokenError('Invalid token signature');
+    }
+
+    const claims = decodeSegment(payload);
+    const seconds = now / 1000;
+    if (typeof claims.exp === 'number' && seconds >= claims.exp) {
+      throw new InvalidTokenError('Token has expired');
+    }
+    if (typeof claims.nbf === 'number' && seconds < claims.nbf) {
+      throw new InvalidTokenError('Token is not valid yet');
+    }
+    if (
+      typeof claims.sub !== 'string' ||
+      typeof claims.tenant_id !== 'string'
+    ) {
+      throw new InvalidTokenError('Token must include sub and tenant_id');
+    }
+    return claims;
+  }
+}
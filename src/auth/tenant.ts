@@ -0,0 +1,2 @@
+// Receipts stored before tenants existed, and recovered uploads, belong here
+export const DEFAULT_TENANT_ID = 'default';
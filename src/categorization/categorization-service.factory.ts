@@ -0,0 +1,24 @@
+import { FactoryProvider } from '@nestjs/common';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import { resolveDataPath } from '../common/persistence/data-dir';
+import { DEFAULT_TAXONOMY } from './default-taxonomy';
+import {
+  CATEGORIZATION_MIGRATIONS,
+  CategorizationService,
+  CategorizationState,
+} from './categorization.service';
+
+export function createCategorizationService(): CategorizationService {
+  return new CategorizationService(
+    new JsonFileStore<CategorizationState>(
+      resolveDataPath('categories.json'),
+      () => ({ taxonomy: structuredClone(DEFAULT_TAXONOMY), rules: [] }),
+      CATEGORIZATION_MIGRATIONS,
+    ),
+  );
+}
+
+export const categorizationService: FactoryProvider<CategorizationService> = {
+  provide: CategorizationService,
+  useFactory: () => createCategorizationService(),
+};
@@ -0,0 +1,55 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { AdminOnly, CurrentTenant } from '../auth/decorators/auth.decorators';
+import { CategorizationService } from './categorization.service';
+import { CreateCategoryRuleDto } from './dto/category-rule.dto';
+import { UpdateTaxonomyDto } from './dto/update-taxonomy.dto';
+import { Category, CategoryRule } from './interfaces/category.interface';
+
+@Controller('categories')
+export class CategorizationController {
+  constructor(private readonly categorizationService: CategorizationService) {}
+
+  @Get()
+  getTaxonomy(): Promise<Category[]> {
+    return this.categorizationService.getTaxonomy();
+  }
+
+  // Replaces the whole taxonomy, which every tenant shares
+  @Put()
+  @AdminOnly()
+  setTaxonomy(@Body() body: UpdateTaxonomyDto): Promise<Category[]> {
+    return this.categorizationService.setTaxonomy(body.categories);
+  }
+
+  @Get('rules')
+  listRules(@CurrentTenant() tenantId: string): Promise<CategoryRule[]> {
+    return this.categorizationService.listRules(tenantId);
+  }
+
+  @Post('rules')
+  addRule(
+    @CurrentTenant() tenantId: string,
+    @Body() rule: CreateCategoryRuleDto,
+  ): Promise<CategoryRule> {
+    return this.categorizationService.addRule(tenantId, rule);
+  }
+
+  @Delete('rules/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  deleteRule(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<void> {
+    return this.categorizationService.deleteRule(tenantId, id);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { CategorizationController } from './categorization.controller';
+import { categorizationService } from './categorization-service.factory';
+import { CategorizationService } from './categorization.service';
+
+@Module({
+  controllers: [CategorizationController],
+  providers: [categorizationService],
+  exports: [CategorizationService],
+})
+export class CategorizationModule {}
@@ -0,0 +1,306 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import {
+  CATEGORIZATION_MIGRATIONS,
+  CategorizableReceipt,
+  CategorizationService,
+  CategorizationState,
+} from './categorization.service';
+import { DEFAULT_TAXONOMY } from './default-taxonomy';
+import { DEFAULT_TENANT_ID } from '../auth/tenant';
+
+const TENANT = 'acme';
+
+describe('CategorizationService', () => {
+  let dataDir: string;
+  let service: CategorizationService;
+
+  const receipt: CategorizableReceipt = {
+    vendor_name: 'Blue Bottle Coffee',
+    receipt_items: [
+      { item_name: 'Latte' },
+      { item_name: 'Printer Paper', category: 'groceries' },
+    ],
+  };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'categories-'));
+    service = new CategorizationService(
+      new JsonFileStore<CategorizationState>(
+        path.join(dataDir, 'categories.json'),
+        () => ({ taxonomy: structuredClone(DEFAULT_TAXONOMY), rules: [] }),
+      ),
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('falls back to the model category, then to other', async () => {
+    expect(
+      await service.categorize(TENANT, { ...receipt, category: 'meals' }),
+    ).toMatchObject({
+      category: 'meals',
+      category_source: 'model',
+      receipt_items: [{ category: 'meals' }, { category: 'groceries' }],
+    });
+
+    expect(
+      await service.categorize(TENANT, {
+        ...receipt,
+        category: 'not-a-category',
+      }),
+    ).toMatchObject({ category: 'other', category_source: 'default' });
+  });
+
+  it('applies vendor and item rules before the model', async () => {
+    await service.addRule(TENANT, {
+      type: 'vendor',
+      pattern: 'coffee|cafe',
+      category: 'meals',
+    });
+    await service.addRule(TENANT, {
+      type: 'item',
+      pattern: 'paper',
+      category: 'office_supplies',
+    });
+
+    expect(
+      await service.categorize(TENANT, { ...receipt, category: 'groceries' }),
+    ).toMatchObject({
+      category: 'meals',
+      category_source: 'rule',
+      receipt_items: [{ category: 'meals' }, { category: 'office_supplies' }],
+    });
+  });
+
+  it('learns vendor overrides that win over manual rules', async () => {
+    await service.addRule(TENANT, {
+      type: 'vendor',
+      pattern: 'coffee',
+      category: 'meals',
+    });
+    await service.learnVendorCategory(
+      TENANT,
+      'Blue Bottle Coffee',
+      'entertainment',
+    );
+    await service.learnVendorCategory(
+      TENANT,
+      'Blue Bottle Coffee',
+      'groceries',
+    );
+
+    const rules = await service.listRules(TENANT);
+    expect(rules.filter((rule) => rule.source === 'override')).toEqual([
+      expect.objectContaining({
+        type: 'vendor',
+        pattern: 'blue bottle coffee',
+        category: 'groceries',
+      }),
+    ]);
+    expect((await service.categorize(TENANT, receipt)).category).toBe(
+      'groceries',
+    );
+    expect(
+      (
+        await service.categorize(TENANT, {
+          ...receipt,
+          vendor_name: 'Coffee Co',
+        })
+      ).category,
+    ).toBe('meals');
+  });
+
+  it('learns nothing from receipts without a vendor name', async () => {
+    await service.learnVendorCategory(TENANT, '', 'entertainment');
+    await service.learnVendorCategory(TENANT, '  ', 'entertainment');
+    await service.learnVendorCategory(TENANT, undefined, 'entertainment');
+
+    expect(await service.listRules(TENANT)).toEqual([]);
+    expect(
+      (await service.categorize(TENANT, { ...receipt, vendor_name: '' }))
+        .category,
+    ).toBe('other');
+  });
+
+  it('applies a learned override to other stores of the same vendor', async () => {
+    await service.learnVendorCategory(
+      TENANT,
+      'STARBUCKS #1234',
+      'entertainment',
+    );
+
+    expect(
+      await service.categorize(TENANT, {
+        ...receipt,
+        vendor_name: 'Starbucks #5678',
+      }),
+    ).toMatchObject({ category: 'entertainment', category_source: 'rule' });
+    expect(
+      (
+        await service.categorize(TENANT, {
+          ...receipt,
+          vendor_name: 'Starbucks Reserve',
+        })
+      ).category,
+    ).toBe('other');
+  });
+
+  it('migrates overrides learned as anchored regexes to the default tenant', async () => {
+    const file = path.join(dataDir, 'legacy.json');
+    await fs.writeFile(
+      file,
+      JSON.stringify({
+        schema_version: 0,
+        data: {
+          taxonomy: DEFAULT_TAXONOMY,
+          rules: [
+            {
+              id: 'r1',
+              type: 'vendor',
+              pattern: '^Starbucks Co\\.$',
+              category: 'meals',
+              source: 'override',
+              created_at: '2024-01-01T00:00:00.000Z',
+            },
+          ],
+        },
+      }),
+    );
+    const legacy = new CategorizationService(
+      new JsonFileStore<CategorizationState>(
+        file,
+        () => ({ taxonomy: [], rules: [] }),
+        CATEGORIZATION_MIGRATIONS,
+      ),
+    );
+
+    expect((await legacy.listRules(DEFAULT_TENANT_ID))[0].pattern).toBe(
+      'starbucks',
+    );
+    expect(
+      (
+        await legacy.categorize(DEFAULT_TENANT_ID, {
+          ...receipt,
+          vendor_name: 'Starbucks #99',
+        })
+      ).category,
+    ).toBe('meals');
+  });
+
+  it("keeps each tenant's rules and learned overrides apart", async () => {
+    const rule = await service.addRule(TENANT, {
+      type: 'vendor',
+      pattern: 'bottle',
+      category: 'meals',
+    });
+    await service.learnVendorCategory(TENANT, 'Safeway', 'groceries');
+
+    expect(await service.listRules('globex')).toEqual([]);
+    expect(
+      await service.categorize('globex', {
+        ...receipt,
+        vendor_name: 'Safeway',
+      }),
+    ).toMatchObject({ category: 'other', category_source: 'default' });
+    expect((await service.categorize(undefined, receipt)).category).toBe(
+      'other',
+    );
+    await expect(service.deleteRule('globex', rule.id)).rejects.toThrow(
+      NotFoundException,
+    );
+    expect((await service.categorize(TENANT, receipt)).category).toBe('meals');
+  });
+
+  it('rejects invalid rules and unknown rule ids', async () => {
+    await expect(
+      service.addRule(TENANT, {
+        type: 'item',
+        pattern: '(',
+        category: 'meals',
+      }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.addRule(TENANT, {
+        type: 'item',
+        pattern: 'tea',
+        category: 'yachts',
+      }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(service.deleteRule(TENANT, 'missing')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('refuses patterns that can backtrack catastrophically, and never runs stored ones', async () => {
+    await expect(
+      service.addRule(TENANT, {
+        type: 'vendor',
+        pattern: '(a+)+$',
+        category: 'meals',
+      }),
+    ).rejects.toThrow(
+      "Pattern '(a+)+$' repeats a group containing quantifiers or alternatives",
+    );
+
+    const file = path.join(dataDir, 'unchecked.json');
+    await fs.writeFile(
+      file,
+      JSON.stringify({
+        schema_version: CATEGORIZATION_MIGRATIONS.length,
+        data: {
+          taxonomy: DEFAULT_TAXONOMY,
+          rules: [
+            {
+              id: 'r1',
+              tenant_id: TENANT,
+              type: 'vendor',
+              pattern: '(a+)+$',
+              category: 'meals',
+              source: 'manual',
+              created_at: '2024-01-01T00:00:00.000Z',
+            },
+          ],
+        },
+      }),
+    );
+    const unchecked = new CategorizationService(
+      new JsonFileStore<CategorizationState>(
+        file,
+        () => ({ taxonomy: [], rules: [] }),
+        CATEGORIZATION_MIGRATIONS,
+      ),
+    );
+
+    expect(
+      (await unchecked.categorize(TENANT, { ...receipt, vendor_name: 'aaaa' }))
+        .category,
+    ).toBe('other');
+  });
+
+  it('refuses taxonomies that drop categories still used by rules', async () => {
+    await service.addRule(TENANT, {
+      type: 'vendor',
+      pattern: 'shell',
+      category: 'fuel',
+    });
+
+    await expect(
+      service.setTaxonomy([{ id: 'other', name: 'Other' }]),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.setTaxonomy([{ id: 'fuel', name: 'Fuel' }]),
+    ).rejects.toThrow(BadRequestException);
+
+    const taxonomy = await service.setTaxonomy([
+      { id: 'fuel', name: 'Fuel' },
+      { id: 'other', name: 'Other' },
+    ]);
+    expect(taxonomy.map((category) => category.id)).toEqual(['fuel', 'other']);
+  });
+});
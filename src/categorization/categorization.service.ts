@@ -0,0 +1,255 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  JsonFileStore,
+  JsonStoreMigration,
+} from '../common/persistence/json-file-store';
+import { regexPatternProblem } from '../common/regex-pattern';
+import { DEFAULT_TENANT_ID } from '../auth/tenant';
+import { normalizeVendorName } from '../receipt/vendors/vendor-name';
+import { FALLBACK_CATEGORY } from './default-taxonomy';
+import {
+  Category,
+  CategoryRule,
+  CategorySource,
+} from './interfaces/category.interface';
+import { CreateCategoryRuleDto } from './dto/category-rule.dto';
+
+export interface CategorizationState {
+  taxonomy: Category[];
+  rules: CategoryRule[];
+}
+
+// The parts of a receipt that categorization reads and fills in
+export interface CategorizableReceipt {
+  vendor_name: string;
+  category?: string;
+  category_source?: CategorySource;
+  receipt_items: { item_name: string; category?: string }[];
+}
+
+export const CATEGORIZATION_MIGRATIONS: JsonStoreMigration[] = [
+  {
+    version: 1,
+    description: 'Key learned vendor overrides on the normalized vendor name',
+    up: (data: CategorizationState) => ({
+      ...data,
+      rules: data.rules.map((rule) =>
+        rule.source === 'override'
+          ? {
+              ...rule,
+              pattern: normalizeVendorName(
+                rule.pattern.replace(/^\^|\$$/g, '').replace(/\\(.)/g, '$1'),
+              ),
+            }
+          : rule,
+      ),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Assign rules from before tenants to the default tenant',
+    up: (data: CategorizationState) => {
+      for (const rule of data.rules) {
+        rule.tenant_id ??= DEFAULT_TENANT_ID;
+      }
+      return data;
+    },
+  },
+];
+
+// Learned overrides hold a normalized vendor name; other rules are regexes.
+// Rules stored before patterns were checked for backtracking never match
+function ruleMatches(rule: CategoryRule, text: string): boolean {
+  if (rule.source === 'override') {
+    const key = normalizeVendorName(text);
+    return key !== '' && key === rule.pattern;
+  }
+  return (
+    !regexPatternProblem(rule.pattern) &&
+    new RegExp(rule.pattern, 'i').test(text ?? '')
+  );
+}
+
+/**
+ * Assigns taxonomy categories to receipts and their items. The taxonomy is
+ * shared and managed by admins; rules belong to a tenant. A tenant's rules
+ * win over the category suggested by the extraction provider, and anything
+ * still unassigned falls back to 'other'.
+ */
+export class CategorizationService {
+  constructor(private readonly store: JsonFileStore<CategorizationState>) {}
+
+  async getTaxonomy(): Promise<Category[]> {
+    return structuredClone((await this.store.read()).taxonomy);
+  }
+
+  async setTaxonomy(categories: Category[]): Promise<Category[]> {
+    const ids = categories.map((category) => category.id);
+    const errors: string[] = [];
+    if (new Set(ids).size !== ids.length) {
+      errors.push('Category ids must be unique');
+    }
+    if (!ids.includes(FALLBACK_CATEGORY)) {
+      errors.push(`Taxonomy must include the '${FALLBACK_CATEGORY}' category`);
+    }
+
+    return this.store.update((state) => {
+      for (const rule of state.rules) {
+        if (!ids.includes(rule.category)) {
+          errors.push(
+            `Rule '${rule.id}' uses category '${rule.category}', which would be removed`,
+          );
+        }
+      }
+      if (errors.length > 0) {
+        throw new BadRequestException(errors);
+      }
+      state.taxonomy = structuredClone(categories);
+      return structuredClone(state.taxonomy);
+    });
+  }
+
+  async assertCategory(category: string): Promise<void> {
+    const taxonomy = await this.getTaxonomy();
+    if (!taxonomy.some((c) => c.id === category)) {
+      throw new BadRequestException(
+        `Unknown category '${category}'. Expected one of: ${taxonomy
+          .map((c) => c.id)
+          .join(', ')}`,
+      );
+    }
+  }
+
+  async listRules(tenantId: string): Promise<CategoryRule[]> {
+    const { rules } = await this.store.read();
+    return structuredClone(rules.filter((rule) => rule.tenant_id === tenantId));
+  }
+
+  async addRule(
+    tenantId: string,
+    rule: CreateCategoryRuleDto,
+  ): Promise<CategoryRule> {
+    const problem = regexPatternProblem(rule.pattern);
+    if (problem) {
+      throw new BadRequestException(`Pattern '${rule.pattern}' ${problem}`);
+    }
+    await this.assertCategory(rule.category);
+
+    const created: CategoryRule = {
+      id: uuidv4(),
+      tenant_id: tenantId,
+      type: rule.type,
+      pattern: rule.pattern,
+      category: rule.category,
+      source: 'manual',
+      created_at: new Date().toISOString(),
+    };
+    await this.store.update((state) => {
+      state.rules.push(created);
+    });
+    return created;
+  }
+
+  async deleteRule(tenantId: string, id: string): Promise<void> {
+    const deleted = await this.store.update((state) => {
+      const remaining = state.rules.filter(
+        (rule) => !(rule.id === id && rule.tenant_id === tenantId),
+      );
+      const found = remaining.length !== state.rules.length;
+      state.rules = remaining;
+      return found;
+    });
+    if (!deleted) {
+      throw new NotFoundException(`Category rule with ID '${id}' not found`);
+    }
+  }
+
+  /**
+   * Remembers a user's correction so future receipts from the vendor match
+   * it. The rule keys on the normalized name, so a correction on
+   * "STARBUCKS #1234" also applies to "Starbucks #5678". Nothing is learned
+   * without a readable vendor name, as the rule would match every receipt
+   * that lacks one.
+   */
+  async learnVendorCategory(
+    tenantId: string,
+    vendorName: string,
+    category: string,
+  ): Promise<void> {
+    const pattern = normalizeVendorName(vendorName);
+    if (!pattern) {
+      return;
+    }
+    await this.store.update((state) => {
+      state.rules = state.rules.filter(
+        (rule) =>
+          !(
+            rule.tenant_id === tenantId &&
+            rule.source === 'override' &&
+            rule.type === 'vendor' &&
+            rule.pattern === pattern
+          ),
+      );
+      state.rules.push({
+        id: uuidv4(),
+        tenant_id: tenantId,
+        type: 'vendor',
+        pattern,
+        category,
+        source: 'override',
+        created_at: new Date().toISOString(),
+      });
+    });
+  }
+
+  /**
+   * Returns a copy of the receipt with `category`, `category_source` and item
+   * categories filled in. Categories the provider suggested are kept only when
+   * the tenant's rules do not match and the category exists in the taxonomy.
+   * Without a tenant, no rules apply.
+   */
+  async categorize<T extends CategorizableReceipt>(
+    tenantId: string | undefined,
+    receipt: T,
+  ): Promise<T> {
+    const { taxonomy, rules } = await this.store.read();
+    const known = new Set(taxonomy.map((category) => category.id));
+    const own = rules.filter((rule) => rule.tenant_id === tenantId);
+    // Learned overrides take precedence over hand-written rules
+    const ordered = [
+      ...own.filter((rule) => rule.source === 'override'),
+      ...own.filter((rule) => rule.source === 'manual'),
+    ];
+    const match = (type: CategoryRule['type'], text: string) =>
+      ordered.find(
+        (rule) =>
+          rule.type === type &&
+          known.has(rule.category) &&
+          ruleMatches(rule, text),
+      )?.category;
+
+    const vendorCategory = match('vendor', receipt.vendor_name);
+    let category: string;
+    let source: CategorySource;
+    if (vendorCategory) {
+      [category, source] = [vendorCategory, 'rule'];
+    } else if (known.has(receipt.category)) {
+      [category, source] = [receipt.category, 'model'];
+    } else {
+      [category, source] = [FALLBACK_CATEGORY, 'default'];
+    }
+
+    return {
+      ...receipt,
+      category,
+      category_source: source,
+      receipt_items: receipt.receipt_items.map((item) => ({
+        ...item,
+        category:
+          match('item', item.item_name) ??
+          (known.has(item.category) ? item.category : category),
+      })),
+    };
+  }
+}
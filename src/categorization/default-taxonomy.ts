@@ -0,0 +1,23 @@
+import { Category } from './interfaces/category.interface';
+
+// Used when neither a rule nor the model assigns a category
+export const FALLBACK_CATEGORY = 'other';
+
+export const DEFAULT_TAXONOMY: Category[] = [
+  { id: 'meals', name: 'Meals & Dining' },
+  { id: 'groceries', name: 'Groceries' },
+  { id: 'travel', name: 'Travel', description: 'Flights, trains, car rental' },
+  { id: 'lodging', name: 'Lodging' },
+  {
+    id: 'transport',
+    name: 'Local Transport',
+    description: 'Taxis, transit, parking',
+  },
+  { id: 'fuel', name: 'Fuel' },
+  { id: 'office_supplies', name: 'Office Supplies' },
+  { id: 'software', name: 'Software & Subscriptions' },
+  { id: 'utilities', name: 'Utilities & Telecom' },
+  { id: 'entertainment', name: 'Entertainment' },
+  { id: 'health', name: 'Health & Pharmacy' },
+  { id: FALLBACK_CATEGORY, name: 'Other' },
+];
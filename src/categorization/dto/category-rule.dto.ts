@@ -0,0 +1,19 @@
+import { IsIn, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { CategoryRuleType } from '../interfaces/category.interface';
+
+export class CreateCategoryRuleDto {
+  @IsIn(['vendor', 'item'])
+  type: CategoryRuleType;
+
+  // Case-insensitive regular expression; plain keywords work as-is. Rules
+  // run on every extraction, so the service refuses patterns that can
+  // backtrack catastrophically
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  pattern: string;
+
+  @IsString()
+  @IsNotEmpty()
+  category: string;
+}
@@ -0,0 +1,25 @@
+export interface Category {
+  // Stable identifier stored on receipts, e.g. office_supplies
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export type CategoryRuleType = 'vendor' | 'item';
+
+// Where a receipt's category came from, in order of precedence
+export type CategorySource = 'user' | 'rule' | 'model' | 'default';
+
+export interface CategoryRule {
+  id: string;
+  tenant_id: string;
+  // vendor rules match vendor_name, item rules match item_name
+  type: CategoryRuleType;
+  // Case-insensitive regular expression; for 'override' rules, the
+  // normalized vendor name (see normalizeVendorName), matched exactly
+  pattern: string;
+  category: string;
+  // 'override' rules are learned from user corrections
+  source: 'manual' | 'override';
+  created_at: string;
+}
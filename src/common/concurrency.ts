@@ -0,0 +1,26 @@
+/**
+ * Maps items through an async function with at most `limit` calls in flight.
+ * Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.min(Math.max(1, limit), items.length) },
+    worker,
+  );
+  await Promise.all(workers);
+  return results;
+}
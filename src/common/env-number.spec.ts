@@ -0,0 +1,21 @@
+import { numberFromEnv } from './env-number';
+
+describe('numberFromEnv', () => {
+  it('should parse numeric values', () => {
+    expect(numberFromEnv('60', 900)).toBe(60);
+    expect(numberFromEnv(' 0.05 ', 0.02)).toBe(0.05);
+    expect(numberFromEnv('0', 0.02)).toBe(0);
+  });
+
+  it.each([undefined, '', '  ', 'fifteen', 'NaN', 'Infinity'])(
+    'should fall back for %p',
+    (value) => {
+      expect(numberFromEnv(value, 900)).toBe(900);
+    },
+  );
+
+  it('should fall back for values below the minimum', () => {
+    expect(numberFromEnv('0', 2, 1)).toBe(2);
+    expect(numberFromEnv('-5', 900)).toBe(900);
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Reads a numeric setting. Unset, unparseable or too small values use the
+ * fallback, so a typo in the environment never turns into NaN downstream.
+ */
+export function numberFromEnv(
+  value: string | undefined,
+  fallback: number,
+  min = 0,
+): number {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed >= min
+    ? parsed
+    : fallback;
+}
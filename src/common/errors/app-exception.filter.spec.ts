@@ -0,0 +1,128 @@
+import {
+  ArgumentsHost,
+  BadRequestException,
+  Logger,
+  NotFoundException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { AppExceptionFilter } from './app-exception.filter';
+import { AppException } from './app-exception';
+
+describe('AppExceptionFilter', () => {
+  let filter: AppExceptionFilter;
+  let response: {
+    headersSent: boolean;
+    status: jest.Mock;
+    json: jest.Mock;
+    end: jest.Mock;
+  };
+
+  const host = {
+    switchToHttp: () => ({
+      getRequest: () => ({
+        method: 'POST',
+        originalUrl: '/receipt/extract-receipt-details',
+        request_id: 'req-1',
+      }),
+      getResponse: () => response,
+    }),
+  } as unknown as ArgumentsHost;
+
+  const render = (exception: unknown) => {
+    filter.catch(exception, host);
+    return {
+      status: response.status.mock.calls[0]?.[0],
+      body: response.json.mock.calls[0]?.[0],
+    };
+  };
+
+  beforeEach(() => {
+    filter = new AppExceptionFilter();
+    response = {
+      headersSent: false,
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+      end: jest.fn(),
+    };
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('renders catalog errors with their code, details and request ID', () => {
+    const attempts = [{ attempt: 1, raw_output: 'not json' }];
+
+    expect(
+      render(
+        new AppException('EXTRACTION_INVALID_JSON', undefined, { attempts }),
+      ),
+    ).toEqual({
+      status: 502,
+      body: {
+        error: {
+          code: 'EXTRACTION_INVALID_JSON',
+          message: 'AI model returned invalid response format',
+          status_code: 502,
+          details: { attempts },
+          request_id: 'req-1',
+        },
+      },
+    });
+    expect(Logger.prototype.error).toHaveBeenCalled();
+  });
+
+  it('gives plain Nest exceptions the code for their status', () => {
+    expect(render(new NotFoundException("Receipt 'x' not found"))).toEqual({
+      status: 404,
+      body: {
+        error: {
+          code: 'NOT_FOUND',
+          message: "Receipt 'x' not found",
+          status_code: 404,
+          request_id: 'req-1',
+        },
+      },
+    });
+  });
+
+  it('maps upload size limits to FILE_TOO_LARGE', () => {
+    expect(
+      render(new PayloadTooLargeException('File too large')).body.error.code,
+    ).toBe('FILE_TOO_LARGE');
+  });
+
+  it('lists validation messages as details', () => {
+    const { body } = render(
+      new BadRequestException(['currency must be longer than or equal to 3']),
+    );
+
+    expect(body.error).toMatchObject({
+      code: 'BAD_REQUEST',
+      message: 'Request validation failed',
+      details: ['currency must be longer than or equal to 3'],
+    });
+  });
+
+  it('hides the message of unexpected errors', () => {
+    const { status, body } = render(new Error('ENOENT: /srv/data/x.json'));
+
+    expect(status).toBe(500);
+    expect(body.error).toEqual({
+      code: 'INTERNAL_ERROR',
+      message: 'An unexpected error occurred',
+      status_code: 500,
+      request_id: 'req-1',
+    });
+  });
+
+  it('ends responses that already started streaming', () => {
+    response.headersSent = true;
+
+    render(new Error('stream failed'));
+
+    expect(response.end).toHaveBeenCalled();
+    expect(response.json).not.toHaveBeenCalled();
+  });
+});
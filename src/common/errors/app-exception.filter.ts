@@ -0,0 +1,48 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { ErrorBody, toErrorBody } from './app-exception';
+import { RequestWithId } from '../request-id.middleware';
+
+export interface ErrorEnvelope {
+  error: ErrorBody & { request_id: string };
+}
+
+/**
+ * Renders every failure as `{ "error": { code, message, status_code,
+ * request_id, details? } }`. Server-side failures are logged with the request
+ * ID so a client report can be traced.
+ */
+@Catch()
+export class AppExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(AppExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const http = host.switchToHttp();
+    const request = http.getRequest<RequestWithId>();
+    const response = http.getResponse<Response>();
+    const body = toErrorBody(exception);
+
+    if (body.status_code >= HttpStatus.INTERNAL_SERVER_ERROR) {
+      this.logger.error(
+        `${request.method} ${request.originalUrl} failed with ${body.code} [${request.request_id}]`,
+        exception instanceof Error ? exception.stack : String(exception),
+      );
+    }
+
+    // Streams (exports, files) may already be sending; just end them
+    if (response.headersSent) {
+      response.end();
+      return;
+    }
+    const envelope: ErrorEnvelope = {
+      error: { ...body, request_id: request.request_id },
+    };
+    response.status(body.status_code).json(envelope);
+  }
+}
@@ -0,0 +1,65 @@
+import { HttpException } from '@nestjs/common';
+import { ERROR_CATALOG, ErrorCode, errorCodeForStatus } from './error-catalog';
+
+export interface ErrorBody {
+  code: ErrorCode;
+  message: string;
+  status_code: number;
+  // Field errors, extraction attempts or other context for the failure
+  details?: unknown;
+}
+
+/**
+ * An HttpException with a catalog code. Throw this where the failure has a
+ * specific meaning for clients; plain Nest exceptions still work and get the
+ * generic code for their status.
+ */
+export class AppException extends HttpException {
+  constructor(
+    readonly code: ErrorCode,
+    message: string = ERROR_CATALOG[code].message,
+    readonly details?: unknown,
+  ) {
+    super(message, ERROR_CATALOG[code].status);
+  }
+}
+
+/**
+ * Describes any thrown value the way the API reports it. Messages of
+ * unexpected errors are not exposed, as they may contain internals.
+ */
+export function toErrorBody(error: unknown): ErrorBody {
+  if (error instanceof AppException) {
+    return {
+      code: error.code,
+      message: error.message,
+      status_code: error.getStatus(),
+      details: error.details,
+    };
+  }
+  if (error instanceof HttpException) {
+    const status = error.getStatus();
+    const response = error.getResponse();
+    const message =
+      typeof response === 'object' ? (response as any).message : response;
+    // ValidationPipe and the file parsers report a list of problems
+    if (Array.isArray(message)) {
+      return {
+        code: errorCodeForStatus(status),
+        message: 'Request validation failed',
+        status_code: status,
+        details: message,
+      };
+    }
+    return {
+      code: errorCodeForStatus(status),
+      message: message ?? error.message,
+      status_code: status,
+    };
+  }
+  return {
+    code: 'INTERNAL_ERROR',
+    message: ERROR_CATALOG.INTERNAL_ERROR.message,
+    status_code: ERROR_CATALOG.INTERNAL_ERROR.status,
+  };
+}
@@ -0,0 +1,91 @@
+import { HttpStatus } from '@nestjs/common';
+
+/**
+ * Every error the API returns carries one of these codes, so clients can
+ * branch on `error.code` instead of parsing messages. Each code has a fixed
+ * HTTP status and a default message.
+ */
+export const ERROR_CATALOG = {
+  BAD_REQUEST: {
+    status: HttpStatus.BAD_REQUEST,
+    message: 'The request is invalid',
+  },
+  UNAUTHORIZED: {
+    status: HttpStatus.UNAUTHORIZED,
+    message: 'Authentication is required',
+  },
+  FORBIDDEN: {
+    status: HttpStatus.FORBIDDEN,
+    message: 'Access to this resource is not allowed',
+  },
+  NOT_FOUND: {
+    status: HttpStatus.NOT_FOUND,
+    message: 'The requested resource was not found',
+  },
+  CONFLICT: {
+    status: HttpStatus.CONFLICT,
+    message: 'The request conflicts with the current state',
+  },
+  FILE_TOO_LARGE: {
+    status: HttpStatus.PAYLOAD_TOO_LARGE,
+    message: 'File exceeds the 10MB limit',
+  },
+  UNSUPPORTED_MEDIA: {
+    status: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+    message: 'The file type is not supported',
+  },
+  // The extraction provider throttled us; retrying later usually works
+  PROVIDER_RATE_LIMITED: {
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    message: 'The extraction provider is rate limiting requests',
+  },
+  PROVIDER_TIMEOUT: {
+    status: HttpStatus.GATEWAY_TIMEOUT,
+    message: 'The extraction provider did not respond in time',
+  },
+  PROVIDER_ERROR: {
+    status: HttpStatus.BAD_GATEWAY,
+    message: 'The extraction provider request failed',
+  },
+  EXTRACTION_INVALID_JSON: {
+    status: HttpStatus.BAD_GATEWAY,
+    message: 'AI model returned invalid response format',
+  },
+  EXTRACTION_VALIDATION_FAILED: {
+    status: HttpStatus.BAD_GATEWAY,
+    message: 'AI model returned incomplete or invalid data',
+  },
+  // Too many async jobs are waiting; retrying later usually works
+  EXTRACTION_QUEUE_FULL: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    message: 'Too many extraction jobs are queued',
+  },
+  STORAGE_FAILURE: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    message: 'Receipt file storage is unavailable',
+  },
+  INTERNAL_ERROR: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    message: 'An unexpected error occurred',
+  },
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CATALOG;
+
+// Codes for exceptions thrown without one, e.g. Nest's NotFoundException
+const CODES_BY_STATUS = new Map<number, ErrorCode>([
+  [HttpStatus.BAD_REQUEST, 'BAD_REQUEST'],
+  [HttpStatus.UNAUTHORIZED, 'UNAUTHORIZED'],
+  [HttpStatus.FORBIDDEN, 'FORBIDDEN'],
+  [HttpStatus.NOT_FOUND, 'NOT_FOUND'],
+  [HttpStatus.CONFLICT, 'CONFLICT'],
+  [HttpStatus.PAYLOAD_TOO_LARGE, 'FILE_TOO_LARGE'],
+  [HttpStatus.UNSUPPORTED_MEDIA_TYPE, 'UNSUPPORTED_MEDIA'],
+]);
+
+export function errorCodeForStatus(status: number): ErrorCode {
+  return (
+    CODES_BY_STATUS.get(status) ??
+    (status < 500 ? 'BAD_REQUEST' : 'INTERNAL_ERROR')
+  );
+}
@@ -0,0 +1,9 @@
+import * as path from 'path';
+
+// Root directory for the embedded JSON stores
+export function resolveDataPath(fileName: string): string {
+  return path.join(
+    process.env.DATA_DIR || path.join(process.cwd(), 'data'),
+    fileName,
+  );
+}
@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export interface JsonStoreMigration {
+  version: number;
+  description: string;
+  up(data: any): any;
+}
+
+interface JsonStoreDocument<T> {
+  schema_version: number;
+  data: T;
+}
+
+/**
+ * Durable JSON document on local disk. The whole document is held in memory,
+ * writes are serialized and replace the file atomically, and pending
+ * migrations are applied the first time the file is read.
+ */
+export class JsonFileStore<T> {
+  private state: T | undefined;
+  private loading: Promise<T> | undefined;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly createInitial: () => T,
+    private readonly migrations: JsonStoreMigration[] = [],
+  ) {}
+
+  get schemaVersion(): number {
+    return this.migrations.reduce((max, m) => Math.max(max, m.version), 0);
+  }
+
+  async read(): Promise<T> {
+    if (this.state) {
+      return this.state;
+    }
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  async update<R>(mutator: (state: T) => R | Promise<R>): Promise<R> {
+    const run = this.writeQueue.then(async () => {
+      const state = await this.read();
+      const result = await mutator(state);
+      await this.persist(state);
+      return result;
+    });
+    // Keep the queue alive even if this write fails
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<T> {
+    let document: JsonStoreDocument<any>;
+    try {
+      document = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      this.state = this.createInitial();
+      await this.persist(this.state);
+      return this.state;
+    }
+
+    let data = document.data;
+    const pending = this.migrations
+      .filter((m) => m.version > (document.schema_version ?? 0))
+      .sort((a, b) => a.version - b.version);
+    for (const migration of pending) {
+      data = migration.up(data);
+    }
+
+    this.state = data;
+    if (pending.length > 0) {
+      await this.persist(this.state);
+    }
+    return this.state;
+  }
+
+  private async persist(state: T): Promise<void> {
+    const document: JsonStoreDocument<T> = {
+      schema_version: this.schemaVersion,
+      data: state,
+    };
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(document, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
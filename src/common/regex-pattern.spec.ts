@@ -0,0 +1,27 @@
+import { regexPatternProblem } from './regex-pattern';
+
+describe('regexPatternProblem', () => {
+  it.each([
+    'starbucks|tim hortons',
+    '^uber.*eats',
+    '\\bcafe\\b',
+    '\\d{1,2}/\\d{1,2}/\\d{2,4}',
+    '[(+*]+',
+    '(?:coffee|tea)s?',
+    '(\\d+ )?items?',
+  ])('should accept %s', (pattern) => {
+    expect(regexPatternProblem(pattern)).toBeUndefined();
+  });
+
+  it.each([
+    ['(', 'is not a valid regular expression'],
+    ['(a+)+$', 'repeats a group'],
+    ['(a|a)*b', 'repeats a group'],
+    ['(?:x\\d*?){2,}', 'repeats a group'],
+    ['((ab)*c)+', 'repeats a group'],
+    ['(a)\\1', 'uses a backreference'],
+    ['.*a.*b.*c.*d', 'has more than 3 repetitions'],
+  ])('should reject %s', (pattern, problem) => {
+    expect(regexPatternProblem(pattern)).toContain(problem);
+  });
+});
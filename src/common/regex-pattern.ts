@@ -0,0 +1,86 @@
+// Each unbounded repetition multiplies the ways a failing match backtracks
+const MAX_REPETITIONS = 3;
+
+interface Group {
+  // Holds a quantifier or `|`, so repeating it can backtrack exponentially
+  ambiguous: boolean;
+}
+
+/**
+ * Explains why a tenant-supplied pattern must not be compiled, or returns
+ * undefined when it is safe to run on every receipt. Besides rejecting
+ * invalid syntax, this refuses what makes backtracking blow up: repeated
+ * groups that contain quantifiers or alternatives (e.g. `(a+)+$`),
+ * backreferences and more than a few unbounded repetitions.
+ */
+export function regexPatternProblem(pattern: string): string | undefined {
+  try {
+    new RegExp(pattern, 'i');
+  } catch {
+    return 'is not a valid regular expression';
+  }
+
+  const groups: Group[] = [{ ambiguous: false }];
+  let repetitions = 0;
+  // Whether the atom a following quantifier applies to is an ambiguous group
+  let previousAmbiguous = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const group = groups[groups.length - 1];
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+        return 'uses a backreference';
+      }
+      i++;
+      previousAmbiguous = false;
+    } else if (char === '[') {
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') {
+          i++;
+        }
+      }
+      previousAmbiguous = false;
+    } else if (char === '(') {
+      groups.push({ ambiguous: false });
+      // Skips the `?:`, `?=`, `?<name>` and similar group prefixes
+      if (pattern[i + 1] === '?') {
+        const prefix = /^\?(<[=!]|<[^>]*>|[:=!])/.exec(pattern.slice(i + 1));
+        i += prefix?.[0].length ?? 0;
+      }
+    } else if (char === ')') {
+      groups.pop();
+      previousAmbiguous = group.ambiguous;
+      groups[groups.length - 1].ambiguous ||= group.ambiguous;
+    } else if (char === '|') {
+      group.ambiguous = true;
+    } else {
+      const quantifier = /^(?:[*+?]|\{(\d+)(,(\d*))?\})/.exec(pattern.slice(i));
+      if (!quantifier) {
+        previousAmbiguous = false;
+        continue;
+      }
+      i += quantifier[0].length - 1;
+      // A lazy quantifier backtracks the same way
+      if (pattern[i + 1] === '?') {
+        i++;
+      }
+
+      const [symbol, min, range, max] = quantifier;
+      if (symbol !== '?' && previousAmbiguous) {
+        return 'repeats a group containing quantifiers or alternatives, which can take exponential time to match';
+      }
+      const unbounded =
+        symbol === '*' ||
+        symbol === '+' ||
+        (range !== undefined && max !== min);
+      if (unbounded && ++repetitions > MAX_REPETITIONS) {
+        return `has more than ${MAX_REPETITIONS} repetitions`;
+      }
+      group.ambiguous = true;
+      previousAmbiguous = false;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,27 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+export interface RequestWithId extends Request {
+  request_id?: string;
+}
+
+// Caller-supplied IDs are reused so logs line up across services
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives every request a correlation ID, echoed in the X-Request-Id response
+ * header and in error bodies.
+ */
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+  use(req: RequestWithId, res: Response, next: NextFunction): void {
+    const incoming = req.header(REQUEST_ID_HEADER);
+    req.request_id =
+      incoming && VALID_REQUEST_ID.test(incoming) ? incoming : uuidv4();
+    res.setHeader(REQUEST_ID_HEADER, req.request_id);
+    next();
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  ObjectSchema,
+  omitKeywords,
+  salvageBySchema,
+  stripUndeclared,
+  validateSchema,
+} from './json-schema';
+
+const schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    code: {
+      type: 'string',
+      minLength: 3,
+      maxLength: 3,
+      errorMessage: 'must be a 3-character code',
+    },
+    count: { type: 'integer', nullable: true },
+    lines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string' },
+          amount: { type: 'number' },
+          note: { type: 'string', nullable: true, pattern: '^[a-z]+$' },
+        },
+        required: ['label', 'amount'],
+      },
+    },
+  },
+  required: ['name', 'code', 'lines'],
+} as const satisfies ObjectSchema;
+
+describe('validateSchema', () => {
+  it('accepts valid values with null or absent optional fields', () => {
+    expect(
+      validateSchema(schema, {
+        name: 'Cafe',
+        code: 'USD',
+        count: null,
+        lines: [{ label: 'GST', amount: 1.5, extra: true }],
+      }),
+    ).toEqual([]);
+  });
+
+  it('reports every problem with the path of its field', () => {
+    expect(
+      validateSchema(schema, {
+        code: 'DOLLARS',
+        count: 1.5,
+        lines: [
+          { label: 'GST', amount: '1.50' },
+          { amount: 2, note: 'A1' },
+        ],
+      }),
+    ).toEqual([
+      'name must be a string',
+      'code must be a 3-character code',
+      'count must be an integer',
+      'lines[0].amount must be a number',
+      'lines[1].label must be a string',
+      'lines[1].note must match ^[a-z]+$',
+    ]);
+    expect(validateSchema(schema, [])).toEqual(['value must be an object']);
+  });
+});
+
+describe('salvageBySchema', () => {
+  it('keeps valid parts, drops invalid entries and fills required fields', () => {
+    expect(
+      salvageBySchema(
+        schema,
+        {
+          code: 'DOLLARS',
+          count: 'many',
+          lines: [{ label: 'GST', amount: 1.5, note: 'A1' }, { label: 'PST' }],
+        },
+        true,
+      ),
+    ).toEqual({
+      name: '',
+      code: '',
+      lines: [{ label: 'GST', amount: 1.5 }],
+    });
+  });
+
+  it('drops objects missing required fields unless told to fill them', () => {
+    expect(salvageBySchema(schema, { lines: [] })).toBeUndefined();
+    expect(salvageBySchema(schema, 'text', true)).toBeUndefined();
+  });
+});
+
+describe('stripUndeclared', () => {
+  it('drops undeclared properties at every level and keeps the rest', () => {
+    expect(
+      stripUndeclared(schema, {
+        name: 'Cafe',
+        count: 'many',
+        extra: true,
+        lines: [{ label: 'GST', amount: 1.5, extra: 1 }, 'text'],
+      }),
+    ).toEqual({
+      name: 'Cafe',
+      count: 'many',
+      lines: [{ label: 'GST', amount: 1.5 }, 'text'],
+    });
+  });
+});
+
+describe('omitKeywords', () => {
+  it('removes keywords at every level without changing the original', () => {
+    const stripped = omitKeywords(schema, ['pattern', 'errorMessage']);
+
+    expect(stripped).toMatchObject({
+      properties: {
+        code: { type: 'string', minLength: 3 },
+        lines: { items: { properties: { note: { nullable: true } } } },
+      },
+    });
+    expect(JSON.stringify(stripped)).not.toMatch(/pattern|errorMessage/);
+    expect(schema.properties.code.errorMessage).toBeDefined();
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * The OpenAPI 3.0 flavour of JSON Schema (`nullable` instead of type lists),
+ * which is also the dialect Gemini accepts as a response schema. Declare
+ * schemas `as const` so `FromSchema` can derive their TypeScript type.
+ */
+interface BaseSchema {
+  description?: string;
+  nullable?: boolean;
+  // Message for constraint failures, as in ajv-errors; not sent to providers
+  errorMessage?: string;
+}
+
+export interface StringSchema extends BaseSchema {
+  type: 'string';
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+}
+
+export interface NumberSchema extends BaseSchema {
+  type: 'number' | 'integer';
+}
+
+export interface BooleanSchema extends BaseSchema {
+  type: 'boolean';
+}
+
+export interface ArraySchema extends BaseSchema {
+  type: 'array';
+  items: SchemaObject;
+}
+
+export interface ObjectSchema extends BaseSchema {
+  type: 'object';
+  properties: Readonly<Record<string, SchemaObject>>;
+  required?: readonly string[];
+}
+
+export type SchemaObject =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | ArraySchema
+  | ObjectSchema;
+
+type Nullable<S, T> = S extends { nullable: true } ? T | null : T;
+
+type RequiredKeys<S> = S extends { required: readonly (infer K)[] } ? K : never;
+
+type ObjectFromSchema<P, R> = {
+  -readonly [K in keyof P as K extends R ? K : never]: FromSchema<P[K]>;
+} & {
+  -readonly [K in keyof P as K extends R ? never : K]?: FromSchema<P[K]>;
+} extends infer T
+  ? { [K in keyof T]: T[K] }
+  : never;
+
+// TypeScript type of the values a schema accepts
+export type FromSchema<S> = S extends { type: 'string' }
+  ? Nullable<S, string>
+  : S extends { type: 'number' | 'integer' }
+    ? Nullable<S, number>
+    : S extends { type: 'boolean' }
+      ? Nullable<S, boolean>
+      : S extends { type: 'array'; items: infer I }
+        ? Nullable<S, FromSchema<I>[]>
+        : S extends { type: 'object'; properties: infer P }
+          ? Nullable<S, ObjectFromSchema<P, RequiredKeys<S>>>
+          : unknown;
+
+// The same type with null removed, for stored data that omits empty fields
+export type WithoutNulls<T> = T extends (infer E)[]
+  ? WithoutNulls<E>[]
+  : T extends object
+    ? { [K in keyof T]: WithoutNulls<Exclude<T[K], null>> }
+    : T;
+
+const TYPE_NAMES: Record<SchemaObject['type'], string> = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  boolean: 'a boolean',
+  array: 'an array',
+  object: 'an object',
+};
+
+function hasType(schema: SchemaObject, value: unknown): boolean {
+  switch (schema.type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === schema.type;
+  }
+}
+
+function constraintError(schema: StringSchema, value: string): string | null {
+  const broken =
+    (schema.minLength !== undefined && value.length < schema.minLength) ||
+    (schema.maxLength !== undefined && value.length > schema.maxLength) ||
+    (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value));
+  if (!broken) {
+    return null;
+  }
+  return schema.errorMessage ?? `must match ${schema.pattern ?? 'its length'}`;
+}
+
+/**
+ * Checks a value against a schema and returns one message per problem, each
+ * starting with the path of the offending field, e.g.
+ * "receipt_items[2].item_cost must be a number". Missing required fields are
+ * reported as having the wrong type; properties the schema does not declare
+ * are ignored.
+ */
+export function validateSchema(
+  schema: SchemaObject,
+  value: unknown,
+  path = '',
+): string[] {
+  if (value === null && schema.nullable) {
+    return [];
+  }
+  if (!hasType(schema, value)) {
+    return [`${path || 'value'} must be ${TYPE_NAMES[schema.type]}`];
+  }
+  switch (schema.type) {
+    case 'string': {
+      const error = constraintError(schema, value as string);
+      return error ? [`${path} ${error}`] : [];
+    }
+    case 'array':
+      return (value as unknown[]).flatMap((entry, index) =>
+        validateSchema(schema.items, entry, `${path}[${index}]`),
+      );
+    case 'object':
+      return Object.entries(schema.properties).flatMap(([key, property]) => {
+        const entry = (value as Record<string, unknown>)[key];
+        const optional = !schema.required?.includes(key);
+        if (optional && entry === undefined) {
+          return [];
+        }
+        return validateSchema(property, entry, path ? `${path}.${key}` : key);
+      });
+    default:
+      return [];
+  }
+}
+
+/**
+ * Copies a value without the object properties its schema does not declare,
+ * at every level. Values of the wrong type are returned as they are, for
+ * validateSchema to report.
+ */
+export function stripUndeclared(schema: SchemaObject, value: unknown): unknown {
+  if (schema.type === 'array' && Array.isArray(value)) {
+    return value.map((entry) => stripUndeclared(schema.items, entry));
+  }
+  if (schema.type === 'object' && hasType(schema, value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, property] of Object.entries(schema.properties)) {
+      const entry = (value as Record<string, unknown>)[key];
+      if (entry !== undefined) {
+        result[key] = stripUndeclared(property, entry);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+function fallbackFor(schema: SchemaObject): unknown {
+  switch (schema.type) {
+    case 'string':
+      return '';
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'array':
+      return [];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Keeps the parts of an object that do satisfy its schema: invalid optional
+ * fields are dropped, invalid array entries are filtered out and, where
+ * `fillRequired` is set, invalid required fields get an empty value ('', 0
+ * or []). Nested objects missing a required field are dropped as a whole.
+ * Returns undefined when nothing can be kept.
+ */
+export function salvageBySchema(
+  schema: SchemaObject,
+  value: unknown,
+  fillRequired = false,
+): unknown {
+  if (value === null && schema.nullable) {
+    return null;
+  }
+  if (!hasType(schema, value)) {
+    return undefined;
+  }
+  switch (schema.type) {
+    case 'string':
+      return constraintError(schema, value as string) ? undefined : value;
+    case 'array':
+      return (value as unknown[])
+        .map((entry) => salvageBySchema(schema.items, entry))
+        .filter((entry) => entry !== undefined);
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties)) {
+        const entry = salvageBySchema(
+          property,
+          (value as Record<string, unknown>)[key],
+        );
+        if (entry !== undefined) {
+          result[key] = entry;
+        } else if (schema.required?.includes(key)) {
+          if (!fillRequired) {
+            return undefined;
+          }
+          result[key] = fallbackFor(property);
+        }
+      }
+      return result;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Copies a schema without the given keywords, for consumers that reject
+ * keywords they do not know.
+ */
+export function omitKeywords(
+  schema: SchemaObject,
+  keywords: readonly string[],
+): SchemaObject {
+  const copy: Record<string, unknown> = Object.fromEntries(
+    Object.entries(schema).filter(([key]) => !keywords.includes(key)),
+  );
+  if (schema.type === 'array') {
+    copy.items = omitKeywords(schema.items, keywords);
+  }
+  if (schema.type === 'object') {
+    copy.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [
+        key,
+        omitKeywords(property, keywords),
+      ]),
+    );
+  }
+  return copy as unknown as SchemaObject;
+}
@@ -0,0 +1,49 @@
+import { Transform } from 'class-transformer';
+import { ValidateBy } from 'class-validator';
+import {
+  FromSchema,
+  ObjectSchema,
+  WithoutNulls,
+  omitKeywords,
+  stripUndeclared,
+  validateSchema,
+} from './json-schema';
+
+/**
+ * Base class for a request body whose rules come from a schema instead of
+ * hand-written class-validator decorators. Every property the schema
+ * declares gets one validator that runs validateSchema on it, and
+ * undeclared properties are stripped at every level, as the whitelist does
+ * for nested DTOs. Absent optional properties are fine, but null never is,
+ * even where the schema is nullable: stored data omits empty fields rather
+ * than holding null.
+ *
+ * ```ts
+ * export class UpdateThingDto extends SchemaDto(THING_SCHEMA) {}
+ * ```
+ */
+export function SchemaDto<S extends ObjectSchema>(
+  schema: S,
+): new () => WithoutNulls<FromSchema<S>> {
+  const strict = omitKeywords(schema, ['nullable']) as ObjectSchema;
+
+  class SchemaBackedDto {}
+  for (const [key, property] of Object.entries(strict.properties)) {
+    const optional = !strict.required?.includes(key);
+    Transform(({ value }) => stripUndeclared(property, value))(
+      SchemaBackedDto.prototype,
+      key,
+    );
+    ValidateBy({
+      name: 'matchesSchema',
+      validator: {
+        validate: (value) =>
+          (optional && value === undefined) ||
+          validateSchema(property, value).length === 0,
+        defaultMessage: ({ value }) =>
+          validateSchema(property, value, key).join('; '),
+      },
+    })(SchemaBackedDto.prototype, key);
+  }
+  return SchemaBackedDto as new () => WithoutNulls<FromSchema<S>>;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ExchangeRateController } from './exchange-rate.controller';
+import { exchangeRateService } from './exchange-rate-service.factory';
+import { ExchangeRateService } from './exchange-rate.service';
+
+@Module({
+  controllers: [ExchangeRateController],
+  providers: [exchangeRateService],
+  exports: [ExchangeRateService],
+})
+export class CurrencyModule {}
@@ -0,0 +1,16 @@
+import { IsOptional, Length, Matches } from 'class-validator';
+
+export class ExchangeRateQueryDto {
+  @Length(3, 3)
+  from: string;
+
+  // Defaults to BASE_CURRENCY
+  @IsOptional()
+  @Length(3, 3)
+  to?: string;
+
+  // Defaults to today
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'date must be YYYY-MM-DD' })
+  date?: string;
+}
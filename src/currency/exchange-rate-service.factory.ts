@@ -0,0 +1,30 @@
+import { FactoryProvider } from '@nestjs/common';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import { resolveDataPath } from '../common/persistence/data-dir';
+import { ISO_4217_CURRENCY_CODES } from './iso-4217';
+import {
+  ExchangeRateService,
+  ExchangeRateState,
+} from './exchange-rate.service';
+
+export function createExchangeRateService(
+  env: NodeJS.ProcessEnv = process.env,
+): ExchangeRateService {
+  const baseCurrency = (env.BASE_CURRENCY || 'USD').toUpperCase();
+  if (!ISO_4217_CURRENCY_CODES.has(baseCurrency)) {
+    throw new Error(`Unknown BASE_CURRENCY '${env.BASE_CURRENCY}'`);
+  }
+
+  return new ExchangeRateService(
+    new JsonFileStore<ExchangeRateState>(
+      resolveDataPath('exchange-rates.json'),
+      () => ({ rates: [] }),
+    ),
+    baseCurrency,
+  );
+}
+
+export const exchangeRateService: FactoryProvider<ExchangeRateService> = {
+  provide: ExchangeRateService,
+  useFactory: () => createExchangeRateService(),
+};
@@ -0,0 +1,59 @@
+import { BadRequestException } from '@nestjs/common';
+import { parseExchangeRates } from './exchange-rate-table';
+
+describe('parseExchangeRates', () => {
+  it('reads CSV with columns in any order', () => {
+    const csv = 'rate,date,from,to\r\n0.75,2024-01-01,cad,usd\r\n\r\n';
+
+    expect(parseExchangeRates(csv, 'csv')).toEqual([
+      { date: '2024-01-01', from: 'CAD', to: 'USD', rate: 0.75 },
+    ]);
+  });
+
+  it('reads a JSON array', () => {
+    const json = JSON.stringify([
+      { date: '2024-01-01', from: 'EUR', to: 'USD', rate: 1.1 },
+    ]);
+
+    expect(parseExchangeRates(json, 'json')).toEqual([
+      { date: '2024-01-01', from: 'EUR', to: 'USD', rate: 1.1 },
+    ]);
+  });
+
+  it('reads quoted CSV cells that contain commas', () => {
+    const csv = [
+      'source,date,from,to,rate',
+      '"ECB, daily reference",2024-01-01,EUR,USD,"1.10"',
+    ].join('\n');
+
+    expect(parseExchangeRates(csv, 'csv')).toEqual([
+      { date: '2024-01-01', from: 'EUR', to: 'USD', rate: 1.1 },
+    ]);
+  });
+
+  it('reports every invalid row', () => {
+    const csv = [
+      'date,from,to,rate',
+      '2024-13-01,CAD,USD,0.75',
+      '2024-01-01,XXX,USD,-1',
+    ].join('\n');
+
+    try {
+      parseExchangeRates(csv, 'csv');
+      fail('expected a BadRequestException');
+    } catch (error) {
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(error.getResponse().message).toEqual([
+        'line 2: date must be YYYY-MM-DD',
+        'line 3: from must be an ISO 4217 currency code',
+        'line 3: rate must be a positive number',
+      ]);
+    }
+  });
+
+  it('rejects CSV without the required header', () => {
+    expect(() => parseExchangeRates('CAD,USD,0.75', 'csv')).toThrow(
+      'CSV header must include columns: date, from, to, rate',
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { BadRequestException } from '@nestjs/common';
+import { ExchangeRate } from './interfaces/exchange-rate.interface';
+import { ISO_4217_CURRENCY_CODES } from './iso-4217';
+import { readCsv } from '../common/csv-reader';
+
+export type ExchangeRateFileFormat = 'csv' | 'json';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CSV_COLUMNS = ['date', 'from', 'to', 'rate'];
+
+/**
+ * Parses an uploaded rate table. CSV files need a header naming the `date`,
+ * `from`, `to` and `rate` columns (in any order); JSON files hold an array of
+ * objects with the same keys. Every problem is reported at once so a bad file
+ * can be fixed in one pass.
+ */
+export function parseExchangeRates(
+  content: string,
+  format: ExchangeRateFileFormat,
+): ExchangeRate[] {
+  const rows =
+    format === 'csv' ? readCsvRows(content) : readJsonRows(content.trim());
+
+  const errors: string[] = [];
+  const rates = rows.map(({ label, row }) => {
+    const rate: ExchangeRate = {
+      date: String(row.date ?? '').trim(),
+      from: String(row.from ?? '')
+        .trim()
+        .toUpperCase(),
+      to: String(row.to ?? '')
+        .trim()
+        .toUpperCase(),
+      rate: Number(row.rate),
+    };
+    const rowErrors = collectRateErrors(rate);
+    errors.push(...rowErrors.map((error) => `${label}: ${error}`));
+    return rate;
+  });
+
+  if (rates.length === 0) {
+    errors.push('File contains no exchange rates');
+  }
+  if (errors.length > 0) {
+    throw new BadRequestException(errors);
+  }
+  return rates;
+}
+
+function collectRateErrors(rate: ExchangeRate): string[] {
+  const errors: string[] = [];
+  if (
+    !ISO_DATE.test(rate.date) ||
+    isNaN(Date.parse(`${rate.date}T00:00:00Z`))
+  ) {
+    errors.push('date must be YYYY-MM-DD');
+  }
+  for (const field of ['from', 'to'] as const) {
+    if (!ISO_4217_CURRENCY_CODES.has(rate[field])) {
+      errors.push(`${field} must be an ISO 4217 currency code`);
+    }
+  }
+  if (rate.from === rate.to) {
+    errors.push('from and to must differ');
+  }
+  if (!Number.isFinite(rate.rate) || rate.rate <= 0) {
+    errors.push('rate must be a positive number');
+  }
+  return errors;
+}
+
+interface RawRow {
+  label: string;
+  row: Record<string, unknown>;
+}
+
+function readCsvRows(content: string): RawRow[] {
+  const [header = [], ...cells] = readCsv(content);
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const missing = CSV_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new BadRequestException(
+      `CSV header must include columns: ${CSV_COLUMNS.join(', ')}`,
+    );
+  }
+
+  return cells.map((values, index) => {
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, i) => (row[column] = values[i]));
+    return { label: `line ${index + 2}`, row };
+  });
+}
+
+function readJsonRows(content: string): RawRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new BadRequestException('Exchange rate file is not valid JSON');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new BadRequestException(
+      'Exchange rate JSON must be an array of { date, from, to, rate }',
+    );
+  }
+  return parsed.map((row, index) => ({
+    label: `entry ${index}`,
+    row: row && typeof row === 'object' ? row : {},
+  }));
+}
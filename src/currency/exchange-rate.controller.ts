@@ -0,0 +1,77 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Post,
+  Query,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import * as path from 'path';
+import { ExchangeRateService } from './exchange-rate.service';
+import { parseExchangeRates } from './exchange-rate-table';
+import { ExchangeRateQueryDto } from './dto/exchange-rate-query.dto';
+import {
+  ExchangeRateImportResult,
+  ResolvedExchangeRate,
+} from './interfaces/exchange-rate.interface';
+import { AppException } from '../common/errors/app-exception';
+import { AdminOnly } from '../auth/decorators/auth.decorators';
+
+@Controller('exchange-rates')
+export class ExchangeRateController {
+  constructor(private readonly exchangeRateService: ExchangeRateService) {}
+
+  // Imports a CSV or JSON rate table; the format follows the file extension.
+  // Rates convert every tenant's receipts, so only admins may change them
+  @Post('import')
+  @AdminOnly()
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB limit
+      },
+    }),
+  )
+  async importRates(
+    @UploadedFile() file: Express.Multer.File,
+  ): Promise<ExchangeRateImportResult> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (extension !== '.csv' && extension !== '.json') {
+      throw new AppException(
+        'UNSUPPORTED_MEDIA',
+        'Only .csv and .json rate files are allowed',
+      );
+    }
+
+    const rates = parseExchangeRates(
+      file.buffer.toString('utf8'),
+      extension === '.csv' ? 'csv' : 'json',
+    );
+    return this.exchangeRateService.importRates(rates);
+  }
+
+  @Get()
+  async getRate(
+    @Query() query: ExchangeRateQueryDto,
+  ): Promise<ResolvedExchangeRate> {
+    const to = query.to ?? this.exchangeRateService.baseCurrency;
+    const date = query.date ?? new Date().toISOString().slice(0, 10);
+    const rate = await this.exchangeRateService.findRate(query.from, to, date);
+    if (!rate) {
+      throw new NotFoundException(
+        `No ${query.from.toUpperCase()}/${to.toUpperCase()} rate on or before ${date}`,
+      );
+    }
+    return rate;
+  }
+}
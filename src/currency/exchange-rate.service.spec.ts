@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import {
+  ExchangeRateService,
+  ExchangeRateState,
+} from './exchange-rate.service';
+
+describe('ExchangeRateService', () => {
+  let dataDir: string;
+  let service: ExchangeRateService;
+
+  const createService = () =>
+    new ExchangeRateService(
+      new JsonFileStore<ExchangeRateState>(
+        path.join(dataDir, 'exchange-rates.json'),
+        () => ({ rates: [] }),
+      ),
+      'USD',
+    );
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rates-'));
+    service = createService();
+    await service.importRates([
+      { date: '2024-01-01', from: 'CAD', to: 'USD', rate: 0.75 },
+      { date: '2024-02-01', from: 'CAD', to: 'USD', rate: 0.74 },
+      { date: '2024-01-15', from: 'USD', to: 'EUR', rate: 0.8 },
+    ]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('uses the nearest rate dated on or before the receipt date', async () => {
+    expect(await service.findRate('CAD', 'USD', '2024-01-31')).toEqual({
+      from: 'CAD',
+      to: 'USD',
+      rate: 0.75,
+      rate_date: '2024-01-01',
+    });
+    expect((await service.findRate('cad', 'usd', '2024-02-01')).rate).toBe(
+      0.74,
+    );
+    expect(await service.findRate('CAD', 'USD', '2023-12-31')).toBeUndefined();
+  });
+
+  it('falls back to the inverse pair', async () => {
+    expect(await service.findRate('EUR', 'USD', '2024-03-01')).toEqual({
+      from: 'EUR',
+      to: 'USD',
+      rate: 1.25,
+      rate_date: '2024-01-15',
+    });
+  });
+
+  it('converts receipt amounts into the base currency', async () => {
+    expect(
+      await service.toBaseAmounts({
+        date: '2024-01-20',
+        currency: 'CAD',
+        total: 20.05,
+        tax: 2.3,
+      }),
+    ).toEqual({
+      currency: 'USD',
+      rate: 0.75,
+      rate_date: '2024-01-01',
+      total: 15.04,
+      tax: 1.73,
+    });
+    expect(
+      (
+        await service.toBaseAmounts({
+          date: '2024-01-20',
+          currency: 'USD',
+          total: 10,
+          tax: 1,
+        })
+      ).rate,
+    ).toBe(1);
+    expect(
+      await service.toBaseAmounts({
+        date: '2024-01-20',
+        currency: 'JPY',
+        total: 1000,
+        tax: 100,
+      }),
+    ).toBeUndefined();
+  });
+
+  it('replaces rates for the same pair and date on re-import', async () => {
+    const result = await service.importRates([
+      { date: '2024-01-01', from: 'CAD', to: 'USD', rate: 0.76 },
+    ]);
+
+    expect(result).toEqual({ imported: 1, total_rates: 3 });
+    const reopened = createService();
+    expect((await reopened.findRate('CAD', 'USD', '2024-01-10')).rate).toBe(
+      0.76,
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import {
+  BaseCurrencyAmounts,
+  ConvertibleAmounts,
+  ExchangeRate,
+  ExchangeRateImportResult,
+  ResolvedExchangeRate,
+} from './interfaces/exchange-rate.interface';
+
+export interface ExchangeRateState {
+  rates: ExchangeRate[];
+}
+
+const round = (value: number, places = 2) =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+const pairKey = (from: string, to: string) => `${from}|${to}`;
+
+/**
+ * Converts receipt amounts using the locally imported historical rate table.
+ * A conversion uses the most recent rate dated on or before the receipt date,
+ * taken either directly or from the inverse pair.
+ */
+export class ExchangeRateService {
+  // Rates per currency pair, sorted by date; rebuilt after every import
+  private index: Map<string, ExchangeRate[]> | undefined;
+
+  constructor(
+    private readonly store: JsonFileStore<ExchangeRateState>,
+    readonly baseCurrency: string,
+  ) {}
+
+  // Adds rates to the table, replacing any existing rate for the same pair and date
+  async importRates(rates: ExchangeRate[]): Promise<ExchangeRateImportResult> {
+    const total = await this.store.update((state) => {
+      const byKey = new Map(
+        state.rates.map((rate) => [
+          `${pairKey(rate.from, rate.to)}|${rate.date}`,
+          rate,
+        ]),
+      );
+      for (const rate of rates) {
+        byKey.set(`${pairKey(rate.from, rate.to)}|${rate.date}`, rate);
+      }
+      state.rates = Array.from(byKey.values());
+      return state.rates.length;
+    });
+    this.index = undefined;
+    return { imported: rates.length, total_rates: total };
+  }
+
+  async findRate(
+    from: string,
+    to: string,
+    date: string,
+  ): Promise<ResolvedExchangeRate | undefined> {
+    from = from.toUpperCase();
+    to = to.toUpperCase();
+    if (from === to) {
+      return { from, to, rate: 1, rate_date: date };
+    }
+
+    const index = await this.getIndex();
+    const direct = latestOnOrBefore(index.get(pairKey(from, to)), date);
+    const inverse = latestOnOrBefore(index.get(pairKey(to, from)), date);
+
+    if (direct && (!inverse || direct.date >= inverse.date)) {
+      return { from, to, rate: direct.rate, rate_date: direct.date };
+    }
+    if (inverse) {
+      return {
+        from,
+        to,
+        rate: round(1 / inverse.rate, 8),
+        rate_date: inverse.date,
+      };
+    }
+    return undefined;
+  }
+
+  // Returns undefined when the table has no usable rate for the receipt date
+  async toBaseAmounts(
+    amounts: ConvertibleAmounts,
+  ): Promise<BaseCurrencyAmounts | undefined> {
+    if (!amounts.currency || !amounts.date) {
+      return undefined;
+    }
+    const rate = await this.findRate(
+      amounts.currency,
+      this.baseCurrency,
+      amounts.date,
+    );
+    if (!rate) {
+      return undefined;
+    }
+    return {
+      currency: this.baseCurrency,
+      rate: rate.rate,
+      rate_date: rate.rate_date,
+      total: round(amounts.total * rate.rate),
+      tax: round(amounts.tax * rate.rate),
+    };
+  }
+
+  private async getIndex(): Promise<Map<string, ExchangeRate[]>> {
+    if (!this.index) {
+      const index = new Map<string, ExchangeRate[]>();
+      for (const rate of (await this.store.read()).rates) {
+        const key = pairKey(rate.from, rate.to);
+        index.set(key, [...(index.get(key) ?? []), rate]);
+      }
+      for (const rates of index.values()) {
+        rates.sort((a, b) => a.date.localeCompare(b.date));
+      }
+      this.index = index;
+    }
+    return this.index;
+  }
+}
+
+function latestOnOrBefore(
+  rates: ExchangeRate[] | undefined,
+  date: string,
+): ExchangeRate | undefined {
+  let latest: ExchangeRate | undefined;
+  for (const rate of rates ?? []) {
+    if (rate.date > date) {
+      break;
+    }
+    latest = rate;
+  }
+  return latest;
+}
@@ -0,0 +1,37 @@
+// One row of the rate table: 1 unit of `from` is worth `rate` units of `to`
+export interface ExchangeRate {
+  date: string;
+  from: string;
+  to: string;
+  rate: number;
+}
+
+// A rate picked for a conversion; `rate_date` is the table date it came from
+export interface ResolvedExchangeRate {
+  from: string;
+  to: string;
+  rate: number;
+  rate_date: string;
+}
+
+export interface ExchangeRateImportResult {
+  imported: number;
+  total_rates: number;
+}
+
+// Amounts that can be converted into the base currency
+export interface ConvertibleAmounts {
+  date: string;
+  currency: string;
+  total: number;
+  tax: number;
+}
+
+// Receipt amounts restated in BASE_CURRENCY, with the rate that was used
+export interface BaseCurrencyAmounts {
+  currency: string;
+  rate: number;
+  rate_date: string;
+  total: number;
+  tax: number;
+}
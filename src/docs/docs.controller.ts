@@ -0,0 +1,14 @@
+import { Controller, Get } from '@nestjs/common';
+import { Public } from '../auth/decorators/auth.decorators';
+import { buildOpenApiDocument } from './openapi-document';
+
+@Controller()
+export class DocsController {
+  private readonly document = buildOpenApiDocument();
+
+  @Get('openapi.json')
+  @Public()
+  getOpenApiDocument(): Record<string, unknown> {
+    return this.document;
+  }
+}
@@ -0,0 +1,213 @@
+import { omitKeywords } from '../common/schema/json-schema';
+import {
+  RECEIPT_CORRECTION_SCHEMA,
+  RECEIPT_SCHEMA,
+} from '../receipt/extraction/receipt-schema';
+
+type OpenApiObject = Record<string, unknown>;
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (schema: OpenApiObject, description: string) => ({
+  description,
+  content: { 'application/json': { schema } },
+});
+
+const idParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string' },
+};
+
+const promptVersionParameter = {
+  name: 'prompt_version',
+  in: 'query',
+  required: false,
+  description: "Prompt template version; defaults to the tenant's selection",
+  schema: { type: 'string' },
+};
+
+const errorResponses = {
+  '400': json(ref('Error'), 'Invalid request'),
+  '401': json(ref('Error'), 'Missing or invalid credentials'),
+  '404': json(ref('Error'), 'Receipt not found in the caller tenant'),
+};
+
+// Stored receipts omit the fields models answer null for, and corrections
+// may not set them to null
+const storedReceiptFields = omitKeywords(RECEIPT_SCHEMA, [
+  'nullable',
+  'errorMessage',
+]);
+const correctionFields = omitKeywords(RECEIPT_CORRECTION_SCHEMA, [
+  'nullable',
+  'errorMessage',
+]);
+
+/**
+ * OpenAPI document for the receipt endpoints. The extracted fields are
+ * RECEIPT_SCHEMA itself and the PATCH body is RECEIPT_CORRECTION_SCHEMA, so
+ * the docs cannot drift from what extraction and corrections validate;
+ * fields the service adds are described here.
+ */
+export function buildOpenApiDocument(): OpenApiObject {
+  return {
+    openapi: '3.0.3',
+    info: { title: 'Receipt Analytics Engine', version: '1.0.0' },
+    security: [{ apiKey: [] }, { bearer: [] }],
+    paths: {
+      '/receipt/extract-receipt-details': {
+        post: {
+          summary: 'Extract and store a receipt from an image or PDF',
+          parameters: [
+            {
+              name: 'async',
+              in: 'query',
+              required: false,
+              schema: { type: 'boolean' },
+            },
+            {
+              name: 'webhook_url',
+              in: 'query',
+              required: false,
+              schema: { type: 'string', format: 'uri' },
+            },
+            promptVersionParameter,
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  properties: { file: { type: 'string', format: 'binary' } },
+                  required: ['file'],
+                },
+              },
+            },
+          },
+          responses: {
+            '200': json(ref('Receipt'), 'The stored receipt'),
+            '202': json(
+              { type: 'object', description: 'Queued extraction job' },
+              'Accepted for asynchronous extraction',
+            ),
+            ...errorResponses,
+          },
+        },
+      },
+      '/receipts': {
+        get: {
+          summary: 'List stored receipts',
+          responses: {
+            '200': json(
+              {
+                type: 'object',
+                properties: {
+                  data: { type: 'array', items: ref('Receipt') },
+                  next_cursor: { type: 'string', nullable: true },
+                },
+              },
+              'One page of receipts',
+            ),
+            ...errorResponses,
+          },
+        },
+      },
+      '/receipts/{id}': {
+        get: {
+          summary: 'Get one receipt',
+          parameters: [idParameter],
+          responses: {
+            '200': json(ref('Receipt'), 'The receipt'),
+            ...errorResponses,
+          },
+        },
+        patch: {
+          summary: 'Correct extracted fields',
+          parameters: [idParameter],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': { schema: ref('ReceiptCorrection') },
+            },
+          },
+          responses: {
+            '200': json(ref('Receipt'), 'The updated receipt'),
+            ...errorResponses,
+          },
+        },
+      },
+      '/receipts/{id}/reextract': {
+        post: {
+          summary: "Extract a stored receipt's file again",
+          parameters: [idParameter, promptVersionParameter],
+          responses: {
+            '200': json(ref('Receipt'), 'The re-extracted receipt'),
+            ...errorResponses,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        bearer: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+      schemas: {
+        ExtractedReceipt: storedReceiptFields,
+        ReceiptCorrection: {
+          ...correctionFields,
+          description: 'Fields to change; omitted fields are unchanged',
+        },
+        Receipt: {
+          allOf: [
+            ref('ExtractedReceipt'),
+            {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                tenant_id: { type: 'string' },
+                vendor_id: { type: 'string' },
+                category_source: { type: 'string' },
+                base_amounts: { type: 'object' },
+                image_key: { type: 'string' },
+                image_url: {
+                  type: 'string',
+                  description: 'Signed link to the uploaded file',
+                },
+                processed_image_key: { type: 'string' },
+                processed_image_url: { type: 'string' },
+                possible_duplicate_of: { type: 'string' },
+                justification: { type: 'string' },
+                validation: { type: 'object' },
+                policy: { type: 'object' },
+                review: { type: 'object' },
+                metadata: { type: 'object' },
+              },
+              required: ['id', 'image_url'],
+            },
+          ],
+        },
+        Error: {
+          type: 'object',
+          properties: {
+            error: {
+              type: 'object',
+              properties: {
+                code: { type: 'string' },
+                message: { type: 'string' },
+                status_code: { type: 'integer' },
+                request_id: { type: 'string' },
+                details: { type: 'object' },
+              },
+              required: ['code', 'message', 'status_code'],
+            },
+          },
+          required: ['error'],
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { NestFactory } from '@nestjs/core';
+import { promises as fs } from 'fs';
+import * as dotenv from 'dotenv';
+import { EvaluationModule } from './evaluation.module';
+import { EvaluationService } from './evaluation.service';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Scores the sample corpus with the configured provider:
+ *
+ *   npm run evaluate -- [--prompt v2] [--out report.json]
+ *
+ * --prompt picks a template version instead of the default. The report goes
+ * to --out, or to stdout; the summary is always printed to stderr.
+ */
+async function evaluate() {
+  const option = (name: string) => {
+    const index = process.argv.indexOf(name);
+    return index > 0 ? process.argv[index + 1] : undefined;
+  };
+  const outFile = option('--out');
+
+  const app = await NestFactory.createApplicationContext(EvaluationModule, {
+    logger: ['error', 'warn'],
+  });
+  try {
+    const report = await app.get(EvaluationService).run(option('--prompt'));
+    const json = `${JSON.stringify(report, null, 2)}\n`;
+    if (outFile) {
+      await fs.writeFile(outFile, json);
+    } else {
+      process.stdout.write(json);
+    }
+    console.error(
+      `Evaluated ${report.summary.samples} samples with ${report.provider} ` +
+        `(prompt ${report.prompt_version}, ${report.model}):`,
+      report.summary,
+    );
+  } finally {
+    await app.close();
+  }
+}
+evaluate().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { mimeTypeForFile } from '../receipt/receipt-file-types';
+import {
+  EvaluationSample,
+  ExpectedReceipt,
+} from './interfaces/evaluation.interface';
+
+export const EXPECTED_SUFFIX = '.expected.json';
+
+export function expectedFileOf(fileName: string): string {
+  return `${path.parse(fileName).name}${EXPECTED_SUFFIX}`;
+}
+
+// A typo in a ground-truth file must not silently score as a model error
+function parseExpected(fileName: string, text: string): ExpectedReceipt {
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error(`${fileName} is not valid JSON`);
+  }
+  const errors: string[] = [];
+  for (const field of ['vendor_name', 'date']) {
+    if (typeof value?.[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+  if (typeof value?.total !== 'number') {
+    errors.push('total must be a number');
+  }
+  const items = value?.receipt_items ?? [];
+  if (
+    !Array.isArray(items) ||
+    items.some(
+      (item) =>
+        typeof item?.item_name !== 'string' ||
+        typeof item?.item_cost !== 'number',
+    )
+  ) {
+    errors.push('receipt_items must list { item_name, item_cost }');
+  }
+  if (errors.length > 0) {
+    throw new Error(`${fileName}: ${errors.join('; ')}`);
+  }
+  return { ...value, receipt_items: items };
+}
+
+/**
+ * Reads the labeled samples of a corpus directory: every supported image or
+ * PDF that has a `<name>.expected.json` next to it. Images without one are
+ * returned as unlabeled. Files are ordered by name, numbers numerically.
+ */
+export async function loadCorpus(
+  dir: string,
+): Promise<{ samples: EvaluationSample[]; unlabeled: string[] }> {
+  const names = (await fs.readdir(dir)).sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true }),
+  );
+  const samples: EvaluationSample[] = [];
+  const unlabeled: string[] = [];
+  for (const fileName of names.filter((name) => mimeTypeForFile(name))) {
+    const expectedFile = expectedFileOf(fileName);
+    if (!names.includes(expectedFile)) {
+      unlabeled.push(fileName);
+      continue;
+    }
+    samples.push({
+      file_name: fileName,
+      mime_type: mimeTypeForFile(fileName),
+      data: await fs.readFile(path.join(dir, fileName)),
+      expected: parseExpected(
+        expectedFile,
+        await fs.readFile(path.join(dir, expectedFile), 'utf8'),
+      ),
+    });
+  }
+  return { samples, unlabeled };
+}
@@ -0,0 +1,109 @@
+import { scoreItems, scoreSample, summarize } from './evaluation-scorer';
+import { ExpectedReceipt } from './interfaces/evaluation.interface';
+
+const expected: ExpectedReceipt = {
+  vendor_name: 'Stop & Shop',
+  date: '2021-03-26',
+  total: 17.17,
+  receipt_items: [
+    { item_name: 'SB BGICE CB 10LB', item_cost: 2.99 },
+    { item_name: 'SB BGICE CB 10LB', item_cost: 2.99 },
+    { item_name: 'HALLMARK CARD', item_cost: 2 },
+  ],
+};
+
+describe('scoreItems', () => {
+  it('matches each expected item once, by name and cost', () => {
+    const score = scoreItems(
+      expected.receipt_items,
+      [
+        { item_name: 'sb bgice  cb 10lb', item_cost: 2.99 },
+        { item_name: 'SB BGICE CB 10LB', item_cost: 2.99 },
+        { item_name: 'SB BGICE CB 10LB', item_cost: 2.99 },
+        { item_name: 'HALLMARK CARD', item_cost: 3.79 },
+      ],
+      0.01,
+    );
+
+    expect(score).toEqual({
+      expected: 3,
+      extracted: 4,
+      matched: 2,
+      precision: 0.5,
+      recall: 0.6667,
+      missing: ['HALLMARK CARD'],
+      unexpected: ['SB BGICE CB 10LB', 'HALLMARK CARD'],
+    });
+  });
+
+  it('counts empty lists as fully precise and complete', () => {
+    expect(scoreItems([], [], 0.01)).toMatchObject({
+      precision: 1,
+      recall: 1,
+    });
+  });
+});
+
+describe('scoreSample', () => {
+  it('scores vendor, date and total against the ground truth', () => {
+    const score = scoreSample(
+      expected,
+      {
+        vendor_name: ' stop & shop',
+        date: '2021-03-25',
+        currency: 'USD',
+        tax: 0,
+        total: 17.175,
+        receipt_items: [],
+      },
+      0.01,
+    );
+
+    expect(score.vendor_name).toEqual({
+      expected: 'Stop & Shop',
+      actual: ' stop & shop',
+      correct: false,
+      normalized_correct: true,
+    });
+    expect(score.date).toEqual({
+      expected: '2021-03-26',
+      actual: '2021-03-25',
+      correct: false,
+    });
+    expect(score.total.correct).toBe(true);
+    expect(score.items.recall).toBe(0);
+  });
+});
+
+describe('summarize', () => {
+  it('counts failed samples as wrong on every field', () => {
+    const scored = scoreSample(
+      expected,
+      {
+        ...expected,
+        currency: 'USD',
+        tax: 0,
+      },
+      0.01,
+    );
+
+    const summary = summarize(
+      [
+        { file_name: '1.jpg', status: 'scored', score: scored },
+        { file_name: '2.png', status: 'failed' },
+      ],
+      5,
+    );
+
+    expect(summary).toEqual({
+      samples: 2,
+      failed: 1,
+      vendor_accuracy: 0.5,
+      vendor_accuracy_normalized: 0.5,
+      date_accuracy: 0.5,
+      total_accuracy: 0.5,
+      item_precision: 1,
+      item_recall: 0.6,
+    });
+  });
+});
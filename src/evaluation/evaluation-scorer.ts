@@ -0,0 +1,113 @@
+import { ExtractedReceiptFields } from '../receipt/extraction/receipt-fields';
+import {
+  EvaluationSummary,
+  ExpectedReceipt,
+  ItemScore,
+  SampleResult,
+  SampleScore,
+} from './interfaces/evaluation.interface';
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// Case and spacing differences, forgiven for items and the normalized vendor check
+const normalizeText = (value: string | undefined) =>
+  (value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const ratio = (part: number, whole: number) =>
+  whole === 0 ? 1 : round(part / whole);
+
+/**
+ * Pairs extracted items with expected ones by name and cost, each item used
+ * at most once, so repeated lines (three bags of ice) must all be found.
+ */
+export function scoreItems(
+  expected: ExpectedReceipt['receipt_items'],
+  extracted: ExtractedReceiptFields['receipt_items'],
+  tolerance: number,
+): ItemScore {
+  const unmatched = [...expected];
+  const unexpected: string[] = [];
+  for (const item of extracted) {
+    const index = unmatched.findIndex(
+      (candidate) =>
+        normalizeText(candidate.item_name) === normalizeText(item.item_name) &&
+        Math.abs(candidate.item_cost - item.item_cost) <= tolerance,
+    );
+    if (index >= 0) {
+      unmatched.splice(index, 1);
+    } else {
+      unexpected.push(item.item_name);
+    }
+  }
+
+  const matched = expected.length - unmatched.length;
+  return {
+    expected: expected.length,
+    extracted: extracted.length,
+    matched,
+    precision: ratio(matched, extracted.length),
+    recall: ratio(matched, expected.length),
+    missing: unmatched.map((item) => item.item_name),
+    unexpected,
+  };
+}
+
+export function scoreSample(
+  expected: ExpectedReceipt,
+  extracted: ExtractedReceiptFields,
+  tolerance: number,
+): SampleScore {
+  return {
+    vendor_name: {
+      expected: expected.vendor_name,
+      actual: extracted.vendor_name ?? null,
+      correct: extracted.vendor_name === expected.vendor_name,
+      normalized_correct:
+        normalizeText(extracted.vendor_name) ===
+        normalizeText(expected.vendor_name),
+    },
+    date: {
+      expected: expected.date,
+      actual: extracted.date ?? null,
+      correct: extracted.date === expected.date,
+    },
+    total: {
+      expected: expected.total,
+      actual: extracted.total ?? null,
+      correct:
+        typeof extracted.total === 'number' &&
+        Math.abs(extracted.total - expected.total) <= tolerance,
+    },
+    items: scoreItems(
+      expected.receipt_items,
+      extracted.receipt_items ?? [],
+      tolerance,
+    ),
+  };
+}
+
+export function summarize(
+  results: SampleResult[],
+  expectedItems: number,
+): EvaluationSummary {
+  const scores = results.map((result) => result.score).filter(Boolean);
+  const correct = (field: 'vendor_name' | 'date' | 'total') =>
+    scores.filter((score) => score[field].correct).length;
+  const sum = (field: 'matched' | 'extracted') =>
+    scores.reduce((total, score) => total + score.items[field], 0);
+
+  return {
+    samples: results.length,
+    failed: results.length - scores.length,
+    vendor_accuracy: ratio(correct('vendor_name'), results.length),
+    vendor_accuracy_normalized: ratio(
+      scores.filter((score) => score.vendor_name.normalized_correct).length,
+      results.length,
+    ),
+    date_accuracy: ratio(correct('date'), results.length),
+    total_accuracy: ratio(correct('total'), results.length),
+    item_precision: ratio(sum('matched'), sum('extracted')),
+    // Items of failed samples were expected but never found
+    item_recall: ratio(sum('matched'), expectedItems),
+  };
+}
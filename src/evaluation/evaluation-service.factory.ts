@@ -0,0 +1,26 @@
+import { FactoryProvider } from '@nestjs/common';
+import * as path from 'path';
+import { ReceiptService } from '../receipt/receipt.service';
+import { PromptTemplateService } from '../prompts/prompt-template.service';
+import { EvaluationService } from './evaluation.service';
+import { numberFromEnv } from '../common/env-number';
+
+export function createEvaluationService(
+  receiptService: ReceiptService,
+  promptTemplates: PromptTemplateService,
+  env: NodeJS.ProcessEnv = process.env,
+): EvaluationService {
+  return new EvaluationService(receiptService, promptTemplates, {
+    samples_dir: path.resolve(env.EVALUATION_SAMPLES_DIR ?? 'sample-receipts'),
+    amount_tolerance: numberFromEnv(env.EVALUATION_AMOUNT_TOLERANCE, 0.01),
+  });
+}
+
+export const evaluationService: FactoryProvider<EvaluationService> = {
+  provide: EvaluationService,
+  useFactory: (
+    receiptService: ReceiptService,
+    promptTemplates: PromptTemplateService,
+  ) => createEvaluationService(receiptService, promptTemplates),
+  inject: [ReceiptService, PromptTemplateService],
+};
@@ -0,0 +1,18 @@
+import { Controller, HttpCode, HttpStatus, Post, Query } from '@nestjs/common';
+import { EvaluationService } from './evaluation.service';
+import { EvaluationReport } from './interfaces/evaluation.interface';
+import { AdminOnly } from '../auth/decorators/auth.decorators';
+import { PromptVersionQueryDto } from '../prompts/dto/prompt-selection.dto';
+
+// Runs call the extraction provider once per sample, so only admins may start one
+@Controller('evaluation')
+export class EvaluationController {
+  constructor(private readonly evaluationService: EvaluationService) {}
+
+  @Post('run')
+  @AdminOnly()
+  @HttpCode(HttpStatus.OK)
+  run(@Query() query: PromptVersionQueryDto): Promise<EvaluationReport> {
+    return this.evaluationService.run(query.prompt_version);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ReceiptModule } from '../receipt/receipt.module';
+import { PromptModule } from '../prompts/prompt.module';
+import { EvaluationController } from './evaluation.controller';
+import { evaluationService } from './evaluation-service.factory';
+import { EvaluationService } from './evaluation.service';
+
+@Module({
+  imports: [ReceiptModule, PromptModule],
+  controllers: [EvaluationController],
+  providers: [evaluationService],
+  exports: [EvaluationService],
+})
+export class EvaluationModule {}
@@ -0,0 +1,123 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EvaluationService } from './evaluation.service';
+import { ReceiptService } from '../receipt/receipt.service';
+import { AppException } from '../common/errors/app-exception';
+import { PromptTemplateService } from '../prompts/prompt-template.service';
+import { PromptTemplate } from '../prompts/interfaces/prompt-template.interface';
+
+const TEMPLATE: PromptTemplate = {
+  version: 'v2',
+  model: 'gemini-test',
+  temperature: 0,
+  output_schema: {},
+  instructions: [],
+  locale_hints: [],
+};
+
+describe('EvaluationService', () => {
+  let samplesDir: string;
+  let receiptService: { providerName: string; previewExtraction: jest.Mock };
+  let promptTemplates: { resolve: jest.Mock };
+  let service: EvaluationService;
+
+  const writeSample = async (name: string, expected?: unknown) => {
+    await fs.writeFile(path.join(samplesDir, name), 'image');
+    if (expected !== undefined) {
+      await fs.writeFile(
+        path.join(samplesDir, `${path.parse(name).name}.expected.json`),
+        typeof expected === 'string' ? expected : JSON.stringify(expected),
+      );
+    }
+  };
+
+  beforeEach(async () => {
+    samplesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'samples-'));
+    receiptService = { providerName: 'mock', previewExtraction: jest.fn() };
+    promptTemplates = { resolve: jest.fn(async () => TEMPLATE) };
+    service = new EvaluationService(
+      receiptService as unknown as ReceiptService,
+      promptTemplates as unknown as PromptTemplateService,
+      { samples_dir: samplesDir, amount_tolerance: 0.01 },
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(samplesDir, { recursive: true, force: true });
+  });
+
+  it('scores every labeled sample in name order without storing receipts', async () => {
+    const truth = {
+      vendor_name: 'Cafe',
+      date: '2024-01-10',
+      total: 5,
+      receipt_items: [{ item_name: 'Coffee', item_cost: 5 }],
+    };
+    await writeSample('10.jpg', truth);
+    await writeSample('2.png', { ...truth, total: 6 });
+    await writeSample('3.jpg');
+    receiptService.previewExtraction.mockResolvedValue({
+      fields: { ...truth, currency: 'USD', tax: 0 },
+      attempts: [{ attempt: 1 }],
+    });
+
+    const report = await service.run('v2');
+
+    expect(promptTemplates.resolve).toHaveBeenCalledWith(undefined, 'v2');
+    expect(report).toMatchObject({
+      provider: 'mock',
+      prompt_version: 'v2',
+      model: 'gemini-test',
+    });
+    expect(report.samples.map((s) => s.file_name)).toEqual(['2.png', '10.jpg']);
+    expect(report.unlabeled).toEqual(['3.jpg']);
+    expect(report.samples[0].score.total).toEqual({
+      expected: 6,
+      actual: 5,
+      correct: false,
+    });
+    expect(report.summary).toMatchObject({
+      samples: 2,
+      failed: 0,
+      vendor_accuracy: 1,
+      total_accuracy: 0.5,
+      item_recall: 1,
+    });
+    expect(receiptService.previewExtraction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        originalname: '2.png',
+        mimetype: 'image/png',
+      }),
+      TEMPLATE,
+    );
+  });
+
+  it('records extraction failures and keeps going', async () => {
+    await writeSample('1.jpg', {
+      vendor_name: 'Cafe',
+      date: '2024-01-10',
+      total: 5,
+      receipt_items: [{ item_name: 'Coffee', item_cost: 5 }],
+    });
+    receiptService.previewExtraction.mockRejectedValue(
+      new AppException('PROVIDER_TIMEOUT'),
+    );
+
+    const report = await service.run();
+
+    expect(report.samples[0]).toMatchObject({
+      status: 'failed',
+      error: { code: 'PROVIDER_TIMEOUT', status_code: 504 },
+    });
+    expect(report.summary).toMatchObject({ failed: 1, item_recall: 0 });
+  });
+
+  it('rejects malformed ground-truth files', async () => {
+    await writeSample('1.jpg', { vendor_name: 'Cafe', date: '2024-01-10' });
+
+    await expect(service.run()).rejects.toThrow(
+      '1.expected.json: total must be a number',
+    );
+  });
+});
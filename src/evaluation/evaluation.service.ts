@@ -0,0 +1,89 @@
+import { ReceiptService } from '../receipt/receipt.service';
+import { PromptTemplateService } from '../prompts/prompt-template.service';
+import { PromptTemplate } from '../prompts/interfaces/prompt-template.interface';
+import { toErrorBody } from '../common/errors/app-exception';
+import { loadCorpus } from './evaluation-corpus';
+import { scoreSample, summarize } from './evaluation-scorer';
+import {
+  EvaluationOptions,
+  EvaluationReport,
+  EvaluationSample,
+  SampleResult,
+} from './interfaces/evaluation.interface';
+
+/**
+ * Runs a labeled corpus through the configured extraction provider and
+ * scores the output field by field. Nothing is stored, so a run can be
+ * repeated after every prompt or model change and the reports compared.
+ */
+export class EvaluationService {
+  constructor(
+    private readonly receiptService: ReceiptService,
+    private readonly promptTemplates: PromptTemplateService,
+    private readonly options: EvaluationOptions,
+  ) {}
+
+  // Uses the default prompt template unless a version is given
+  async run(promptVersion?: string): Promise<EvaluationReport> {
+    const template = await this.promptTemplates.resolve(
+      undefined,
+      promptVersion,
+    );
+    const { samples, unlabeled } = await loadCorpus(this.options.samples_dir);
+
+    // One at a time, so a run stays within provider rate limits
+    const results: SampleResult[] = [];
+    for (const sample of samples) {
+      results.push(await this.evaluate(sample, template));
+    }
+
+    const expectedItems = samples.reduce(
+      (total, sample) => total + sample.expected.receipt_items.length,
+      0,
+    );
+    return {
+      provider: this.receiptService.providerName,
+      prompt_version: template.version,
+      model: template.model,
+      amount_tolerance: this.options.amount_tolerance,
+      summary: summarize(results, expectedItems),
+      samples: results,
+      unlabeled,
+    };
+  }
+
+  private async evaluate(
+    sample: EvaluationSample,
+    template: PromptTemplate,
+  ): Promise<SampleResult> {
+    try {
+      const { fields, attempts, incomplete } =
+        await this.receiptService.previewExtraction(
+          {
+            originalname: sample.file_name,
+            mimetype: sample.mime_type,
+            size: sample.data.length,
+            buffer: sample.data,
+          } as Express.Multer.File,
+          template,
+        );
+      return {
+        file_name: sample.file_name,
+        status: 'scored',
+        score: scoreSample(
+          sample.expected,
+          fields,
+          this.options.amount_tolerance,
+        ),
+        attempts: attempts.length,
+        incomplete: incomplete ? true : undefined,
+      };
+    } catch (error) {
+      return {
+        file_name: sample.file_name,
+        status: 'failed',
+        error: toErrorBody(error),
+      };
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { ErrorBody } from '../../common/errors/app-exception';
+
+// Ground truth stored next to a sample as `<name>.expected.json`
+export interface ExpectedReceipt {
+  vendor_name: string;
+  date: string;
+  currency?: string;
+  total: number;
+  receipt_items: { item_name: string; item_cost: number }[];
+}
+
+export interface EvaluationSample {
+  file_name: string;
+  mime_type: string;
+  data: Buffer;
+  expected: ExpectedReceipt;
+}
+
+export interface EvaluationOptions {
+  samples_dir: string;
+  // Largest difference between amounts still counted as correct
+  amount_tolerance: number;
+}
+
+export interface FieldScore<T> {
+  expected: T;
+  actual: T | null;
+  correct: boolean;
+}
+
+// `correct` needs the exact text, so casing regressions show up; the
+// normalized check forgives case and spacing
+export interface VendorScore extends FieldScore<string> {
+  normalized_correct: boolean;
+}
+
+export interface ItemScore {
+  expected: number;
+  extracted: number;
+  matched: number;
+  precision: number;
+  recall: number;
+  // Names of expected items nothing was matched to
+  missing: string[];
+  // Names of extracted items that match no expected item
+  unexpected: string[];
+}
+
+export interface SampleScore {
+  vendor_name: VendorScore;
+  date: FieldScore<string>;
+  total: FieldScore<number>;
+  items: ItemScore;
+}
+
+export interface SampleResult {
+  file_name: string;
+  // Failed samples count as wrong on every field
+  status: 'scored' | 'failed';
+  score?: SampleScore;
+  error?: ErrorBody;
+  // Provider calls the extraction needed, including retries
+  attempts?: number;
+  // Set when extraction only partly succeeded and would go to review
+  incomplete?: boolean;
+}
+
+export interface EvaluationSummary {
+  samples: number;
+  failed: number;
+  vendor_accuracy: number;
+  vendor_accuracy_normalized: number;
+  date_accuracy: number;
+  total_accuracy: number;
+  // Over all items of the corpus, not averaged per sample
+  item_precision: number;
+  item_recall: number;
+}
+
+// Has no timestamps, so reports of two runs can be diffed directly
+export interface EvaluationReport {
+  provider: string;
+  prompt_version: string;
+  model: string;
+  amount_tolerance: number;
+  summary: EvaluationSummary;
+  samples: SampleResult[];
+  // Images without an expected file
+  unlabeled: string[];
+}
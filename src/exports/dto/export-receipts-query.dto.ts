@@ -0,0 +1,25 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsOptional } from 'class-validator';
+import { ReceiptFilterQueryDto } from '../../receipt/dto/receipt-filter-query.dto';
+
+export const EXPORT_FORMATS = [
+  'csv',
+  'xlsx',
+  'quickbooks',
+  'xero',
+  'ofx',
+] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Same filters as GET /receipts, without paging
+export class ExportReceiptsQueryDto extends ReceiptFilterQueryDto {
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS)
+  format?: ExportFormat;
+
+  // Flagged possible duplicates are left out of totals unless this is set
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  include_duplicates?: boolean;
+}
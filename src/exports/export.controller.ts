@@ -0,0 +1,55 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Query,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { ExportService } from './export.service';
+import { ExportReceiptsQueryDto } from './dto/export-receipts-query.dto';
+import { CurrentTenant } from '../auth/decorators/auth.decorators';
+
+const SKIPPED_RECEIPTS_HEADER = 'X-Skipped-Receipts';
+// Keeps the header well inside proxy limits; the count is always complete
+const MAX_SKIPPED_IDS = 100;
+
+@Controller('exports')
+export class ExportController {
+  constructor(private readonly exportService: ExportService) {}
+
+  @Get('receipts')
+  @Header('Cache-Control', 'private, no-store')
+  async exportReceipts(
+    @CurrentTenant() tenantId: string,
+    @Query() query: ExportReceiptsQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    const file = await this.exportService.exportReceipts(tenantId, query);
+    const skipped = file.skipped_receipt_ids ?? [];
+    if (skipped.length > 0) {
+      res.setHeader(`${SKIPPED_RECEIPTS_HEADER}-Count`, skipped.length);
+      res.setHeader(
+        SKIPPED_RECEIPTS_HEADER,
+        skipped.slice(0, MAX_SKIPPED_IDS).join(','),
+      );
+    }
+    return new StreamableFile(file.stream, {
+      type: file.content_type,
+      disposition: `attachment; filename="${file.file_name}"`,
+    });
+  }
+
+  @Get('labeled-dataset')
+  @Header('Cache-Control', 'private, no-store')
+  async exportLabeledDataset(
+    @CurrentTenant() tenantId: string,
+  ): Promise<StreamableFile> {
+    const file = await this.exportService.exportLabeledDataset(tenantId);
+    return new StreamableFile(file.stream, {
+      type: file.content_type,
+      disposition: `attachment; filename="${file.file_name}"`,
+    });
+  }
+}
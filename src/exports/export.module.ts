@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ReceiptModule } from '../receipt/receipt.module';
+import { ExportController } from './export.controller';
+import { ExportService } from './export.service';
+
+@Module({
+  imports: [ReceiptModule],
+  controllers: [ExportController],
+  providers: [ExportService],
+})
+export class ExportModule {}
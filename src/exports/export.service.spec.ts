@@ -0,0 +1,299 @@
+import { BadRequestException } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { ExportService } from './export.service';
+import { InMemoryReceiptRepository } from '../receipt/repositories/in-memory-receipt.repository';
+import { ReceiptResponse } from '../receipt/dto/receipt-response.dto';
+import {
+  ReceiptAuditLog,
+  ReceiptAuditLogState,
+} from '../receipt/review/receipt-audit-log';
+import { AuditEntry } from '../receipt/interfaces/receipt-review.interface';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+
+function receipt(overrides: Partial<ReceiptResponse>): ReceiptResponse {
+  return {
+    id: overrides.id ?? 'r',
+    tenant_id: 'acme',
+    date: '2024-01-10',
+    currency: 'USD',
+    vendor_name: 'Corner Store',
+    receipt_items: [],
+    tax: 0,
+    total: 0,
+    image_url: '/files/r.jpg',
+    ...overrides,
+  };
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('ExportService', () => {
+  let service: ExportService;
+  let repository: InMemoryReceiptRepository;
+  let auditLog: ReceiptAuditLog;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'exports-'));
+    auditLog = new ReceiptAuditLog(
+      new JsonFileStore<ReceiptAuditLogState>(
+        path.join(dataDir, 'audit-log.json'),
+        () => ({ entries: [] }),
+      ),
+    );
+    repository = new InMemoryReceiptRepository();
+    await repository.save(
+      receipt({
+        id: 'b',
+        date: '2024-02-03',
+        vendor_name: 'Cafe "Rio", Downtown',
+        category: 'meals',
+        receipt_items: [
+          { item_name: 'Coffee', item_cost: 5, quantity: 1 },
+          { item_name: '=HYPERLINK("x")', item_cost: 2, category: 'other' },
+        ],
+        tax: 0.7,
+        total: 7.7,
+      }),
+    );
+    await repository.save(
+      receipt({ id: 'a', date: '2024-01-10', tax: 0.2, total: 2.2 }),
+    );
+    await repository.save(
+      receipt({ id: 'z', tenant_id: 'globex', vendor_name: 'Hidden' }),
+    );
+    service = new ExportService(repository, auditLog);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const exported = async (query = {}) => {
+    const file = await service.exportReceipts('acme', query);
+    return { ...file, body: await readAll(file.stream) };
+  };
+
+  it("writes one CSV row per item, oldest first, for the caller's tenant", async () => {
+    const { body, content_type, file_name } = await exported();
+
+    const lines = body
+      .toString('utf8')
+      .replace(/^\uFEFF/, '')
+      .split('\r\n');
+    expect(content_type).toBe('text/csv; charset=utf-8');
+    expect(file_name).toMatch(/^receipts-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(lines[0]).toMatch(/^receipt_id,date,vendor_name,/);
+    expect(lines.slice(1, -1)).toEqual([
+      'a,2024-01-10,Corner Store,,USD,,,0.2,,2.2,,,,,,',
+      'b,2024-02-03,"Cafe ""Rio"", Downtown",meals,USD,,,0.7,,7.7,Coffee,1,,,5,meals',
+      `b,2024-02-03,"Cafe ""Rio"", Downtown",meals,USD,,,0.7,,7.7,"'=HYPERLINK(""x"")",,,,2,other`,
+    ]);
+  });
+
+  it('applies the listing filters', async () => {
+    const { body } = await exported({ date_from: '2024-02-01' });
+
+    expect(body.toString()).not.toContain('Corner Store');
+    expect(body.toString()).toContain('Coffee');
+  });
+
+  it('filters by review status', async () => {
+    await repository.save(
+      receipt({
+        id: 'c',
+        vendor_name: 'Checked Deli',
+        review: { status: 'approved', reasons: [] },
+      }),
+    );
+
+    const { body } = await exported({ review_status: 'approved' });
+
+    expect(body.toString()).toContain('Checked Deli');
+    expect(body.toString()).not.toContain('Corner Store');
+  });
+
+  it('leaves flagged duplicates out unless asked for', async () => {
+    await repository.save(
+      receipt({
+        id: 'c',
+        vendor_name: 'Copy Shop',
+        possible_duplicate_of: 'a',
+      }),
+    );
+
+    expect((await exported()).body.toString()).not.toContain('Copy Shop');
+    expect(
+      (await exported({ include_duplicates: true })).body.toString(),
+    ).toContain('Copy Shop');
+  });
+
+  it('leaves out receipts a reviewer rejected', async () => {
+    await repository.save(
+      receipt({
+        id: 'c',
+        vendor_name: 'Not A Receipt',
+        review: { status: 'rejected', reasons: [] },
+      }),
+    );
+
+    expect(
+      (await exported({ include_duplicates: true })).body.toString(),
+    ).not.toContain('Not A Receipt');
+  });
+
+  it('writes QuickBooks and Xero bank imports as outflows', async () => {
+    const quickbooks = (await exported({ format: 'quickbooks' })).body;
+    const xero = (await exported({ format: 'xero' })).body;
+
+    expect(quickbooks.toString().split('\r\n')).toEqual([
+      'Date,Description,Amount',
+      '01/10/2024,Corner Store,-2.20',
+      '02/03/2024,"Cafe ""Rio"", Downtown",-7.70',
+      '',
+    ]);
+    expect(xero.toString().split('\r\n')[1]).toBe(
+      '10/01/2024,-2.20,Corner Store,,a',
+    );
+  });
+
+  it('leaves receipts without an ISO date out of bank imports and reports them', async () => {
+    await repository.save(receipt({ id: 'c', date: '', total: 1 }));
+    await repository.save(receipt({ id: 'd', date: '03/02/2024', total: 2 }));
+
+    for (const format of ['quickbooks', 'xero', 'ofx']) {
+      const file = await exported({ format });
+      const body = file.body.toString();
+
+      expect(file.skipped_receipt_ids.sort()).toEqual(['c', 'd']);
+      expect(body).not.toContain('undefined');
+      expect(body).not.toMatch(/-1\.00|-2\.00/);
+      expect(body).not.toMatch(/<DTPOSTED><\/DTPOSTED>/);
+    }
+    const quickbooks = (await exported({ format: 'quickbooks' })).body;
+    expect(quickbooks.toString().split('\r\n')).toHaveLength(4);
+
+    const csv = await exported({ format: 'csv' });
+    expect(csv.skipped_receipt_ids).toEqual([]);
+    expect(csv.body.toString()).toContain('d,03/02/2024,');
+  });
+
+  it('refuses bank imports that would mix currencies', async () => {
+    await repository.save(receipt({ id: 'c', currency: 'EUR', total: 3 }));
+
+    await expect(
+      service.exportReceipts('acme', { format: 'quickbooks' }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      exported({ format: 'xero', currency: 'EUR' }),
+    ).resolves.toBeDefined();
+  });
+
+  it('writes one OFX statement per currency', async () => {
+    await repository.save(receipt({ id: 'c', currency: 'EUR', total: -3 }));
+
+    const ofx = (await exported({ format: 'ofx' })).body.toString();
+
+    expect(ofx).toMatch(/^<\?xml/);
+    expect(ofx.match(/<CURDEF>/g)).toHaveLength(2);
+    expect(ofx).toContain(
+      '<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240203</DTPOSTED>' +
+        '<TRNAMT>-7.70</TRNAMT><FITID>b</FITID>' +
+        '<NAME>Cafe "Rio", Downtown</NAME><MEMO>meals</MEMO></STMTTRN>',
+    );
+    expect(ofx).toContain('<TRNTYPE>CREDIT</TRNTYPE>');
+    expect(ofx).toContain('<ACCTID>RECEIPTS-EUR</ACCTID>');
+  });
+
+  it('writes an XLSX workbook with receipts and items sheets', async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load((await exported({ format: 'xlsx' })).body);
+
+    const receipts = workbook.getWorksheet('Receipts');
+    const items = workbook.getWorksheet('Items');
+    expect(receipts.rowCount).toBe(3);
+    expect(receipts.getRow(3).getCell(3).value).toBe('Cafe "Rio", Downtown');
+    expect(receipts.getRow(3).getCell(9).value).toBe(7.7);
+    expect(items.rowCount).toBe(3);
+    expect(items.getRow(2).getCell(4).value).toBe('Coffee');
+  });
+
+  describe('labeled dataset', () => {
+    const change = (
+      receiptId: string,
+      field: string,
+      oldValue: unknown,
+      newValue: unknown,
+      source: AuditEntry['source'] = 'correction',
+    ): Omit<AuditEntry, 'id'> => ({
+      tenant_id: 'acme',
+      receipt_id: receiptId,
+      field,
+      old_value: oldValue,
+      new_value: newValue,
+      changed_by: { method: 'api_key', subject: 'key-1' },
+      changed_at: '2024-03-01T00:00:00.000Z',
+      source,
+    });
+
+    const lines = async () => {
+      const file = await service.exportLabeledDataset('acme');
+      expect(file.content_type).toBe('application/x-ndjson');
+      expect(file.file_name).toMatch(/^labeled-receipts-.*\.jsonl$/);
+      return (await readAll(file.stream))
+        .toString()
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => JSON.parse(line));
+    };
+
+    it('pairs the extracted values of corrected receipts with their labels', async () => {
+      await auditLog.record([
+        change('b', 'total', 7.5, 7.6),
+        change('b', 'total', 7.6, 7.7),
+        change('b', 'category', null, 'meals'),
+      ]);
+
+      expect(await lines()).toEqual([
+        {
+          receipt_id: 'b',
+          corrected_fields: ['category', 'total'],
+          extracted: expect.not.objectContaining({ category: 'meals' }),
+          label: expect.objectContaining({ total: 7.7, category: 'meals' }),
+        },
+      ]);
+      expect((await lines())[0].extracted).toMatchObject({
+        total: 7.5,
+        vendor_name: 'Cafe "Rio", Downtown',
+      });
+    });
+
+    it('includes approved receipts and leaves out rejected ones', async () => {
+      await repository.save(
+        receipt({ id: 'c', review: { status: 'approved', reasons: [] } }),
+      );
+      await repository.save(
+        receipt({ id: 'd', review: { status: 'rejected', reasons: [] } }),
+      );
+      await auditLog.record([change('d', 'total', 1, 0)]);
+
+      expect(await lines()).toEqual([
+        expect.objectContaining({
+          receipt_id: 'c',
+          review_status: 'approved',
+          corrected_fields: [],
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PassThrough, Readable } from 'stream';
+import { ReceiptRepository } from '../receipt/repositories/receipt.repository';
+import { ReceiptAuditLog } from '../receipt/review/receipt-audit-log';
+import {
+  countsTowardSpend,
+  matchesReceiptFilters,
+} from '../receipt/repositories/receipt-query';
+import { ReceiptResponse } from '../receipt/dto/receipt-response.dto';
+import {
+  ExportFormat,
+  ExportReceiptsQueryDto,
+} from './dto/export-receipts-query.dto';
+import { ReceiptExport } from './interfaces/receipt-export.interface';
+import {
+  itemCsvLines,
+  quickBooksCsvLines,
+  xeroCsvLines,
+} from './formats/csv-exports';
+import { ofxChunks } from './formats/ofx-export';
+import { writeReceiptWorkbook } from './formats/xlsx-export';
+import { labeledDatasetLines } from './formats/labeled-dataset';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  quickbooks: 'text/csv; charset=utf-8',
+  xero: 'text/csv; charset=utf-8',
+  ofx: 'application/x-ofx',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Accounting imports reject a whole file over one unreadable date
+const DATED_FORMATS: ExportFormat[] = ['quickbooks', 'xero', 'ofx'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const FILE_SUFFIXES: Record<ExportFormat, string> = {
+  csv: '.csv',
+  quickbooks: '-quickbooks.csv',
+  xero: '-xero.csv',
+  ofx: '.ofx',
+  xlsx: '.xlsx',
+};
+
+@Injectable()
+export class ExportService {
+  constructor(
+    private readonly receiptRepository: ReceiptRepository,
+    private readonly auditLog: ReceiptAuditLog,
+  ) {}
+
+  async exportReceipts(
+    tenantId: string,
+    query: ExportReceiptsQueryDto,
+  ): Promise<ReceiptExport> {
+    const format = query.format ?? 'csv';
+    let receipts = await this.receipts(tenantId, query);
+    let skipped: string[] = [];
+    if (DATED_FORMATS.includes(format)) {
+      skipped = receipts.filter((r) => !ISO_DATE.test(r.date)).map((r) => r.id);
+      receipts = receipts.filter((r) => ISO_DATE.test(r.date));
+    }
+    return {
+      content_type: CONTENT_TYPES[format],
+      file_name: `receipts-${new Date().toISOString().slice(0, 10)}${FILE_SUFFIXES[format]}`,
+      stream: this.render(format, receipts),
+      skipped_receipt_ids: skipped,
+    };
+  }
+
+  // JSON Lines of human-confirmed receipts, for evaluating and tuning extraction
+  async exportLabeledDataset(tenantId: string): Promise<ReceiptExport> {
+    const receipts = (await this.receiptRepository.findAll(tenantId)).sort(
+      (a, b) =>
+        (a.metadata?.created_at ?? '').localeCompare(
+          b.metadata?.created_at ?? '',
+        ) || a.id.localeCompare(b.id),
+    );
+    return {
+      content_type: 'application/x-ndjson',
+      file_name: `labeled-receipts-${new Date().toISOString().slice(0, 10)}.jsonl`,
+      stream: Readable.from(
+        labeledDatasetLines(receipts, await this.auditLog.list(tenantId)),
+      ),
+    };
+  }
+
+  private render(format: ExportFormat, receipts: ReceiptResponse[]): Readable {
+    switch (format) {
+      case 'xlsx': {
+        const output = new PassThrough();
+        writeReceiptWorkbook(receipts, output).catch((error) =>
+          output.destroy(error),
+        );
+        return output;
+      }
+      case 'quickbooks':
+        this.assertSingleCurrency(format, receipts);
+        return Readable.from(quickBooksCsvLines(receipts));
+      case 'xero':
+        this.assertSingleCurrency(format, receipts);
+        return Readable.from(xeroCsvLines(receipts));
+      case 'ofx':
+        return Readable.from(ofxChunks(receipts));
+      default:
+        return Readable.from(itemCsvLines(receipts));
+    }
+  }
+
+  // Bank import files carry no currency column, so amounts must not be mixed
+  private assertSingleCurrency(
+    format: ExportFormat,
+    receipts: ReceiptResponse[],
+  ): void {
+    const currencies = [...new Set(receipts.map((r) => r.currency))].sort();
+    if (currencies.length > 1) {
+      throw new BadRequestException(
+        `Receipts span several currencies (${currencies.join(', ')}); ` +
+          `filter by currency for ${format} exports`,
+      );
+    }
+  }
+
+  // Oldest first, as accounting imports expect
+  private async receipts(
+    tenantId: string,
+    query: ExportReceiptsQueryDto,
+  ): Promise<ReceiptResponse[]> {
+    return (await this.receiptRepository.findAll(tenantId))
+      .filter(
+        (receipt) =>
+          countsTowardSpend(receipt, query) &&
+          matchesReceiptFilters(receipt, query),
+      )
+      .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  }
+}
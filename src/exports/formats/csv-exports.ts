@@ -0,0 +1,93 @@
+import { ReceiptResponse } from '../../receipt/dto/receipt-response.dto';
+import { csvLine, money } from './csv';
+
+const ITEM_CSV_HEADER = [
+  'receipt_id',
+  'date',
+  'vendor_name',
+  'category',
+  'currency',
+  'payment_method',
+  'subtotal',
+  'tax',
+  'tip',
+  'total',
+  'item_name',
+  'item_quantity',
+  'item_unit_price',
+  'item_discount',
+  'item_cost',
+  'item_category',
+];
+
+/**
+ * One row per line item with the receipt header repeated. Receipts without
+ * items still get a row so their totals are not lost.
+ */
+export function* itemCsvLines(receipts: ReceiptResponse[]): Generator<string> {
+  // Byte order mark so Excel reads non-ASCII vendor names correctly
+  yield '\uFEFF' + csvLine(ITEM_CSV_HEADER);
+  for (const receipt of receipts) {
+    const header = [
+      receipt.id,
+      receipt.date,
+      receipt.vendor_name,
+      receipt.category,
+      receipt.currency,
+      receipt.payment_method?.type,
+      receipt.subtotal,
+      receipt.tax,
+      receipt.tip,
+      receipt.total,
+    ];
+    const items = receipt.receipt_items.length ? receipt.receipt_items : [null];
+    for (const item of items) {
+      yield csvLine([
+        ...header,
+        item?.item_name,
+        item?.quantity,
+        item?.unit_price,
+        item?.discount,
+        item?.item_cost,
+        item && (item.category ?? receipt.category),
+      ]);
+    }
+  }
+}
+
+// Receipts are money spent, so they leave the account as negative amounts
+const outflow = (receipt: ReceiptResponse) => money(-receipt.total);
+
+/**
+ * QuickBooks Online bank upload, three-column layout with US dates.
+ */
+export function* quickBooksCsvLines(
+  receipts: ReceiptResponse[],
+): Generator<string> {
+  yield csvLine(['Date', 'Description', 'Amount']);
+  for (const receipt of receipts) {
+    const [year, month, day] = receipt.date.split('-');
+    yield csvLine([
+      `${month}/${day}/${year}`,
+      receipt.vendor_name,
+      outflow(receipt),
+    ]);
+  }
+}
+
+/**
+ * Xero bank statement import with day-first dates.
+ */
+export function* xeroCsvLines(receipts: ReceiptResponse[]): Generator<string> {
+  yield csvLine(['Date', 'Amount', 'Payee', 'Description', 'Reference']);
+  for (const receipt of receipts) {
+    const [year, month, day] = receipt.date.split('-');
+    yield csvLine([
+      `${day}/${month}/${year}`,
+      outflow(receipt),
+      receipt.vendor_name,
+      receipt.category,
+      receipt.id,
+    ]);
+  }
+}
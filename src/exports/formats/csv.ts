@@ -0,0 +1,25 @@
+type CsvCell = string | number | undefined | null;
+
+// Spreadsheet apps run text starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+function escapeCell(cell: CsvCell): string {
+  if (cell === undefined || cell === null) {
+    return '';
+  }
+  if (typeof cell === 'number') {
+    return String(cell);
+  }
+  const text =
+    FORMULA_PREFIX.test(cell) && !NUMERIC.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvLine(cells: CsvCell[]): string {
+  return cells.map(escapeCell).join(',') + '\r\n';
+}
+
+export function money(amount: number): string {
+  return amount.toFixed(2);
+}
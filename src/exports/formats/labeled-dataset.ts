@@ -0,0 +1,102 @@
+import { ReceiptResponse } from '../../receipt/dto/receipt-response.dto';
+import { AuditEntry } from '../../receipt/interfaces/receipt-review.interface';
+import { LabeledReceipt } from '../interfaces/receipt-export.interface';
+
+// Fields the model extracts, i.e. what a training example labels
+const LABEL_FIELDS = [
+  'date',
+  'currency',
+  'vendor_name',
+  'receipt_items',
+  'tax',
+  'total',
+  'subtotal',
+  'tip',
+  'service_charge',
+  'tax_breakdown',
+  'payment_method',
+  'vendor_address',
+  'vendor_phone',
+  'vendor_tax_id',
+  'category',
+] as const;
+
+const pick = (receipt: ReceiptResponse): Record<string, unknown> =>
+  Object.fromEntries(
+    LABEL_FIELDS.filter((field) => receipt[field] !== undefined).map(
+      (field) => [field, receipt[field]],
+    ),
+  );
+
+/**
+ * Pairs what the model extracted with the human-confirmed values. The
+ * extraction is rebuilt from the oldest audit entry of every corrected field,
+ * since receipts only keep their current values.
+ */
+export function toLabeledReceipt(
+  receipt: ReceiptResponse,
+  entries: AuditEntry[],
+): LabeledReceipt {
+  const label = pick(receipt);
+  const extracted = { ...label };
+  const corrected: string[] = [];
+  for (const entry of entries) {
+    const field = entry.field as (typeof LABEL_FIELDS)[number];
+    if (LABEL_FIELDS.includes(field) && !corrected.includes(field)) {
+      corrected.push(field);
+      if (entry.old_value === null) {
+        delete extracted[field];
+      } else {
+        extracted[field] = entry.old_value;
+      }
+    }
+  }
+  return {
+    receipt_id: receipt.id,
+    image_key: receipt.image_key,
+    source_file_name: receipt.metadata?.source_file_name,
+    mime_type: receipt.metadata?.mime_type,
+    provider: receipt.metadata?.provider,
+    review_status: receipt.review?.status,
+    corrected_fields: corrected.sort(),
+    extracted,
+    label,
+  };
+}
+
+// Receipts a human has confirmed: approved, or corrected and not rejected
+export function isLabeled(
+  receipt: ReceiptResponse,
+  entries: AuditEntry[],
+): boolean {
+  if (receipt.review?.status === 'rejected') {
+    return false;
+  }
+  return (
+    receipt.review?.status === 'approved' ||
+    entries.some((entry) => entry.source === 'correction')
+  );
+}
+
+export function* labeledDatasetLines(
+  receipts: ReceiptResponse[],
+  entries: AuditEntry[],
+): Generator<string> {
+  const byReceipt = new Map<string, AuditEntry[]>();
+  for (const entry of entries) {
+    byReceipt.set(entry.receipt_id, [
+      ...(byReceipt.get(entry.receipt_id) ?? []),
+      entry,
+    ]);
+  }
+  for (const receipt of receipts) {
+    // Changes from before a re-extraction describe values that are gone
+    const since = receipt.metadata?.reextracted_at ?? '';
+    const history = (byReceipt.get(receipt.id) ?? []).filter(
+      (entry) => entry.changed_at >= since,
+    );
+    if (isLabeled(receipt, history)) {
+      yield `${JSON.stringify(toLabeledReceipt(receipt, history))}\n`;
+    }
+  }
+}
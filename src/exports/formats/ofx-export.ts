@@ -0,0 +1,67 @@
+import { ReceiptResponse } from '../../receipt/dto/receipt-response.dto';
+import { money } from './csv';
+
+// OFX caps NAME at 32 characters
+const MAX_NAME_LENGTH = 32;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+const ofxDate = (isoDate: string) => isoDate.replace(/-/g, '');
+
+const element = (name: string, value: string) =>
+  `<${name}>${escapeXml(value)}</${name}>`;
+
+function transaction(receipt: ReceiptResponse): string {
+  // Refunds and negative receipts come back into the account
+  const amount = -receipt.total;
+  return (
+    '<STMTTRN>' +
+    element('TRNTYPE', amount < 0 ? 'DEBIT' : 'CREDIT') +
+    element('DTPOSTED', ofxDate(receipt.date)) +
+    element('TRNAMT', money(amount)) +
+    element('FITID', receipt.id) +
+    element('NAME', receipt.vendor_name.slice(0, MAX_NAME_LENGTH)) +
+    (receipt.category ? element('MEMO', receipt.category) : '') +
+    '</STMTTRN>\n'
+  );
+}
+
+/**
+ * OFX 2.2 bank statement. OFX statements hold a single currency, so each
+ * currency becomes its own statement on a `RECEIPTS-<currency>` account.
+ */
+export function* ofxChunks(
+  receipts: ReceiptResponse[],
+  now = new Date(),
+): Generator<string> {
+  const serverTime = now.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n' +
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>\n' +
+    '<OFX>\n' +
+    '<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>' +
+    `<DTSERVER>${serverTime}</DTSERVER><LANGUAGE>ENG</LANGUAGE></SONRS></SIGNONMSGSRSV1>\n` +
+    '<BANKMSGSRSV1>\n';
+
+  const currencies = [...new Set(receipts.map((r) => r.currency))].sort();
+  for (const [index, currency] of currencies.entries()) {
+    const statement = receipts.filter((r) => r.currency === currency);
+    const dates = statement.map((r) => ofxDate(r.date)).sort();
+    yield `<STMTTRNRS><TRNUID>${index + 1}</TRNUID>` +
+      '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>\n' +
+      `<STMTRS><CURDEF>${currency}</CURDEF>` +
+      `<BANKACCTFROM><BANKID>RECEIPTS</BANKID><ACCTID>RECEIPTS-${currency}</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>\n` +
+      `<BANKTRANLIST><DTSTART>${dates[0]}</DTSTART><DTEND>${dates[dates.length - 1]}</DTEND>\n`;
+    for (const receipt of statement) {
+      yield transaction(receipt);
+    }
+    yield '</BANKTRANLIST>' +
+      `<LEDGERBAL><BALAMT>0.00</BALAMT><DTASOF>${serverTime}</DTASOF></LEDGERBAL>` +
+      '</STMTRS></STMTTRNRS>\n';
+  }
+  yield '</BANKMSGSRSV1>\n</OFX>\n';
+}
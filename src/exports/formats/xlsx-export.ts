@@ -0,0 +1,120 @@
+import * as ExcelJS from 'exceljs';
+import { Writable } from 'stream';
+import { ReceiptResponse } from '../../receipt/dto/receipt-response.dto';
+
+const MONEY_FORMAT = '#,##0.00';
+
+/**
+ * Writes a workbook with a Receipts sheet and an Items sheet. Rows are
+ * committed as they are written, so the workbook is streamed rather than
+ * built in memory.
+ */
+export async function writeReceiptWorkbook(
+  receipts: ReceiptResponse[],
+  output: Writable,
+): Promise<void> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+  });
+
+  const receiptSheet = workbook.addWorksheet('Receipts');
+  receiptSheet.columns = [
+    { header: 'Receipt ID', key: 'id', width: 38 },
+    { header: 'Date', key: 'date', width: 12 },
+    { header: 'Vendor', key: 'vendor_name', width: 30 },
+    { header: 'Category', key: 'category', width: 16 },
+    { header: 'Currency', key: 'currency', width: 10 },
+    {
+      header: 'Subtotal',
+      key: 'subtotal',
+      width: 12,
+      style: { numFmt: MONEY_FORMAT },
+    },
+    { header: 'Tax', key: 'tax', width: 12, style: { numFmt: MONEY_FORMAT } },
+    { header: 'Tip', key: 'tip', width: 12, style: { numFmt: MONEY_FORMAT } },
+    {
+      header: 'Total',
+      key: 'total',
+      width: 12,
+      style: { numFmt: MONEY_FORMAT },
+    },
+    { header: 'Payment method', key: 'payment_method', width: 16 },
+    { header: 'Base currency', key: 'base_currency', width: 14 },
+    {
+      header: 'Base total',
+      key: 'base_total',
+      width: 12,
+      style: { numFmt: MONEY_FORMAT },
+    },
+  ];
+  for (const receipt of receipts) {
+    receiptSheet
+      .addRow({
+        id: receipt.id,
+        date: receipt.date,
+        vendor_name: receipt.vendor_name,
+        category: receipt.category,
+        currency: receipt.currency,
+        subtotal: receipt.subtotal,
+        tax: receipt.tax,
+        tip: receipt.tip,
+        total: receipt.total,
+        payment_method: receipt.payment_method?.type,
+        base_currency: receipt.base_amounts?.currency,
+        base_total: receipt.base_amounts?.total,
+      })
+      .commit();
+  }
+  receiptSheet.commit();
+
+  const itemSheet = workbook.addWorksheet('Items');
+  itemSheet.columns = [
+    { header: 'Receipt ID', key: 'receipt_id', width: 38 },
+    { header: 'Date', key: 'date', width: 12 },
+    { header: 'Vendor', key: 'vendor_name', width: 30 },
+    { header: 'Item', key: 'item_name', width: 30 },
+    { header: 'Quantity', key: 'quantity', width: 10 },
+    {
+      header: 'Unit price',
+      key: 'unit_price',
+      width: 12,
+      style: { numFmt: MONEY_FORMAT },
+    },
+    {
+      header: 'Discount',
+      key: 'discount',
+      width: 12,
+      style: { numFmt: MONEY_FORMAT },
+    },
+    {
+      header: 'Cost',
+      key: 'item_cost',
+      width: 12,
+      style: { numFmt: MONEY_FORMAT },
+    },
+    { header: 'Category', key: 'category', width: 16 },
+    { header: 'Currency', key: 'currency', width: 10 },
+  ];
+  for (const receipt of receipts) {
+    for (const item of receipt.receipt_items) {
+      itemSheet
+        .addRow({
+          receipt_id: receipt.id,
+          date: receipt.date,
+          vendor_name: receipt.vendor_name,
+          item_name: item.item_name,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          discount: item.discount,
+          item_cost: item.item_cost,
+          category: item.category ?? receipt.category,
+          currency: receipt.currency,
+        })
+        .commit();
+    }
+  }
+  itemSheet.commit();
+
+  await workbook.commit();
+}
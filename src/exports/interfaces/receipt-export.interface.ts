@@ -0,0 +1,25 @@
+import { Readable } from 'stream';
+
+export interface ReceiptExport {
+  content_type: string;
+  file_name: string;
+  stream: Readable;
+  // Receipts left out because the format cannot carry them, e.g. no ISO date
+  skipped_receipt_ids?: string[];
+}
+
+// One line of the labeled dataset export
+export interface LabeledReceipt {
+  receipt_id: string;
+  image_key?: string;
+  source_file_name?: string;
+  mime_type?: string;
+  provider?: string;
+  review_status?: string;
+  // Fields a human changed; the rest were confirmed as extracted
+  corrected_fields: string[];
+  // Values as the model returned them
+  extracted: Record<string, unknown>;
+  // Values after human review
+  label: Record<string, unknown>;
+}
@@ -1,29 +1,24 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
-import { NestExpressApplication } from '@nestjs/platform-express';
-import { join } from 'path';
 import * as dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
 async function bootstrap() {
-  const app = await NestFactory.create<NestExpressApplication>(AppModule);
-  
+  const app = await NestFactory.create(AppModule);
+
   // Enable validation pipes
-  app.useGlobalPipes(new ValidationPipe());
-  
-  // Serve static files from uploads directory
-  app.useStaticAssets(join(__dirname, '..', 'uploads'), {
-    prefix: '/uploads/',
-  });
-  
-  // Enable CORS for frontend integration
-  app.enableCors({
-    origin: true,
-    credentials: true,
-  });
+  app.useGlobalPipes(new ValidationPipe({ transform: true, whitelist: true }));
+
+  // Only listed frontends may call the API from a browser; credentials are
+  // sent as headers, never cookies
+  const corsOrigins = (process.env.CORS_ORIGINS ?? '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  app.enableCors({ origin: corsOrigins.length > 0 ? corsOrigins : false });
 
   const port = process.env.PORT || 3000;
   await app.listen(port);
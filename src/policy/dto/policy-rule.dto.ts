@@ -0,0 +1,113 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { PolicyRuleType, PolicySeverity } from '../interfaces/policy.interface';
+
+export const POLICY_RULE_TYPES: PolicyRuleType[] = [
+  'category_cap',
+  'max_tip_percent',
+  'prohibited_items',
+  'weekend_justification',
+  'blocked_vendors',
+  'max_age',
+];
+export const POLICY_SEVERITIES: PolicySeverity[] = [
+  'info',
+  'warning',
+  'critical',
+];
+
+const ofType =
+  (...types: PolicyRuleType[]) =>
+  (rule: PolicyRuleDto) =>
+    types.includes(rule.type);
+
+// Only the parameters of the chosen type are validated and kept
+export class PolicyRuleDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsIn(POLICY_RULE_TYPES)
+  type: PolicyRuleType;
+
+  // Defaults to warning
+  @IsOptional()
+  @IsIn(POLICY_SEVERITIES)
+  severity?: PolicySeverity;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ValidateIf(ofType('category_cap'))
+  @IsString()
+  @IsNotEmpty()
+  category?: string;
+
+  @ValidateIf(ofType('category_cap'))
+  @IsNumber()
+  @Min(0)
+  max_amount?: number;
+
+  @ValidateIf(ofType('category_cap'))
+  @Length(3, 3)
+  @Transform(({ value }) => value?.toUpperCase())
+  currency?: string;
+
+  @ValidateIf(ofType('max_tip_percent'))
+  @IsNumber()
+  @Min(0)
+  max_percent?: number;
+
+  // Defaults to a pattern for alcoholic drinks
+  @ValidateIf(ofType('prohibited_items'))
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  pattern?: string;
+
+  @ValidateIf(ofType('blocked_vendors'))
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  vendors?: string[];
+
+  @ValidateIf(ofType('max_age'))
+  @IsInt()
+  @Min(1)
+  max_age_days?: number;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export class PolicyDryRunDto {
+  // Rules to try out; the tenant's stored rules when omitted
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PolicyRuleDto)
+  rules?: PolicyRuleDto[];
+
+  @IsOptional()
+  @Matches(ISO_DATE, { message: 'date_from must be YYYY-MM-DD' })
+  date_from?: string;
+
+  @IsOptional()
+  @Matches(ISO_DATE, { message: 'date_to must be YYYY-MM-DD' })
+  date_to?: string;
+}
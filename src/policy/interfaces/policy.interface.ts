@@ -0,0 +1,64 @@
+export type PolicyRuleType =
+  | 'category_cap'
+  | 'max_tip_percent'
+  | 'prohibited_items'
+  | 'weekend_justification'
+  | 'blocked_vendors'
+  | 'max_age';
+
+export type PolicySeverity = 'info' | 'warning' | 'critical';
+
+export interface PolicyRule {
+  id: string;
+  tenant_id: string;
+  name: string;
+  type: PolicyRuleType;
+  severity: PolicySeverity;
+  // Disabled rules are kept but not evaluated
+  enabled: boolean;
+  // category_cap: most a receipt may spend in `category`, in `currency`
+  category?: string;
+  max_amount?: number;
+  currency?: string;
+  // max_tip_percent: tip as a percentage of the pre-tip amount
+  max_percent?: number;
+  // prohibited_items: case-insensitive regular expression on item names
+  pattern?: string;
+  // blocked_vendors: vendor names, compared after normalization
+  vendors?: string[];
+  // max_age: days between the receipt date and its submission
+  max_age_days?: number;
+  created_at: string;
+}
+
+export interface PolicyViolation {
+  rule_id: string;
+  rule_name: string;
+  type: PolicyRuleType;
+  severity: PolicySeverity;
+  // Receipt field the violation is about, e.g. receipt_items[2]
+  field?: string;
+  message: string;
+}
+
+export interface PolicyEvaluation {
+  violations: PolicyViolation[];
+  evaluated_at: string;
+}
+
+export interface PolicyDryRunReceipt {
+  receipt_id: string;
+  date: string;
+  vendor_name: string;
+  total: number;
+  currency: string;
+  violations: PolicyViolation[];
+}
+
+export interface PolicyDryRunResult {
+  evaluated: number;
+  flagged: number;
+  // Violation counts per rule, including rules nothing violated
+  rules: { rule_id: string; rule_name: string; violations: number }[];
+  receipts: PolicyDryRunReceipt[];
+}
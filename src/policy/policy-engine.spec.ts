@@ -0,0 +1,192 @@
+import { evaluatePolicy, PolicyReceipt } from './policy-engine';
+import { PolicyRule } from './interfaces/policy.interface';
+
+const SUBMITTED_AT = new Date('2024-03-20T12:00:00Z');
+
+function rule(overrides: Partial<PolicyRule>): PolicyRule {
+  return {
+    id: 'rule',
+    tenant_id: 'acme',
+    name: 'Rule',
+    type: 'weekend_justification',
+    severity: 'warning',
+    enabled: true,
+    created_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function receipt(overrides: Partial<PolicyReceipt> = {}): PolicyReceipt {
+  return {
+    // A Wednesday
+    date: '2024-03-13',
+    currency: 'USD',
+    vendor_name: 'Corner Bistro',
+    category: 'meals',
+    receipt_items: [
+      { item_name: 'Burger', item_cost: 18, category: 'meals' },
+      { item_name: 'Craft IPA', item_cost: 8, category: 'meals' },
+    ],
+    subtotal: 26,
+    tax: 2,
+    tip: 4,
+    total: 32,
+    ...overrides,
+  };
+}
+
+const messages = (rules: PolicyRule[], r = receipt()) =>
+  evaluatePolicy(rules, r, SUBMITTED_AT).map((v) => v.message);
+
+describe('evaluatePolicy', () => {
+  it('caps spending per category in the rule currency', () => {
+    const cap = rule({
+      type: 'category_cap',
+      category: 'meals',
+      max_amount: 30,
+      currency: 'USD',
+    });
+
+    expect(messages([cap])).toEqual([
+      'Spent 32.00 USD on meals; the cap is 30.00 USD',
+    ]);
+    expect(messages([{ ...cap, max_amount: 50 }])).toEqual([]);
+  });
+
+  it('counts only matching items when the receipt is in another category', () => {
+    const cap = rule({
+      type: 'category_cap',
+      category: 'entertainment',
+      max_amount: 5,
+      currency: 'USD',
+    });
+    const r = receipt({
+      receipt_items: [
+        { item_name: 'Burger', item_cost: 18, category: 'meals' },
+        { item_name: 'Bowling', item_cost: 7, category: 'entertainment' },
+      ],
+    });
+
+    expect(messages([cap], r)).toEqual([
+      'Spent 7.00 USD on entertainment; the cap is 5.00 USD',
+    ]);
+  });
+
+  it('converts through base amounts and skips receipts it cannot convert', () => {
+    const cap = rule({
+      type: 'category_cap',
+      category: 'meals',
+      max_amount: 30,
+      currency: 'USD',
+    });
+    const euros = receipt({ currency: 'EUR', total: 30 });
+
+    expect(messages([cap], euros)).toEqual([]);
+    expect(
+      messages([cap], {
+        ...euros,
+        base_amounts: {
+          currency: 'USD',
+          rate: 1.1,
+          rate_date: '2024-03-13',
+          total: 33,
+          tax: 2.2,
+        },
+      }),
+    ).toEqual(['Spent 33.00 USD on meals; the cap is 30.00 USD']);
+  });
+
+  it('limits the tip as a share of the pre-tip amount', () => {
+    const tip = rule({ type: 'max_tip_percent', max_percent: 15 });
+
+    expect(messages([tip])).toEqual([
+      'Tip is 15.4% of the bill; the maximum is 15%',
+    ]);
+    expect(messages([tip], receipt({ tip: 3.9 }))).toEqual([]);
+    expect(messages([tip], receipt({ tip: undefined }))).toEqual([]);
+  });
+
+  it('flags prohibited items, alcohol by default', () => {
+    expect(
+      evaluatePolicy(
+        [rule({ type: 'prohibited_items' })],
+        receipt(),
+        SUBMITTED_AT,
+      ),
+    ).toMatchObject([
+      { field: 'receipt_items[1]', message: "Item 'Craft IPA' is not allowed" },
+    ]);
+    expect(
+      messages([rule({ type: 'prohibited_items', pattern: 'burger' })]),
+    ).toEqual(["Item 'Burger' is not allowed"]);
+    // Stored before patterns were checked; never compiled
+    expect(
+      messages([rule({ type: 'prohibited_items', pattern: '(b\\w+)+' })]),
+    ).toEqual([]);
+  });
+
+  it('requires a justification for weekend purchases', () => {
+    const weekend = rule({ type: 'weekend_justification' });
+
+    expect(messages([weekend])).toEqual([]);
+    expect(messages([weekend], receipt({ date: '2024-03-16' }))).toEqual([
+      'Weekend purchase on 2024-03-16 needs a justification',
+    ]);
+    expect(
+      messages(
+        [weekend],
+        receipt({ date: '2024-03-17', justification: 'Trade show' }),
+      ),
+    ).toEqual([]);
+  });
+
+  it('blocks vendors by normalized name', () => {
+    const blocked = rule({
+      type: 'blocked_vendors',
+      vendors: ['CORNER BISTRO.', 'Casino Royale'],
+    });
+
+    expect(messages([blocked])).toEqual(["Vendor 'Corner Bistro' is blocked"]);
+  });
+
+  it('flags receipts submitted too long after the purchase', () => {
+    const age = rule({ type: 'max_age', max_age_days: 30 });
+
+    expect(messages([age])).toEqual([]);
+    expect(messages([age], receipt({ date: '2024-01-15' }))).toEqual([
+      'Receipt is 65 days old; receipts must be submitted within 30 days',
+    ]);
+  });
+
+  it('skips disabled rules and stamps violations with the rule', () => {
+    const violations = evaluatePolicy(
+      [
+        rule({
+          id: 'a',
+          name: 'Weekends',
+          severity: 'info',
+          enabled: false,
+        }),
+        rule({
+          id: 'b',
+          name: 'Bar tabs',
+          type: 'prohibited_items',
+          severity: 'critical',
+        }),
+      ],
+      receipt({ date: '2024-03-16' }),
+      SUBMITTED_AT,
+    );
+
+    expect(violations).toEqual([
+      {
+        rule_id: 'b',
+        rule_name: 'Bar tabs',
+        type: 'prohibited_items',
+        severity: 'critical',
+        field: 'receipt_items[1]',
+        message: "Item 'Craft IPA' is not allowed",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import { ReceiptResponse } from '../receipt/dto/receipt-response.dto';
+import { regexPatternProblem } from '../common/regex-pattern';
+import { normalizeVendorName } from '../receipt/vendors/vendor-name';
+import { PolicyRule, PolicyViolation } from './interfaces/policy.interface';
+
+// Used by prohibited_items rules without a pattern
+export const ALCOHOL_ITEM_PATTERN =
+  '\\b(beer|wine|vodka|whiske?y|bourbon|scotch|rum|gin|tequila|mezcal|champagne|prosecco|cava|cider|lager|ale|ipa|stout|liquor|spirits|sake|cocktail|margarita|sangria|mimosa)s?\\b';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PolicyReceipt = Pick<
+  ReceiptResponse,
+  | 'date'
+  | 'currency'
+  | 'vendor_name'
+  | 'receipt_items'
+  | 'tax'
+  | 'total'
+  | 'subtotal'
+  | 'tip'
+  | 'service_charge'
+  | 'category'
+  | 'base_amounts'
+  | 'justification'
+>;
+
+const money = (amount: number, currency: string) =>
+  `${amount.toFixed(2)} ${currency}`;
+
+type RuleCheck = (
+  rule: PolicyRule,
+  receipt: PolicyReceipt,
+  submittedAt: Date,
+) => Omit<PolicyViolation, 'rule_id' | 'rule_name' | 'type' | 'severity'>[];
+
+const CHECKS: Record<PolicyRule['type'], RuleCheck> = {
+  // Spend is the whole receipt when it is in the category, otherwise the
+  // items that are. Receipts in other currencies are compared through
+  // base_amounts, and skipped when there is no rate.
+  category_cap: (rule, receipt) => {
+    const spent =
+      receipt.category === rule.category
+        ? receipt.total
+        : receipt.receipt_items
+            .filter((item) => item.category === rule.category)
+            .reduce((sum, item) => sum + item.item_cost, 0);
+    let converted: number;
+    if (receipt.currency === rule.currency) {
+      converted = spent;
+    } else if (receipt.base_amounts?.currency === rule.currency) {
+      converted = spent * receipt.base_amounts.rate;
+    } else {
+      return [];
+    }
+    if (converted <= rule.max_amount + 0.005) {
+      return [];
+    }
+    return [
+      {
+        field: 'total',
+        message: `Spent ${money(converted, rule.currency)} on ${rule.category}; the cap is ${money(rule.max_amount, rule.currency)}`,
+      },
+    ];
+  },
+
+  max_tip_percent: (rule, receipt) => {
+    if (!receipt.tip || receipt.tip <= 0) {
+      return [];
+    }
+    const base =
+      receipt.subtotal ??
+      receipt.total - receipt.tip - receipt.tax - (receipt.service_charge ?? 0);
+    const percent = base > 0 ? (receipt.tip / base) * 100 : Infinity;
+    if (percent <= rule.max_percent + 1e-9) {
+      return [];
+    }
+    return [
+      {
+        field: 'tip',
+        message: `Tip is ${percent.toFixed(1)}% of the bill; the maximum is ${rule.max_percent}%`,
+      },
+    ];
+  },
+
+  prohibited_items: (rule, receipt) => {
+    // Patterns stored before they were checked for backtracking never run
+    if (rule.pattern !== undefined && regexPatternProblem(rule.pattern)) {
+      return [];
+    }
+    const pattern = new RegExp(rule.pattern ?? ALCOHOL_ITEM_PATTERN, 'i');
+    return receipt.receipt_items.flatMap((item, index) =>
+      pattern.test(item.item_name)
+        ? [
+            {
+              field: `receipt_items[${index}]`,
+              message: `Item '${item.item_name}' is not allowed`,
+            },
+          ]
+        : [],
+    );
+  },
+
+  weekend_justification: (rule, receipt) => {
+    const day = new Date(`${receipt.date}T00:00:00Z`).getUTCDay();
+    if ((day !== 0 && day !== 6) || receipt.justification?.trim()) {
+      return [];
+    }
+    return [
+      {
+        field: 'justification',
+        message: `Weekend purchase on ${receipt.date} needs a justification`,
+      },
+    ];
+  },
+
+  blocked_vendors: (rule, receipt) => {
+    const vendor = normalizeVendorName(receipt.vendor_name);
+    const blocked = rule.vendors.some(
+      (name) => normalizeVendorName(name) === vendor,
+    );
+    return blocked
+      ? [
+          {
+            field: 'vendor_name',
+            message: `Vendor '${receipt.vendor_name}' is blocked`,
+          },
+        ]
+      : [];
+  },
+
+  max_age: (rule, receipt, submittedAt) => {
+    const age = Math.floor(
+      (submittedAt.getTime() - Date.parse(`${receipt.date}T00:00:00Z`)) /
+        DAY_MS,
+    );
+    if (!(age > rule.max_age_days)) {
+      return [];
+    }
+    return [
+      {
+        field: 'date',
+        message: `Receipt is ${age} days old; receipts must be submitted within ${rule.max_age_days} days`,
+      },
+    ];
+  },
+};
+
+/**
+ * Checks a receipt against expense policy rules. Age is measured at
+ * submission, so re-evaluating an old receipt gives the same answer it got
+ * when it was uploaded.
+ */
+export function evaluatePolicy(
+  rules: PolicyRule[],
+  receipt: PolicyReceipt,
+  submittedAt: Date,
+): PolicyViolation[] {
+  return rules
+    .filter((rule) => rule.enabled)
+    .flatMap((rule) =>
+      CHECKS[rule.type](rule, receipt, submittedAt).map((violation) => ({
+        rule_id: rule.id,
+        rule_name: rule.name,
+        type: rule.type,
+        severity: rule.severity,
+        ...violation,
+      })),
+    );
+}
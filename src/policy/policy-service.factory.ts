@@ -0,0 +1,23 @@
+import { FactoryProvider } from '@nestjs/common';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import { resolveDataPath } from '../common/persistence/data-dir';
+import { CategorizationService } from '../categorization/categorization.service';
+import { PolicyService, PolicyState } from './policy.service';
+
+export function createPolicyService(
+  categorizationService: CategorizationService,
+): PolicyService {
+  return new PolicyService(
+    new JsonFileStore<PolicyState>(resolveDataPath('policies.json'), () => ({
+      rules: [],
+    })),
+    categorizationService,
+  );
+}
+
+export const policyService: FactoryProvider<PolicyService> = {
+  provide: PolicyService,
+  useFactory: (categorizationService: CategorizationService) =>
+    createPolicyService(categorizationService),
+  inject: [CategorizationService],
+};
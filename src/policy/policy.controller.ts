@@ -0,0 +1,51 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { PolicyService } from './policy.service';
+import { PolicyRuleDto } from './dto/policy-rule.dto';
+import { PolicyRule } from './interfaces/policy.interface';
+import { CurrentTenant } from '../auth/decorators/auth.decorators';
+
+@Controller('policies')
+export class PolicyController {
+  constructor(private readonly policyService: PolicyService) {}
+
+  @Get('rules')
+  listRules(@CurrentTenant() tenantId: string): Promise<PolicyRule[]> {
+    return this.policyService.listRules(tenantId);
+  }
+
+  @Post('rules')
+  addRule(
+    @CurrentTenant() tenantId: string,
+    @Body() rule: PolicyRuleDto,
+  ): Promise<PolicyRule> {
+    return this.policyService.addRule(tenantId, rule);
+  }
+
+  @Put('rules/:id')
+  replaceRule(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Body() rule: PolicyRuleDto,
+  ): Promise<PolicyRule> {
+    return this.policyService.replaceRule(tenantId, id, rule);
+  }
+
+  @Delete('rules/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  deleteRule(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<void> {
+    return this.policyService.deleteRule(tenantId, id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CategorizationModule } from '../categorization/categorization.module';
+import { PolicyController } from './policy.controller';
+import { policyService } from './policy-service.factory';
+import { PolicyService } from './policy.service';
+
+@Module({
+  imports: [CategorizationModule],
+  controllers: [PolicyController],
+  providers: [policyService],
+  exports: [PolicyService],
+})
+export class PolicyModule {}
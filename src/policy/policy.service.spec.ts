@@ -0,0 +1,154 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import { CategorizationService } from '../categorization/categorization.service';
+import { DEFAULT_TAXONOMY } from '../categorization/default-taxonomy';
+import { PolicyService, PolicyState } from './policy.service';
+
+describe('PolicyService', () => {
+  let dataDir: string;
+  let filePath: string;
+  let policies: PolicyService;
+
+  const categorization = {
+    getTaxonomy: async () => DEFAULT_TAXONOMY,
+  } as unknown as CategorizationService;
+
+  const open = () =>
+    new PolicyService(
+      new JsonFileStore<PolicyState>(filePath, () => ({ rules: [] })),
+      categorization,
+    );
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'policies-'));
+    filePath = path.join(dataDir, 'policies.json');
+    policies = open();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('stores rules per tenant with defaults and only their parameters', async () => {
+    const created = await policies.addRule('acme', {
+      name: 'Tips',
+      type: 'max_tip_percent',
+      max_percent: 20,
+      vendors: ['ignored'],
+    });
+
+    expect(created).toMatchObject({
+      tenant_id: 'acme',
+      name: 'Tips',
+      type: 'max_tip_percent',
+      severity: 'warning',
+      enabled: true,
+      max_percent: 20,
+    });
+    expect(created).not.toHaveProperty('vendors');
+    expect(await open().listRules('acme')).toEqual([created]);
+    expect(await policies.listRules('globex')).toEqual([]);
+  });
+
+  it('replaces and deletes rules of the caller only', async () => {
+    const created = await policies.addRule('acme', {
+      name: 'Old receipts',
+      type: 'max_age',
+      max_age_days: 90,
+    });
+
+    const replaced = await policies.replaceRule('acme', created.id, {
+      name: 'Old receipts',
+      type: 'max_age',
+      max_age_days: 60,
+      severity: 'critical',
+    });
+    expect(replaced).toMatchObject({
+      id: created.id,
+      created_at: created.created_at,
+      max_age_days: 60,
+      severity: 'critical',
+    });
+
+    await expect(
+      policies.replaceRule('globex', created.id, {
+        name: 'x',
+        type: 'weekend_justification',
+      }),
+    ).rejects.toThrow(NotFoundException);
+    await expect(policies.deleteRule('globex', created.id)).rejects.toThrow(
+      NotFoundException,
+    );
+    await policies.deleteRule('acme', created.id);
+    expect(await policies.listRules('acme')).toEqual([]);
+  });
+
+  it('reports every invalid rule at once', async () => {
+    expect.assertions(2);
+    try {
+      await policies.buildRules('acme', [
+        { name: 'Bad pattern', type: 'prohibited_items', pattern: '(' },
+        {
+          name: 'Yachts',
+          type: 'category_cap',
+          category: 'yachts',
+          max_amount: 10,
+          currency: 'USD',
+        },
+      ]);
+    } catch (error) {
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(error.getResponse().message).toEqual([
+        "Rule 'Bad pattern': pattern '(' is not a valid regular expression",
+        "Rule 'Yachts': unknown category 'yachts'",
+      ]);
+    }
+  });
+
+  it('rejects patterns that can backtrack catastrophically', async () => {
+    await expect(
+      policies.addRule('acme', {
+        name: 'No runs of a',
+        type: 'prohibited_items',
+        pattern: '(a+)+$',
+      }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      policies.buildRules('acme', [
+        { name: 'Many', type: 'prohibited_items', pattern: '.*a.*b.*c.*d' },
+      ]),
+    ).rejects.toMatchObject({
+      response: {
+        message: [
+          "Rule 'Many': pattern '.*a.*b.*c.*d' has more than 3 repetitions",
+        ],
+      },
+    });
+    expect(await policies.listRules('acme')).toEqual([]);
+  });
+
+  it('evaluates receipts against the tenant rules', async () => {
+    await policies.addRule('acme', {
+      name: 'Weekends',
+      type: 'weekend_justification',
+    });
+    const saturday = {
+      date: '2024-03-16',
+      currency: 'USD',
+      vendor_name: 'Shop',
+      receipt_items: [],
+      tax: 0,
+      total: 5,
+    };
+
+    expect((await policies.evaluate('acme', saturday)).violations).toHaveLength(
+      1,
+    );
+    expect((await policies.evaluate('globex', saturday)).violations).toEqual(
+      [],
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import { regexPatternProblem } from '../common/regex-pattern';
+import { CategorizationService } from '../categorization/categorization.service';
+import { PolicyRuleDto } from './dto/policy-rule.dto';
+import { PolicyReceipt, evaluatePolicy } from './policy-engine';
+import {
+  PolicyEvaluation,
+  PolicyRule,
+  PolicyRuleType,
+} from './interfaces/policy.interface';
+
+export interface PolicyState {
+  rules: PolicyRule[];
+}
+
+// Parameters each rule type reads; anything else sent with a rule is dropped
+const RULE_PARAMETERS: Record<PolicyRuleType, (keyof PolicyRuleDto)[]> = {
+  category_cap: ['category', 'max_amount', 'currency'],
+  max_tip_percent: ['max_percent'],
+  prohibited_items: ['pattern'],
+  weekend_justification: [],
+  blocked_vendors: ['vendors'],
+  max_age: ['max_age_days'],
+};
+
+/**
+ * Keeps each tenant's expense policy, a list of declarative rules, and
+ * evaluates receipts against it.
+ */
+export class PolicyService {
+  constructor(
+    private readonly store: JsonFileStore<PolicyState>,
+    private readonly categorizationService: CategorizationService,
+  ) {}
+
+  async listRules(tenantId: string): Promise<PolicyRule[]> {
+    const { rules } = await this.store.read();
+    return structuredClone(rules.filter((rule) => rule.tenant_id === tenantId));
+  }
+
+  async addRule(tenantId: string, dto: PolicyRuleDto): Promise<PolicyRule> {
+    const [rule] = await this.buildRules(tenantId, [dto]);
+    await this.store.update((state) => {
+      state.rules.push(rule);
+    });
+    return structuredClone(rule);
+  }
+
+  // Replaces a rule's definition, keeping its ID
+  async replaceRule(
+    tenantId: string,
+    id: string,
+    dto: PolicyRuleDto,
+  ): Promise<PolicyRule> {
+    const [replacement] = await this.buildRules(tenantId, [dto]);
+    return this.store.update((state) => {
+      const index = state.rules.findIndex(
+        (rule) => rule.id === id && rule.tenant_id === tenantId,
+      );
+      if (index < 0) {
+        throw new NotFoundException(`Policy rule with ID '${id}' not found`);
+      }
+      state.rules[index] = {
+        ...replacement,
+        id,
+        created_at: state.rules[index].created_at,
+      };
+      return structuredClone(state.rules[index]);
+    });
+  }
+
+  async deleteRule(tenantId: string, id: string): Promise<void> {
+    const deleted = await this.store.update((state) => {
+      const remaining = state.rules.filter(
+        (rule) => !(rule.id === id && rule.tenant_id === tenantId),
+      );
+      const found = remaining.length !== state.rules.length;
+      state.rules = remaining;
+      return found;
+    });
+    if (!deleted) {
+      throw new NotFoundException(`Policy rule with ID '${id}' not found`);
+    }
+  }
+
+  /**
+   * Validates rule definitions and turns them into rules without storing
+   * them, e.g. for a dry run. Every problem is reported at once.
+   */
+  async buildRules(
+    tenantId: string,
+    dtos: PolicyRuleDto[],
+  ): Promise<PolicyRule[]> {
+    const taxonomy = new Set(
+      (await this.categorizationService.getTaxonomy()).map((c) => c.id),
+    );
+    const errors: string[] = [];
+    const rules = dtos.map((dto): PolicyRule => {
+      const problem =
+        dto.pattern !== undefined && regexPatternProblem(dto.pattern);
+      if (problem) {
+        errors.push(`Rule '${dto.name}': pattern '${dto.pattern}' ${problem}`);
+      }
+      if (dto.type === 'category_cap' && !taxonomy.has(dto.category)) {
+        errors.push(`Rule '${dto.name}': unknown category '${dto.category}'`);
+      }
+      const rule: PolicyRule = {
+        id: uuidv4(),
+        tenant_id: tenantId,
+        name: dto.name,
+        type: dto.type,
+        severity: dto.severity ?? 'warning',
+        enabled: dto.enabled ?? true,
+        created_at: new Date().toISOString(),
+      };
+      for (const parameter of RULE_PARAMETERS[dto.type]) {
+        if (dto[parameter] !== undefined) {
+          Object.assign(rule, { [parameter]: dto[parameter] });
+        }
+      }
+      return rule;
+    });
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+    return rules;
+  }
+
+  async evaluate(
+    tenantId: string,
+    receipt: PolicyReceipt,
+    submittedAt = new Date(),
+  ): Promise<PolicyEvaluation> {
+    return {
+      violations: evaluatePolicy(
+        await this.listRules(tenantId),
+        receipt,
+        submittedAt,
+      ),
+      evaluated_at: new Date().toISOString(),
+    };
+  }
+}
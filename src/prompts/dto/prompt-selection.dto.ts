@@ -0,0 +1,15 @@
+import { IsOptional, IsString } from 'class-validator';
+
+export class SelectPromptVersionDto {
+  // null or omitted returns the tenant to the default version
+  @IsOptional()
+  @IsString()
+  version?: string | null;
+}
+
+// Per-request override of the tenant's prompt version
+export class PromptVersionQueryDto {
+  @IsOptional()
+  @IsString()
+  prompt_version?: string;
+}
@@ -0,0 +1,34 @@
+/**
+ * One version of the extraction prompt, checked in under PROMPT_TEMPLATES_DIR.
+ * Versions are never edited once receipts reference them; changes go into a
+ * new version.
+ */
+export interface PromptTemplate {
+  version: string;
+  description?: string;
+  // Model the provider is asked to use, e.g. "gemini-1.5-flash"
+  model: string;
+  temperature: number;
+  // JSON layout shown to the model, with a description or example per field;
+  // without it the prompt outlines the response schema instead
+  output_schema?: Record<string, unknown>;
+  // Numbered rules; {{categories}} is replaced with the taxonomy ids
+  instructions: string[];
+  // Regional conventions, e.g. day-first dates or decimal commas
+  locale_hints: string[];
+}
+
+export interface PromptTemplateSummary {
+  version: string;
+  description?: string;
+  model: string;
+  temperature: number;
+}
+
+export interface PromptSelection {
+  // Used when neither the request nor the tenant picks a version
+  default_version: string;
+  // Set when the tenant overrides the default
+  tenant_version: string | null;
+  templates: PromptTemplateSummary[];
+}
@@ -0,0 +1,50 @@
+import { PromptTemplate } from './interfaces/prompt-template.interface';
+import { SchemaObject } from '../common/schema/json-schema';
+
+export interface PromptContext {
+  // Taxonomy category ids the model must choose from
+  categories: string[];
+  // Response schema, outlined for templates without an output_schema
+  schema: SchemaObject;
+}
+
+// Example layout of a schema with each field's type and description
+function outline(schema: SchemaObject): unknown {
+  if (schema.type === 'object') {
+    return Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [
+        key,
+        outline(property),
+      ]),
+    );
+  }
+  if (schema.type === 'array') {
+    return [outline(schema.items)];
+  }
+  const type = schema.nullable ? `${schema.type} or null` : schema.type;
+  return schema.description ? `${type}: ${schema.description}` : type;
+}
+
+// Builds the text sent to the model from a template
+export function renderPrompt(
+  template: PromptTemplate,
+  context: PromptContext,
+): string {
+  const fill = (text: string) =>
+    text.replace(/\{\{categories\}\}/g, context.categories.join(', '));
+  const numbered = (lines: string[]) =>
+    lines.map((line, index) => `${index + 1}. ${fill(line)}`).join('\n');
+
+  const sections = [
+    'Analyze this receipt image or document and extract the following information in JSON format:',
+    JSON.stringify(template.output_schema ?? outline(context.schema), null, 2),
+    `Please ensure:\n${numbered(template.instructions)}`,
+  ];
+  if (template.locale_hints.length > 0) {
+    sections.push(
+      `Regional conventions to expect:\n${numbered(template.locale_hints)}`,
+    );
+  }
+  sections.push('Return only the JSON object, no additional text.');
+  return sections.join('\n\n');
+}
@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PromptTemplate } from './interfaces/prompt-template.interface';
+
+const isStringList = (value: unknown) =>
+  Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+
+function validateTemplate(fileName: string, value: any): PromptTemplate {
+  const errors: string[] = [];
+  for (const field of ['version', 'model']) {
+    if (typeof value?.[field] !== 'string' || !value[field]) {
+      errors.push(`${field} must be a non-empty string`);
+    }
+  }
+  if (typeof value?.temperature !== 'number') {
+    errors.push('temperature must be a number');
+  }
+  if (
+    value?.output_schema !== undefined &&
+    (!value.output_schema ||
+      typeof value.output_schema !== 'object' ||
+      Array.isArray(value.output_schema))
+  ) {
+    errors.push('output_schema must be an object');
+  }
+  if (!isStringList(value?.instructions)) {
+    errors.push('instructions must be a list of strings');
+  }
+  if (value?.locale_hints !== undefined && !isStringList(value.locale_hints)) {
+    errors.push('locale_hints must be a list of strings');
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid prompt template ${fileName}: ${errors.join('; ')}`,
+    );
+  }
+  return { ...value, locale_hints: value.locale_hints ?? [] };
+}
+
+/**
+ * Reads every `*.json` template in the directory, ordered by version with
+ * numbers compared numerically (v2 before v10). A broken template stops
+ * startup rather than being skipped.
+ */
+export async function loadPromptTemplates(
+  dir: string,
+): Promise<PromptTemplate[]> {
+  const fileNames = (await fs.readdir(dir)).filter((name) =>
+    name.endsWith('.json'),
+  );
+  const templates: PromptTemplate[] = [];
+  for (const fileName of fileNames) {
+    const text = await fs.readFile(path.join(dir, fileName), 'utf8');
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      throw new Error(`Invalid prompt template ${fileName}: not valid JSON`);
+    }
+    const template = validateTemplate(fileName, value);
+    if (templates.some((t) => t.version === template.version)) {
+      throw new Error(
+        `Prompt template version '${template.version}' is defined twice`,
+      );
+    }
+    templates.push(template);
+  }
+  if (templates.length === 0) {
+    throw new Error(`No prompt templates found in ${dir}`);
+  }
+  return templates.sort((a, b) =>
+    a.version.localeCompare(b.version, undefined, { numeric: true }),
+  );
+}
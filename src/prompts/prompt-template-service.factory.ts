@@ -0,0 +1,33 @@
+import { FactoryProvider } from '@nestjs/common';
+import * as path from 'path';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import { resolveDataPath } from '../common/persistence/data-dir';
+import { loadPromptTemplates } from './prompt-template-loader';
+import {
+  PromptSettingsState,
+  PromptTemplateService,
+} from './prompt-template.service';
+
+export async function createPromptTemplateService(
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<PromptTemplateService> {
+  const templates = await loadPromptTemplates(
+    env.PROMPT_TEMPLATES_DIR || path.join(process.cwd(), 'prompts'),
+  );
+  return new PromptTemplateService(
+    new JsonFileStore<PromptSettingsState>(
+      resolveDataPath('prompt-settings.json'),
+      () => ({ tenant_versions: {} }),
+    ),
+    templates,
+    // Defaults to the newest version
+    env.PROMPT_TEMPLATE_VERSION || templates[templates.length - 1].version,
+  );
+}
+
+export const promptTemplateService: FactoryProvider<
+  Promise<PromptTemplateService>
+> = {
+  provide: PromptTemplateService,
+  useFactory: () => createPromptTemplateService(),
+};
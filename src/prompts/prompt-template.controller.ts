@@ -0,0 +1,31 @@
+import { Body, Controller, Get, Param, Put } from '@nestjs/common';
+import { PromptTemplateService } from './prompt-template.service';
+import { SelectPromptVersionDto } from './dto/prompt-selection.dto';
+import {
+  PromptSelection,
+  PromptTemplate,
+} from './interfaces/prompt-template.interface';
+import { CurrentTenant } from '../auth/decorators/auth.decorators';
+
+@Controller('prompts')
+export class PromptTemplateController {
+  constructor(private readonly promptTemplates: PromptTemplateService) {}
+
+  @Get()
+  getSelection(@CurrentTenant() tenantId: string): Promise<PromptSelection> {
+    return this.promptTemplates.getSelection(tenantId);
+  }
+
+  @Put('selection')
+  selectVersion(
+    @CurrentTenant() tenantId: string,
+    @Body() body: SelectPromptVersionDto,
+  ): Promise<PromptSelection> {
+    return this.promptTemplates.selectVersion(tenantId, body.version ?? null);
+  }
+
+  @Get(':version')
+  getTemplate(@Param('version') version: string): PromptTemplate {
+    return this.promptTemplates.get(version);
+  }
+}
@@ -0,0 +1,193 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import { loadPromptTemplates } from './prompt-template-loader';
+import { renderPrompt } from './prompt-renderer';
+import {
+  PromptSettingsState,
+  PromptTemplateService,
+} from './prompt-template.service';
+import { PromptTemplate } from './interfaces/prompt-template.interface';
+import { SchemaObject } from '../common/schema/json-schema';
+
+const template = (version: string, model = 'gemini-test'): PromptTemplate => ({
+  version,
+  model,
+  temperature: 0,
+  output_schema: { total: 'number' },
+  instructions: ['Every category is one of: {{categories}}'],
+  locale_hints: [],
+});
+
+describe('PromptTemplateService', () => {
+  let dataDir: string;
+  let service: PromptTemplateService;
+
+  const open = (templates: PromptTemplate[], defaultVersion: string) =>
+    new PromptTemplateService(
+      new JsonFileStore<PromptSettingsState>(
+        path.join(dataDir, 'prompt-settings.json'),
+        () => ({ tenant_versions: {} }),
+      ),
+      templates,
+      defaultVersion,
+    );
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompts-'));
+    service = open([template('v1'), template('v2', 'gemini-next')], 'v1');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('resolves the requested version, then the tenant choice, then the default', async () => {
+    await service.selectVersion('acme', 'v2');
+
+    expect((await service.resolve('acme')).version).toBe('v2');
+    expect((await service.resolve('acme', 'v1')).version).toBe('v1');
+    expect((await service.resolve('globex')).version).toBe('v1');
+    expect((await service.resolve(undefined)).version).toBe('v1');
+    expect(await service.getSelection('acme')).toMatchObject({
+      default_version: 'v1',
+      tenant_version: 'v2',
+      templates: [
+        { version: 'v1', model: 'gemini-test' },
+        { version: 'v2', model: 'gemini-next' },
+      ],
+    });
+  });
+
+  it('returns a tenant to the default when the selection is cleared', async () => {
+    await service.selectVersion('acme', 'v2');
+    const selection = await service.selectVersion('acme', null);
+
+    expect(selection.tenant_version).toBeNull();
+    expect((await service.resolve('acme')).version).toBe('v1');
+  });
+
+  it('falls back to the default when a selected version is no longer shipped', async () => {
+    await service.selectVersion('acme', 'v2');
+    const reopened = open([template('v1')], 'v1');
+
+    expect((await reopened.resolve('acme')).version).toBe('v1');
+  });
+
+  it('rejects unknown versions', async () => {
+    await expect(service.selectVersion('acme', 'v9')).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.resolve('acme', 'v9')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(() => service.get('v9')).toThrow(NotFoundException);
+    expect(() => open([template('v1')], 'v9')).toThrow(
+      "Unknown PROMPT_TEMPLATE_VERSION 'v9'",
+    );
+  });
+});
+
+describe('loadPromptTemplates', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompt-templates-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const write = (name: string, value: unknown) =>
+    fs.writeFile(path.join(dir, name), JSON.stringify(value));
+
+  it('orders versions numerically and defaults locale hints', async () => {
+    const { locale_hints, ...withoutHints } = template('v10');
+    await write('b.json', withoutHints);
+    await write('a.json', { ...template('v2'), locale_hints });
+    await fs.writeFile(path.join(dir, 'notes.md'), 'ignored');
+
+    const templates = await loadPromptTemplates(dir);
+
+    expect(templates.map((t) => t.version)).toEqual(['v2', 'v10']);
+    expect(templates[1].locale_hints).toEqual([]);
+  });
+
+  it('rejects invalid and duplicate templates', async () => {
+    await write('a.json', { ...template('v1'), temperature: 'warm' });
+    await expect(loadPromptTemplates(dir)).rejects.toThrow(
+      'Invalid prompt template a.json: temperature must be a number',
+    );
+
+    await write('a.json', template('v1'));
+    await write('b.json', template('v1'));
+    await expect(loadPromptTemplates(dir)).rejects.toThrow('defined twice');
+  });
+
+  it('loads the checked-in templates', async () => {
+    const templates = await loadPromptTemplates(
+      path.join(__dirname, '../../prompts'),
+    );
+
+    expect(templates.map((t) => t.version)).toContain('v1');
+  });
+});
+
+describe('renderPrompt', () => {
+  const schema: SchemaObject = {
+    type: 'object',
+    properties: {
+      total: { type: 'number', description: 'Final amount paid' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { name: { type: 'string', nullable: true } },
+        },
+      },
+    },
+  };
+
+  it('numbers instructions, fills categories and adds locale hints', () => {
+    const prompt = renderPrompt(
+      { ...template('v1'), locale_hints: ['Dates are written day first'] },
+      { categories: ['meals', 'travel'], schema },
+    );
+
+    expect(prompt).toContain('"total": "number"');
+    expect(prompt).toContain('1. Every category is one of: meals, travel');
+    expect(prompt).toContain(
+      'Regional conventions to expect:\n1. Dates are written day first',
+    );
+    expect(prompt).toMatch(
+      /Return only the JSON object, no additional text\.$/,
+    );
+  });
+
+  it('leaves out the locale section when there are no hints', () => {
+    const prompt = renderPrompt(template('v1'), { categories: [], schema });
+
+    expect(prompt).not.toContain('Regional conventions');
+  });
+
+  it('outlines the response schema for templates without an output_schema', () => {
+    const prompt = renderPrompt(
+      { ...template('v2'), output_schema: undefined },
+      { categories: [], schema },
+    );
+
+    expect(prompt).toContain(
+      JSON.stringify(
+        {
+          total: 'number: Final amount paid',
+          items: [{ name: 'string or null' }],
+        },
+        null,
+        2,
+      ),
+    );
+  });
+});
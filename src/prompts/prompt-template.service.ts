@@ -0,0 +1,98 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import {
+  PromptSelection,
+  PromptTemplate,
+} from './interfaces/prompt-template.interface';
+
+export interface PromptSettingsState {
+  // Template version per tenant ID, for tenants that override the default
+  tenant_versions: Record<string, string>;
+}
+
+/**
+ * Serves the checked-in prompt templates and decides which one an
+ * extraction uses: the version asked for in the request, else the tenant's
+ * choice, else the default.
+ */
+export class PromptTemplateService {
+  private readonly templates: Map<string, PromptTemplate>;
+
+  constructor(
+    private readonly store: JsonFileStore<PromptSettingsState>,
+    templates: PromptTemplate[],
+    private readonly defaultVersion: string,
+  ) {
+    this.templates = new Map(templates.map((t) => [t.version, t]));
+    if (!this.templates.has(defaultVersion)) {
+      throw new Error(`Unknown PROMPT_TEMPLATE_VERSION '${defaultVersion}'`);
+    }
+  }
+
+  async getSelection(tenantId: string): Promise<PromptSelection> {
+    const { tenant_versions } = await this.store.read();
+    return {
+      default_version: this.defaultVersion,
+      tenant_version: tenant_versions[tenantId] ?? null,
+      templates: [...this.templates.values()].map(
+        ({ version, description, model, temperature }) => ({
+          version,
+          description,
+          model,
+          temperature,
+        }),
+      ),
+    };
+  }
+
+  get(version: string): PromptTemplate {
+    const template = this.templates.get(version);
+    if (!template) {
+      throw new NotFoundException(`Prompt template '${version}' not found`);
+    }
+    return structuredClone(template);
+  }
+
+  // Passing null returns the tenant to the default version
+  async selectVersion(
+    tenantId: string,
+    version: string | null,
+  ): Promise<PromptSelection> {
+    if (version) {
+      this.assertVersion(version);
+    }
+    await this.store.update((state) => {
+      if (version) {
+        state.tenant_versions[tenantId] = version;
+      } else {
+        delete state.tenant_versions[tenantId];
+      }
+    });
+    return this.getSelection(tenantId);
+  }
+
+  // A version named in a request must exist; unlike lookups, that is a 400
+  assertVersion(version: string): void {
+    if (!this.templates.has(version)) {
+      throw new BadRequestException(`Unknown prompt version '${version}'`);
+    }
+  }
+
+  async resolve(
+    tenantId: string | undefined,
+    requested?: string,
+  ): Promise<PromptTemplate> {
+    if (requested) {
+      this.assertVersion(requested);
+      return this.get(requested);
+    }
+    const { tenant_versions } = await this.store.read();
+    const tenantVersion = tenantId && tenant_versions[tenantId];
+    // A tenant's version may have been removed from the templates directory
+    return this.get(
+      tenantVersion && this.templates.has(tenantVersion)
+        ? tenantVersion
+        : this.defaultVersion,
+    );
+  }
+}
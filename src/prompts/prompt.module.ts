@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PromptTemplateController } from './prompt-template.controller';
+import { promptTemplateService } from './prompt-template-service.factory';
+import { PromptTemplateService } from './prompt-template.service';
+
+@Module({
+  controllers: [PromptTemplateController],
+  providers: [promptTemplateService],
+  exports: [PromptTemplateService],
+})
+export class PromptModule {}
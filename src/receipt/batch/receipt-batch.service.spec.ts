@@ -0,0 +1,135 @@
+import * as AdmZip from 'adm-zip';
+import { BadRequestException } from '@nestjs/common';
+import { ReceiptBatchService } from './receipt-batch.service';
+import { ReceiptService } from '../receipt.service';
+import { AppException } from '../../common/errors/app-exception';
+
+describe('ReceiptBatchService', () => {
+  let receiptService: { extractReceiptDetails: jest.Mock };
+  let service: ReceiptBatchService;
+
+  const upload = (
+    originalname: string,
+    mimetype: string,
+    buffer = Buffer.from(originalname),
+  ) =>
+    ({
+      originalname,
+      mimetype,
+      buffer,
+      size: buffer.length,
+    }) as Express.Multer.File;
+
+  beforeEach(() => {
+    receiptService = {
+      extractReceiptDetails: jest.fn(
+        async (tenantId: string, file: Express.Multer.File) => {
+          if (file.originalname === 'bad.jpg') {
+            throw new AppException('EXTRACTION_INVALID_JSON');
+          }
+          if (file.mimetype === 'text/plain') {
+            throw new BadRequestException('Only images are allowed');
+          }
+          return { id: `id-${file.originalname}` };
+        },
+      ),
+    };
+    service = new ReceiptBatchService(
+      receiptService as unknown as ReceiptService,
+    );
+  });
+
+  it('should report successes and failures per file', async () => {
+    const result = await service.extractBatch('acme', [
+      upload('1.jpg', 'image/jpeg'),
+      upload('bad.jpg', 'image/jpeg'),
+      upload('notes.txt', 'text/plain'),
+    ]);
+
+    expect(result).toMatchObject({ total: 3, succeeded: 1, failed: 2 });
+    expect(result.results).toEqual([
+      {
+        file_name: '1.jpg',
+        status: 'succeeded',
+        receipt: { id: 'id-1.jpg' },
+      },
+      {
+        file_name: 'bad.jpg',
+        status: 'failed',
+        error: {
+          code: 'EXTRACTION_INVALID_JSON',
+          status_code: 502,
+          message: 'AI model returned invalid response format',
+        },
+      },
+      {
+        file_name: 'notes.txt',
+        status: 'failed',
+        error: {
+          code: 'BAD_REQUEST',
+          status_code: 400,
+          message: 'Only images are allowed',
+        },
+      },
+    ]);
+  });
+
+  it('should extract every image inside a zip archive', async () => {
+    const zip = new AdmZip();
+    zip.addFile('receipts/1.jpg', Buffer.from('one'));
+    zip.addFile('receipts/2.png', Buffer.from('two'));
+    zip.addFile('receipts/readme.md', Buffer.from('skip'));
+    zip.addFile('__MACOSX/receipts/._1.jpg', Buffer.from('junk'));
+
+    const result = await service.extractBatch('acme', [
+      upload('scans.zip', 'application/zip', zip.toBuffer()),
+    ]);
+
+    expect(result.results.map((r) => [r.file_name, r.status])).toEqual([
+      ['scans.zip/receipts/1.jpg', 'succeeded'],
+      ['scans.zip/receipts/2.png', 'succeeded'],
+      ['scans.zip/receipts/readme.md', 'failed'],
+    ]);
+    expect(receiptService.extractReceiptDetails).toHaveBeenCalledWith(
+      'acme',
+      expect.objectContaining({
+        originalname: '2.png',
+        mimetype: 'image/png',
+        buffer: Buffer.from('two'),
+      }),
+      undefined,
+    );
+  });
+
+  it('should measure archive entries while inflating, not by their headers', async () => {
+    const zip = new AdmZip();
+    zip.addFile('bomb.jpg', Buffer.alloc(11 * 1024 * 1024));
+    zip.addFile('1.jpg', Buffer.from('one'));
+    // The declared size is the uploader's word and may be a lie
+    zip.getEntry('bomb.jpg').header.size = 10;
+
+    const result = await service.extractBatch('acme', [
+      upload('scans.zip', 'application/zip', zip.toBuffer()),
+    ]);
+
+    expect(result.results.map((r) => [r.file_name, r.status])).toEqual([
+      ['scans.zip/1.jpg', 'succeeded'],
+      ['scans.zip/bomb.jpg', 'failed'],
+    ]);
+    expect(result.results[1].error.code).toBe('FILE_TOO_LARGE');
+    expect(receiptService.extractReceiptDetails).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail unreadable archives without failing the batch', async () => {
+    const result = await service.extractBatch('acme', [
+      upload('broken.zip', 'application/zip', Buffer.from('not a zip')),
+      upload('1.jpg', 'image/jpeg'),
+    ]);
+
+    expect(result.results.map((r) => r.status)).toEqual([
+      'failed',
+      'succeeded',
+    ]);
+    expect(result.results[0].error.message).toBe('Archive could not be read');
+  });
+});
@@ -0,0 +1,218 @@
+import { BadRequestException, HttpException, Injectable } from '@nestjs/common';
+import * as AdmZip from 'adm-zip';
+import * as path from 'path';
+import { inflateRawSync } from 'zlib';
+import { ReceiptService } from '../receipt.service';
+import { unsupportedFileType, mimeTypeForFile } from '../receipt-file-types';
+import { mapWithConcurrency } from '../../common/concurrency';
+import { AppException, toErrorBody } from '../../common/errors/app-exception';
+import {
+  BatchExtractionResult,
+  BatchItemResult,
+} from '../interfaces/batch-extraction.interface';
+import { numberFromEnv } from '../../common/env-number';
+
+export const ZIP_MIME_TYPES = [
+  'application/zip',
+  'application/x-zip-compressed',
+];
+
+// Guards against zip bombs. Sizes are measured while inflating; the sizes an
+// archive declares in its headers are not trusted
+const MAX_ARCHIVE_ENTRIES = 100;
+const MAX_ENTRY_SIZE = 10 * 1024 * 1024;
+const MAX_BATCH_EXTRACTED_SIZE = 200 * 1024 * 1024;
+
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+const ZIP_ENCRYPTED_FLAG = 0x1;
+
+// Archive entries are only inflated when a worker picks them up, so at most
+// EXTRACTION_CONCURRENCY of them are held in memory at once
+type BatchInput =
+  | { fileName: string; file: Express.Multer.File }
+  | { fileName: string; load: () => Express.Multer.File }
+  | { fileName: string; error: HttpException };
+
+// Decompressed bytes a batch may still inflate from its archives
+interface ExtractionBudget {
+  remaining: number;
+}
+
+const tooLarge = () => new AppException('FILE_TOO_LARGE');
+
+function inflateEntry(entry: AdmZip.IZipEntry): Buffer {
+  if (entry.header.flags & ZIP_ENCRYPTED_FLAG) {
+    throw new BadRequestException(
+      'Encrypted archive entries are not supported',
+    );
+  }
+  const compressed = entry.getCompressedData();
+  if (entry.header.method === ZIP_STORED) {
+    return compressed;
+  }
+  if (entry.header.method !== ZIP_DEFLATED) {
+    throw new BadRequestException('Unsupported archive compression method');
+  }
+  try {
+    return inflateRawSync(compressed, { maxOutputLength: MAX_ENTRY_SIZE });
+  } catch (error) {
+    if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+      throw tooLarge();
+    }
+    throw new BadRequestException('Archive entry could not be read');
+  }
+}
+
+function isZip(file: Express.Multer.File): boolean {
+  return (
+    ZIP_MIME_TYPES.includes(file.mimetype) ||
+    path.extname(file.originalname).toLowerCase() === '.zip'
+  );
+}
+
+/**
+ * Extracts many receipts in one request. Each file succeeds or fails on its
+ * own, so one unreadable image does not sink the whole batch.
+ */
+@Injectable()
+export class ReceiptBatchService {
+  private readonly concurrency = Math.floor(
+    numberFromEnv(process.env.EXTRACTION_CONCURRENCY, 2, 1),
+  );
+
+  constructor(private readonly receiptService: ReceiptService) {}
+
+  async extractBatch(
+    tenantId: string,
+    files: Express.Multer.File[],
+    promptVersion?: string,
+  ): Promise<BatchExtractionResult> {
+    const budget: ExtractionBudget = { remaining: MAX_BATCH_EXTRACTED_SIZE };
+    const inputs = files.flatMap((file): BatchInput[] => {
+      if (isZip(file)) {
+        return this.expandArchive(file, budget);
+      }
+      if (file.size > MAX_ENTRY_SIZE) {
+        return [{ fileName: file.originalname, error: tooLarge() }];
+      }
+      return [{ fileName: file.originalname, file }];
+    });
+
+    const results = await mapWithConcurrency(
+      inputs,
+      this.concurrency,
+      (input) => this.extractOne(tenantId, input, promptVersion),
+    );
+
+    const succeeded = results.filter((r) => r.status === 'succeeded').length;
+    return {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    };
+  }
+
+  private async extractOne(
+    tenantId: string,
+    input: BatchInput,
+    promptVersion: string | undefined,
+  ): Promise<BatchItemResult> {
+    if ('error' in input) {
+      return this.failure(input.fileName, input.error);
+    }
+
+    try {
+      const file = 'load' in input ? input.load() : input.file;
+      const receipt = await this.receiptService.extractReceiptDetails(
+        tenantId,
+        file,
+        promptVersion,
+      );
+      return { file_name: input.fileName, status: 'succeeded', receipt };
+    } catch (error) {
+      return this.failure(input.fileName, error);
+    }
+  }
+
+  private failure(fileName: string, error: any): BatchItemResult {
+    return {
+      file_name: fileName,
+      status: 'failed',
+      error: toErrorBody(error),
+    };
+  }
+
+  private expandArchive(
+    archive: Express.Multer.File,
+    budget: ExtractionBudget,
+  ): BatchInput[] {
+    let entries: AdmZip.IZipEntry[];
+    try {
+      entries = new AdmZip(archive.buffer)
+        .getEntries()
+        .filter(
+          (entry) =>
+            !entry.isDirectory &&
+            !entry.entryName.startsWith('__MACOSX/') &&
+            !path.basename(entry.entryName).startsWith('.'),
+        );
+    } catch {
+      return [
+        {
+          fileName: archive.originalname,
+          error: new BadRequestException('Archive could not be read'),
+        },
+      ];
+    }
+
+    if (entries.length > MAX_ARCHIVE_ENTRIES) {
+      return [
+        {
+          fileName: archive.originalname,
+          error: new BadRequestException(
+            `Archive contains more than ${MAX_ARCHIVE_ENTRIES} files`,
+          ),
+        },
+      ];
+    }
+
+    return entries.map((entry): BatchInput => {
+      const entryName = path.basename(entry.entryName);
+      const fileName = `${archive.originalname}/${entry.entryName}`;
+      const mimetype = mimeTypeForFile(entryName);
+
+      if (!mimetype) {
+        return {
+          fileName,
+          error: unsupportedFileType(),
+        };
+      }
+
+      const load = (): Express.Multer.File => {
+        const buffer = inflateEntry(entry);
+        // Stored entries are not limited while inflating
+        if (buffer.length > MAX_ENTRY_SIZE) {
+          throw tooLarge();
+        }
+        budget.remaining -= buffer.length;
+        if (budget.remaining < 0) {
+          throw new AppException(
+            'FILE_TOO_LARGE',
+            `Archives in one batch may not expand to more than ${MAX_BATCH_EXTRACTED_SIZE / (1024 * 1024)}MB`,
+          );
+        }
+        return {
+          fieldname: 'files',
+          originalname: entryName,
+          encoding: '7bit',
+          mimetype,
+          size: buffer.length,
+          buffer,
+        } as Express.Multer.File;
+      };
+      return { fileName, load };
+    });
+  }
+}
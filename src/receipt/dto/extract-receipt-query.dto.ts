@@ -0,0 +1,17 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional, IsUrl } from 'class-validator';
+import { PromptVersionQueryDto } from '../../prompts/dto/prompt-selection.dto';
+
+export class ExtractReceiptQueryDto extends PromptVersionQueryDto {
+  // Return 202 with a job ID instead of waiting for the model
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  async?: boolean;
+
+  // Receives an HMAC-signed callback when an async job finishes; the host is
+  // checked by WebhookNotifier.assertDeliverable
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  webhook_url?: string;
+}
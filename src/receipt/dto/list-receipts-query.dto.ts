@@ -0,0 +1,38 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { ReceiptFilterQueryDto } from './receipt-filter-query.dto';
+
+export const RECEIPT_SORT_FIELDS = [
+  'date',
+  'total',
+  'vendor_name',
+  'created_at',
+] as const;
+export type ReceiptSortField = (typeof RECEIPT_SORT_FIELDS)[number];
+
+export class ListReceiptsQueryDto extends ReceiptFilterQueryDto {
+  @IsOptional()
+  @IsIn(RECEIPT_SORT_FIELDS)
+  sort_by?: ReceiptSortField;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  // Opaque value from a previous page's next_cursor
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export interface ReceiptPage<T> {
+  data: T[];
+  next_cursor: string | null;
+}
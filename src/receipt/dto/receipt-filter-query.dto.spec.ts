@@ -0,0 +1,43 @@
+import 'reflect-metadata';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { ListReceiptsQueryDto } from './list-receipts-query.dto';
+import { ExportReceiptsQueryDto } from '../../exports/dto/export-receipts-query.dto';
+import { AnalyticsQueryDto } from '../../analytics/dto/analytics-query.dto';
+
+const filters = {
+  vendor: 'cafe',
+  vendor_id: 'v-1',
+  currency: 'USD',
+  category: 'meals',
+  date_from: '2024-01-01',
+  date_to: '2024-01-31',
+  review_status: 'approved',
+  min_total: '5',
+  max_total: '50',
+};
+
+describe('ReceiptFilterQueryDto', () => {
+  it.each([ListReceiptsQueryDto, ExportReceiptsQueryDto, AnalyticsQueryDto])(
+    'keeps every receipt filter on %p through the whitelist',
+    async (dto) => {
+      const query = plainToInstance(dto, filters);
+
+      expect(await validate(query, { whitelist: true })).toEqual([]);
+      expect(query).toEqual({
+        ...filters,
+        min_total: 5,
+        max_total: 50,
+      });
+    },
+  );
+
+  it('rejects unknown review statuses', async () => {
+    const errors = await validate(
+      plainToInstance(ExportReceiptsQueryDto, { review_status: 'maybe' }),
+      { whitelist: true },
+    );
+
+    expect(errors.map((error) => error.property)).toEqual(['review_status']);
+  });
+});
@@ -0,0 +1,57 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+} from 'class-validator';
+import {
+  REVIEW_STATUSES,
+  ReviewStatus,
+} from '../interfaces/receipt-review.interface';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Receipt filters shared by listing, exports and analytics
+export class ReceiptFilterQueryDto {
+  // Case-insensitive substring match on vendor_name
+  @IsOptional()
+  @IsString()
+  vendor?: string;
+
+  @IsOptional()
+  @IsString()
+  vendor_id?: string;
+
+  @IsOptional()
+  @Length(3, 3)
+  currency?: string;
+
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @IsOptional()
+  @Matches(ISO_DATE, { message: 'date_from must be YYYY-MM-DD' })
+  date_from?: string;
+
+  @IsOptional()
+  @Matches(ISO_DATE, { message: 'date_to must be YYYY-MM-DD' })
+  date_to?: string;
+
+  @IsOptional()
+  @IsIn(REVIEW_STATUSES)
+  review_status?: ReviewStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  min_total?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  max_total?: number;
+}
@@ -1,15 +1,70 @@
-export interface ReceiptItem {
-  item_name: string;
-  item_cost: number;
+import { ReceiptValidation } from '../interfaces/receipt-validation.interface';
+import { ExtractionAttempt } from '../interfaces/extraction-attempt.interface';
+import { BaseCurrencyAmounts } from '../../currency/interfaces/exchange-rate.interface';
+import { ImagePreprocessing } from '../interfaces/image-preprocessing.interface';
+import { PolicyEvaluation } from '../../policy/interfaces/policy.interface';
+import { ReceiptReview } from '../interfaces/receipt-review.interface';
+import { CategorySource } from '../../categorization/interfaces/category.interface';
+import { WithoutNulls } from '../../common/schema/json-schema';
+import {
+  GeminiPaymentMethod,
+  GeminiReceiptData,
+  GeminiReceiptItem,
+  GeminiTaxLine,
+} from '../interfaces/gemini-receipt.interface';
+
+// Extracted fields as stored, without the nulls models answer for missing
+// ones; their shape comes from RECEIPT_SCHEMA
+export type ReceiptItem = WithoutNulls<GeminiReceiptItem>;
+
+export type TaxLine = WithoutNulls<GeminiTaxLine>;
+
+export type PaymentMethod = WithoutNulls<GeminiPaymentMethod>;
+
+export interface ReceiptMetadata {
+  created_at: string;
+  updated_at: string;
+  // Last time the file was extracted again, replacing the extracted fields
+  reextracted_at?: string;
+  source_file_name: string;
+  mime_type: string;
+  // Pages in the source document; always 1 for images
+  page_count?: number;
+  provider: string;
+  // Prompt template version and the model it selected for this extraction
+  prompt_version?: string;
+  model?: string;
+  // SHA-256 of the uploaded file, used to spot repeat uploads
+  content_hash?: string;
+  extraction_attempts?: ExtractionAttempt[];
+  // Set when a preprocessed image was sent instead of the original
+  preprocessing?: ImagePreprocessing;
 }
 
-export interface ReceiptResponse {
+export interface ReceiptResponse extends WithoutNulls<GeminiReceiptData> {
   id: string;
-  date: string;
-  currency: string;
-  vendor_name: string;
-  receipt_items: ReceiptItem[];
-  tax: number;
-  total: number;
+  // Tenant of the uploader; receipts are only visible within their tenant
+  tenant_id?: string;
+  // Canonical vendor in the registry that vendor_name resolved to
+  vendor_id?: string;
+  category_source?: CategorySource;
+  // Omitted when the rate table has no rate for the receipt's currency and date
+  base_amounts?: BaseCurrencyAmounts;
+  // Key of the uploaded file in receipt storage
+  image_key?: string;
+  // Signed link to the file that expires after FILE_URL_TTL_SECONDS
   image_url: string;
+  // Preprocessed copy that was sent for extraction, stored next to the original
+  processed_image_key?: string;
+  processed_image_url?: string;
+  // Set when DUPLICATE_POLICY=link stored this upload despite a match
+  possible_duplicate_of?: string;
+  // Submitter's reason for a purchase, e.g. for weekend expenses
+  justification?: string;
+  validation?: ReceiptValidation;
+  // Expense policy violations found when the receipt was stored or updated
+  policy?: PolicyEvaluation;
+  // Set when extraction was uncertain and a human has to confirm the fields
+  review?: ReceiptReview;
+  metadata?: ReceiptMetadata;
 }
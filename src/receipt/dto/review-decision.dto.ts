@@ -0,0 +1,18 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { UpdateReceiptDto } from './update-receipt.dto';
+
+export class ReviewDecisionDto {
+  @IsIn(['approved', 'rejected'])
+  decision: 'approved' | 'rejected';
+
+  // Applied before the decision and recorded in the audit log
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UpdateReceiptDto)
+  corrections?: UpdateReceiptDto;
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
@@ -0,0 +1,70 @@
+import 'reflect-metadata';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { UpdateReceiptDto } from './update-receipt.dto';
+
+// Property paths of the problems the global ValidationPipe would report
+async function invalidFields(body: object): Promise<string[]> {
+  const errors = await validate(plainToInstance(UpdateReceiptDto, body), {
+    whitelist: true,
+  });
+  return errors.map((error) => error.property);
+}
+
+describe('UpdateReceiptDto', () => {
+  it('accepts partial corrections', async () => {
+    expect(
+      await invalidFields({
+        vendor_name: 'Cafe',
+        receipt_items: [{ item_name: 'Coffee', item_cost: 4.5 }],
+        payment_method: { type: 'cash' },
+      }),
+    ).toEqual([]);
+  });
+
+  it('rejects null for list and text fields', async () => {
+    expect(
+      await invalidFields({ receipt_items: null, vendor_name: null }),
+    ).toEqual(['vendor_name', 'receipt_items']);
+  });
+
+  it('rejects null inside nested corrections', async () => {
+    expect(
+      await invalidFields({
+        receipt_items: [
+          { item_name: 'Coffee', item_cost: 4.5, quantity: null },
+        ],
+      }),
+    ).toEqual(['receipt_items']);
+  });
+
+  it('applies the receipt schema rules with its messages', async () => {
+    const errors = await validate(
+      plainToInstance(UpdateReceiptDto, {
+        date: '01/15/2024',
+        currency: 'DOLLARS',
+        payment_method: { type: 'card', card_last4: '12' },
+      }),
+    );
+
+    expect(errors.flatMap((error) => Object.values(error.constraints))).toEqual(
+      [
+        'date must be YYYY-MM-DD',
+        'currency must be a 3-character code',
+        'payment_method.card_last4 must be exactly 4 digits',
+      ],
+    );
+  });
+
+  it('drops fields the schema does not declare, nested ones included', () => {
+    const dto = plainToInstance(UpdateReceiptDto, {
+      total: 9.5,
+      receipt_items: [{ item_name: 'Tea', item_cost: 3, sku: 'T-1' }],
+    });
+
+    expect({ ...dto }).toEqual({
+      total: 9.5,
+      receipt_items: [{ item_name: 'Tea', item_cost: 3 }],
+    });
+  });
+});
@@ -0,0 +1,6 @@
+import { SchemaDto } from '../../common/schema/schema-dto';
+import { RECEIPT_CORRECTION_SCHEMA } from '../extraction/receipt-schema';
+
+// Fields a human may correct after extraction; omitted fields are unchanged.
+// The rules are RECEIPT_CORRECTION_SCHEMA's, so edit the schema, not this class
+export class UpdateReceiptDto extends SchemaDto(RECEIPT_CORRECTION_SCHEMA) {}
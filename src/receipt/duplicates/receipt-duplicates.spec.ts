@@ -0,0 +1,49 @@
+import {
+  isSemanticDuplicate,
+  parseDuplicatePolicy,
+} from './receipt-duplicates';
+
+describe('receipt duplicates', () => {
+  const receipt = {
+    vendor_name: "Trader Joe's",
+    date: '2024-03-02',
+    total: 12.5,
+    receipt_items: [
+      { item_name: 'Bananas', item_cost: 1.5 },
+      { item_name: 'Coffee', item_cost: 11 },
+    ],
+  };
+
+  it('ignores vendor punctuation, case and item order', () => {
+    expect(
+      isSemanticDuplicate(receipt, {
+        ...receipt,
+        vendor_name: 'TRADER JOES',
+        receipt_items: [...receipt.receipt_items].reverse(),
+      }),
+    ).toBe(true);
+  });
+
+  it('treats a different date, total or item list as a new purchase', () => {
+    expect(
+      isSemanticDuplicate(receipt, { ...receipt, date: '2024-03-03' }),
+    ).toBe(false);
+    expect(isSemanticDuplicate(receipt, { ...receipt, total: 12.51 })).toBe(
+      false,
+    );
+    expect(
+      isSemanticDuplicate(receipt, {
+        ...receipt,
+        receipt_items: [{ item_name: 'Coffee', item_cost: 12.5 }],
+      }),
+    ).toBe(false);
+  });
+
+  it('rejects unknown duplicate policies', () => {
+    expect(parseDuplicatePolicy(undefined)).toBe('return_existing');
+    expect(parseDuplicatePolicy('link')).toBe('link');
+    expect(() => parseDuplicatePolicy('ignore')).toThrow(
+      "Unknown DUPLICATE_POLICY 'ignore'",
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { createHash } from 'crypto';
+import { ReceiptItem } from '../dto/receipt-response.dto';
+
+export type DuplicatePolicy = 'return_existing' | 'link';
+
+// Fields two receipts must share to count as the same purchase
+export interface DuplicateCandidate {
+  vendor_name: string;
+  date: string;
+  total: number;
+  receipt_items: ReceiptItem[];
+}
+
+export function parseDuplicatePolicy(
+  value: string | undefined,
+): DuplicatePolicy {
+  const policy = value || 'return_existing';
+  if (policy !== 'return_existing' && policy !== 'link') {
+    throw new Error(`Unknown DUPLICATE_POLICY '${value}'`);
+  }
+  return policy;
+}
+
+// Exact fingerprint of the uploaded bytes
+export function contentHashOf(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * True when two extractions describe the same purchase, e.g. two photos of
+ * one receipt. Vendor names are compared ignoring case and punctuation, and
+ * items as an unordered list of name and cost.
+ */
+export function isSemanticDuplicate(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+): boolean {
+  return (
+    normalizeText(a.vendor_name) === normalizeText(b.vendor_name) &&
+    a.date === b.date &&
+    Math.abs(a.total - b.total) < 0.005 &&
+    itemsKey(a.receipt_items) === itemsKey(b.receipt_items)
+  );
+}
+
+function normalizeText(value: string): string {
+  return (value ?? '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+function itemsKey(items: ReceiptItem[]): string {
+  return items
+    .map(
+      (item) => `${normalizeText(item.item_name)}|${item.item_cost.toFixed(2)}`,
+    )
+    .sort()
+    .join('\n');
+}
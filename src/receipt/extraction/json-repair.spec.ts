@@ -0,0 +1,38 @@
+import { parseLenientJson } from './json-repair';
+
+describe('parseLenientJson', () => {
+  it('should parse clean and fenced JSON without marking it repaired', () => {
+    expect(parseLenientJson('{"total": 1}')).toEqual({
+      value: { total: 1 },
+      repaired: false,
+    });
+    expect(parseLenientJson('```json\n{"total": 1}\n```')).toEqual({
+      value: { total: 1 },
+      repaired: false,
+    });
+  });
+
+  it('should drop prose around the object', () => {
+    expect(
+      parseLenientJson('Sure! Here you go:\n{"total": 1}\nLet me know.'),
+    ).toEqual({ value: { total: 1 }, repaired: true });
+  });
+
+  it('should remove trailing commas', () => {
+    expect(parseLenientJson('{"items": [1, 2,], "total": 3,}').value).toEqual({
+      items: [1, 2],
+      total: 3,
+    });
+  });
+
+  it('should convert single-quoted strings', () => {
+    expect(
+      parseLenientJson("{'vendor_name': 'Stop & Shop', 'note': \"Mikey's\"}")
+        .value,
+    ).toEqual({ vendor_name: 'Stop & Shop', note: "Mikey's" });
+  });
+
+  it('should throw when the text cannot be repaired', () => {
+    expect(() => parseLenientJson('no json here')).toThrow(SyntaxError);
+  });
+});
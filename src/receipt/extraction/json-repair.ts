@@ -0,0 +1,83 @@
+export interface LenientParseResult {
+  value: unknown;
+  // True when the text only parsed after one of the repairs below
+  repaired: boolean;
+}
+
+function stripCodeFences(text: string): string {
+  return text
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+}
+
+// Keeps only the outermost {...} block, dropping prose around it
+function extractObject(text: string): string {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+}
+
+// Rewrites 'single quoted' strings as JSON strings, leaving apostrophes
+// inside double-quoted strings alone
+function normalizeQuotes(text: string): string {
+  let result = '';
+  let inDouble = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      result += char + (text[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      inDouble = !inDouble;
+      result += char;
+      continue;
+    }
+    if (char === "'" && !inDouble) {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== "'") {
+        value += text[i] === '\\' ? text[++i] : text[i];
+        i++;
+      }
+      result += JSON.stringify(value);
+      continue;
+    }
+    result += char;
+  }
+  return result;
+}
+
+function removeTrailingCommas(text: string): string {
+  return text.replace(/,\s*([}\]])/g, '$1');
+}
+
+/**
+ * Parses model output that should be a JSON object but often is not quite:
+ * fenced in markdown, wrapped in prose, or using trailing commas and single
+ * quotes. Throws the underlying SyntaxError when no repair helps.
+ */
+export function parseLenientJson(text: string): LenientParseResult {
+  const cleaned = stripCodeFences(text);
+  try {
+    return { value: JSON.parse(cleaned), repaired: false };
+  } catch (error) {
+    const repairs = [
+      extractObject,
+      removeTrailingCommas,
+      (t: string) => normalizeQuotes(t.replace(/[‘’]/g, "'")),
+    ];
+    let candidate = cleaned;
+    for (const repair of repairs) {
+      candidate = repair(candidate);
+      try {
+        return { value: JSON.parse(candidate), repaired: true };
+      } catch {
+        // Apply the next repair on top of this one
+      }
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,244 @@
+import { HttpException, Inject, Injectable } from '@nestjs/common';
+import { GeminiReceiptData } from '../interfaces/gemini-receipt.interface';
+import {
+  ExtractionRequest,
+  RECEIPT_EXTRACTION_PROVIDER,
+  ReceiptExtractionProvider,
+} from '../interfaces/receipt-extraction-provider.interface';
+import { ExtractionAttempt } from '../interfaces/extraction-attempt.interface';
+import { parseLenientJson } from './json-repair';
+import { normalizeModelOutput, salvageReceiptData } from './receipt-fields';
+import { RECEIPT_SCHEMA } from './receipt-schema';
+import { validateSchema } from '../../common/schema/json-schema';
+import { AppException } from '../../common/errors/app-exception';
+import { numberFromEnv } from '../../common/env-number';
+
+export interface ExtractionResult {
+  data: GeminiReceiptData;
+  attempts: ExtractionAttempt[];
+  // Schema errors the model never fixed; `data` then holds what could be
+  // salvaged, and the receipt goes to review
+  incomplete?: string[];
+}
+
+const TRANSIENT_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+]);
+
+// Failed attempts keep the model output for debugging, within reason
+const MAX_RAW_OUTPUT_LENGTH = 10_000;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Network blips, rate limits and 5xx responses are worth retrying as-is
+export function isTransientProviderError(error: any): boolean {
+  return (
+    TRANSIENT_STATUS_CODES.has(error?.status) ||
+    TRANSIENT_ERROR_CODES.has(error?.code) ||
+    /fetch failed|socket hang up/i.test(error?.message ?? '')
+  );
+}
+
+// Reports a provider failure that retries did not fix with a catalog code
+export function toProviderException(
+  providerName: string,
+  error: any,
+): HttpException {
+  if (error instanceof HttpException) {
+    return error;
+  }
+  const message = `${providerName} request failed: ${error?.message}`;
+  if (error?.status === 429) {
+    return new AppException('PROVIDER_RATE_LIMITED', message);
+  }
+  if (
+    [408, 504].includes(error?.status) ||
+    error?.code === 'ETIMEDOUT' ||
+    error?.name === 'AbortError'
+  ) {
+    return new AppException('PROVIDER_TIMEOUT', message);
+  }
+  return new AppException('PROVIDER_ERROR', message);
+}
+
+export function collectSchemaErrors(data: any): string[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['response must be a JSON object'];
+  }
+  return validateSchema(RECEIPT_SCHEMA, data);
+}
+
+// Unset or unparseable values use the default rather than disabling the loop
+function attemptLimit(value: string | undefined): number {
+  const attempts = Number(value);
+  return value?.trim() && Number.isInteger(attempts)
+    ? Math.max(1, attempts)
+    : DEFAULT_MAX_ATTEMPTS;
+}
+
+function rawOutput(text: string): string {
+  return text.length > MAX_RAW_OUTPUT_LENGTH
+    ? `${text.slice(0, MAX_RAW_OUTPUT_LENGTH)}...`
+    : text;
+}
+
+/**
+ * Runs the extraction provider until it yields data matching RECEIPT_SCHEMA,
+ * which providers with constrained output also receive. Malformed JSON from
+ * the others is repaired where possible, invalid payloads are re-prompted with the concrete
+ * errors, and transient provider failures are retried with exponential
+ * backoff. Every attempt is recorded for the receipt's metadata.
+ */
+@Injectable()
+export class ReceiptExtractionPipeline {
+  private readonly maxAttempts = attemptLimit(
+    process.env.EXTRACTION_MAX_ATTEMPTS,
+  );
+  private readonly baseDelayMs = numberFromEnv(
+    process.env.EXTRACTION_RETRY_BASE_DELAY_MS,
+    500,
+  );
+  private readonly timeoutMs = numberFromEnv(
+    process.env.EXTRACTION_TIMEOUT_MS,
+    60_000,
+    1,
+  );
+
+  constructor(
+    @Inject(RECEIPT_EXTRACTION_PROVIDER)
+    private readonly provider: ReceiptExtractionProvider,
+  ) {}
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  async run(request: ExtractionRequest): Promise<ExtractionResult> {
+    const attempts: ExtractionAttempt[] = [];
+    let prompt = request.prompt;
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      const startedAt = new Date();
+      const record = (entry: Partial<ExtractionAttempt>) =>
+        attempts.push({
+          attempt,
+          started_at: startedAt.toISOString(),
+          duration_ms: Date.now() - startedAt.getTime(),
+          outcome: 'succeeded',
+          ...entry,
+        });
+      const isLastAttempt = attempt === this.maxAttempts;
+
+      let text: string;
+      try {
+        text = await this.generateWithTimeout({
+          ...request,
+          prompt,
+          responseSchema: RECEIPT_SCHEMA,
+        });
+      } catch (error) {
+        record({ outcome: 'provider_error', errors: [error.message] });
+        if (isLastAttempt || !isTransientProviderError(error)) {
+          throw toProviderException(this.provider.name, error);
+        }
+        await this.delay(this.baseDelayMs * 2 ** (attempt - 1));
+        continue;
+      }
+
+      let parsed: { value: unknown; repaired: boolean };
+      try {
+        parsed = parseLenientJson(text);
+      } catch {
+        const errors = ['response is not valid JSON'];
+        record({
+          outcome: 'invalid_json',
+          errors,
+          raw_output: rawOutput(text),
+        });
+        if (isLastAttempt) {
+          throw new AppException('EXTRACTION_INVALID_JSON', undefined, {
+            attempts,
+          });
+        }
+        prompt = this.buildRepairPrompt(request.prompt, text, errors);
+        continue;
+      }
+
+      const value = normalizeModelOutput(parsed.value);
+      const errors = collectSchemaErrors(value);
+      if (errors.length > 0) {
+        record({
+          outcome: 'validation_failed',
+          repaired_json: parsed.repaired,
+          errors,
+          raw_output: rawOutput(text),
+        });
+        if (isLastAttempt) {
+          const data = salvageReceiptData(value);
+          if (!data) {
+            throw new AppException('EXTRACTION_VALIDATION_FAILED', undefined, {
+              attempts,
+            });
+          }
+          return { data, attempts, incomplete: errors };
+        }
+        prompt = this.buildRepairPrompt(request.prompt, text, errors);
+        continue;
+      }
+
+      record({ outcome: 'succeeded', repaired_json: parsed.repaired });
+      return { data: value as GeminiReceiptData, attempts };
+    }
+
+    // Every last attempt returns or throws above
+    throw new AppException('EXTRACTION_VALIDATION_FAILED', undefined, {
+      attempts,
+    });
+  }
+
+  // Rejects like a socket timeout so slow responses are retried
+  private async generateWithTimeout(
+    request: ExtractionRequest,
+  ): Promise<string> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            Object.assign(new Error(`No response within ${this.timeoutMs}ms`), {
+              code: 'ETIMEDOUT',
+            }),
+          ),
+        this.timeoutMs,
+      );
+    });
+    try {
+      return await Promise.race([this.provider.generate(request), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private buildRepairPrompt(
+    originalPrompt: string,
+    previousOutput: string,
+    errors: string[],
+  ): string {
+    return [
+      originalPrompt,
+      'Your previous response could not be used:',
+      previousOutput.slice(0, 2000),
+      'Problems found:',
+      ...errors.map((error) => `- ${error}`),
+      'Return only the corrected JSON object, no additional text.',
+    ].join('\n\n');
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
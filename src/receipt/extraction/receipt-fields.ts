@@ -0,0 +1,76 @@
+import { ReceiptResponse } from '../dto/receipt-response.dto';
+import { GeminiReceiptData } from '../interfaces/gemini-receipt.interface';
+import { ExtractionAttempt } from '../interfaces/extraction-attempt.interface';
+import { salvageBySchema } from '../../common/schema/json-schema';
+import { RECEIPT_SCHEMA } from './receipt-schema';
+
+export type ExtractedReceiptFields = Omit<
+  ReceiptResponse,
+  'id' | 'image_url' | 'validation' | 'metadata'
+>;
+
+// Categorized fields of one extraction, before they become a receipt
+export interface ReceiptExtraction {
+  fields: ExtractedReceiptFields;
+  attempts: ExtractionAttempt[];
+  // Schema errors left when extraction only partly succeeded
+  incomplete?: string[];
+}
+
+// Models answer null for fields missing from the receipt; stored receipts
+// simply omit them
+function withoutNulls<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== null && v !== undefined),
+  ) as T;
+}
+
+export function toReceiptFields(
+  data: GeminiReceiptData,
+): ExtractedReceiptFields {
+  const fields = withoutNulls({
+    date: data.date,
+    currency: data.currency,
+    vendor_name: data.vendor_name,
+    receipt_items: data.receipt_items.map((item) => withoutNulls(item)),
+    tax: data.tax,
+    total: data.total,
+    subtotal: data.subtotal,
+    tip: data.tip,
+    service_charge: data.service_charge,
+    tax_breakdown: data.tax_breakdown?.map((line) => withoutNulls(line)),
+    payment_method: data.payment_method && withoutNulls(data.payment_method),
+    vendor_address: data.vendor_address,
+    vendor_phone: data.vendor_phone,
+    vendor_tax_id: data.vendor_tax_id,
+    category: data.category,
+  });
+  return fields as ExtractedReceiptFields;
+}
+
+// Models without constrained output sometimes answer 1234 rather than "1234"
+export function normalizeModelOutput(value: any): unknown {
+  const last4 = value?.payment_method?.card_last4;
+  if (typeof last4 !== 'number') {
+    return value;
+  }
+  return {
+    ...value,
+    payment_method: { ...value.payment_method, card_last4: String(last4) },
+  };
+}
+
+/**
+ * Keeps the usable parts of model output that failed schema validation, so
+ * the receipt can be finished by a reviewer instead of being lost. Missing
+ * required text becomes '' and missing amounts 0; malformed items, tax lines
+ * and optional fields are dropped. Returns undefined for output that is not
+ * a JSON object at all.
+ */
+export function salvageReceiptData(
+  value: unknown,
+): GeminiReceiptData | undefined {
+  return salvageBySchema(RECEIPT_SCHEMA, value, true) as
+    | GeminiReceiptData
+    | undefined;
+}
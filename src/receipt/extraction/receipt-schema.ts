@@ -0,0 +1,149 @@
+import { ObjectSchema } from '../../common/schema/json-schema';
+
+/**
+ * The one definition of what extraction returns. It is sent to providers
+ * with constrained output as their response schema, validates every model
+ * answer, is the source of the `GeminiReceiptData` and receipt field types,
+ * and is published in the OpenAPI document. Optional fields are nullable
+ * because models answer null for what the receipt does not show.
+ */
+export const RECEIPT_SCHEMA = {
+  type: 'object',
+  properties: {
+    date: { type: 'string', description: 'Purchase date in YYYY-MM-DD format' },
+    currency: {
+      type: 'string',
+      description: '3-character currency code (e.g., USD, EUR, CAD)',
+      minLength: 3,
+      maxLength: 3,
+      errorMessage: 'must be a 3-character code',
+    },
+    vendor_name: { type: 'string', description: 'Name of the store/vendor' },
+    vendor_address: {
+      type: 'string',
+      nullable: true,
+      description: 'Street address of the vendor',
+    },
+    vendor_phone: {
+      type: 'string',
+      nullable: true,
+      description: 'Phone number of the vendor',
+    },
+    vendor_tax_id: {
+      type: 'string',
+      nullable: true,
+      description:
+        'Tax registration number (e.g., GST/HST, ABN, VAT number) of the vendor',
+    },
+    category: {
+      type: 'string',
+      nullable: true,
+      description: 'Expense category of the whole receipt',
+    },
+    receipt_items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          item_name: { type: 'string', description: 'Name of the item' },
+          item_cost: {
+            type: 'number',
+            description: 'Line amount as charged, after any per-item discount',
+          },
+          quantity: { type: 'number', nullable: true },
+          unit_price: { type: 'number', nullable: true },
+          discount: { type: 'number', nullable: true },
+          category: {
+            type: 'string',
+            nullable: true,
+            description:
+              "Expense category of the item; defaults to the receipt's",
+          },
+        },
+        required: ['item_name', 'item_cost'],
+      },
+    },
+    subtotal: { type: 'number', nullable: true },
+    tax: {
+      type: 'number',
+      description: 'Total tax amount for the entire receipt',
+    },
+    tax_breakdown: {
+      type: 'array',
+      nullable: true,
+      items: {
+        type: 'object',
+        properties: {
+          label: {
+            type: 'string',
+            description: 'Tax name as printed (e.g., GST, PST)',
+          },
+          rate: {
+            type: 'number',
+            nullable: true,
+            description: 'Percentage, e.g. 6.75 for 6.75%',
+          },
+          amount: { type: 'number' },
+        },
+        required: ['label', 'amount'],
+      },
+    },
+    tip: { type: 'number', nullable: true },
+    service_charge: { type: 'number', nullable: true },
+    total: { type: 'number', description: 'Final amount paid' },
+    payment_method: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        type: {
+          type: 'string',
+          description: 'cash, credit_card, debit_card or other',
+        },
+        card_last4: {
+          type: 'string',
+          nullable: true,
+          description: 'Last 4 digits of the card',
+          pattern: '^\\d{4}$',
+          errorMessage: 'must be exactly 4 digits',
+        },
+      },
+      required: ['type'],
+    },
+  },
+  required: [
+    'date',
+    'currency',
+    'vendor_name',
+    'receipt_items',
+    'tax',
+    'total',
+  ],
+} as const satisfies ObjectSchema;
+
+/**
+ * What a correction (PATCH /receipts/:id, review corrections) may change:
+ * any extracted field, each optional, plus the service's own justification.
+ * Corrected dates must be YYYY-MM-DD; extraction only asks models for that
+ * format and flags other answers in validation instead.
+ */
+export const RECEIPT_CORRECTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    ...RECEIPT_SCHEMA.properties,
+    date: {
+      ...RECEIPT_SCHEMA.properties.date,
+      pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      errorMessage: 'must be YYYY-MM-DD',
+    },
+    category: {
+      ...RECEIPT_SCHEMA.properties.category,
+      description:
+        'Expense category of the whole receipt; also teaches a vendor rule, so later receipts from the vendor match',
+    },
+    justification: {
+      type: 'string',
+      description:
+        'Reason for the purchase; satisfies weekend_justification policy rules',
+    },
+  },
+} as const satisfies ObjectSchema;
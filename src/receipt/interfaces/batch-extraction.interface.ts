@@ -0,0 +1,17 @@
+import { ReceiptResponse } from '../dto/receipt-response.dto';
+import { ErrorBody } from '../../common/errors/app-exception';
+
+export interface BatchItemResult {
+  // Upload name, or "<archive>/<entry>" for files taken from a zip
+  file_name: string;
+  status: 'succeeded' | 'failed';
+  receipt?: ReceiptResponse;
+  error?: ErrorBody;
+}
+
+export interface BatchExtractionResult {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BatchItemResult[];
+}
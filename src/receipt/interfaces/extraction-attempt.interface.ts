@@ -0,0 +1,17 @@
+export type ExtractionAttemptOutcome =
+  | 'succeeded'
+  | 'invalid_json'
+  | 'validation_failed'
+  | 'provider_error';
+
+export interface ExtractionAttempt {
+  attempt: number;
+  started_at: string;
+  duration_ms: number;
+  outcome: ExtractionAttemptOutcome;
+  // Output only parsed after lenient JSON repair
+  repaired_json?: boolean;
+  errors?: string[];
+  // Model output of attempts that could not be used, for debugging
+  raw_output?: string;
+}
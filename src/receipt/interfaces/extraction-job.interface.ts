@@ -0,0 +1,30 @@
+import { ErrorBody } from '../../common/errors/app-exception';
+
+export type ExtractionJobStatus =
+  | 'queued'
+  | 'processing'
+  | 'succeeded'
+  | 'failed';
+
+export interface WebhookDelivery {
+  url: string;
+  delivered_at?: string;
+  status_code?: number;
+  error?: string;
+}
+
+export interface ExtractionJob {
+  id: string;
+  tenant_id: string;
+  status: ExtractionJobStatus;
+  file_name: string;
+  // Set when the upload asked for a specific prompt template version
+  prompt_version?: string;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  receipt_id?: string;
+  // Same shape as the error envelope of a synchronous upload
+  error?: ErrorBody;
+  webhook?: WebhookDelivery;
+}
@@ -1,13 +1,16 @@
-export interface GeminiReceiptItem {
-  item_name: string;
-  item_cost: number;
-}
-
-export interface GeminiReceiptData {
-  date: string;
-  currency: string;
-  vendor_name: string;
-  receipt_items: GeminiReceiptItem[];
-  tax: number;
-  total: number;
-}
+import { FromSchema } from '../../common/schema/json-schema';
+import { RECEIPT_SCHEMA } from '../extraction/receipt-schema';
+
+// Extraction output as validated against RECEIPT_SCHEMA; edit the schema,
+// not these types
+export type GeminiReceiptData = FromSchema<typeof RECEIPT_SCHEMA>;
+
+export type GeminiReceiptItem = GeminiReceiptData['receipt_items'][number];
+
+export type GeminiTaxLine = NonNullable<
+  GeminiReceiptData['tax_breakdown']
+>[number];
+
+export type GeminiPaymentMethod = NonNullable<
+  GeminiReceiptData['payment_method']
+>;
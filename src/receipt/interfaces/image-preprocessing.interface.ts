@@ -0,0 +1,34 @@
+export type PreprocessingStep =
+  | 'auto_orient'
+  | 'resize'
+  | 'enhance'
+  | 'crop_to_receipt'
+  | 'deskew';
+
+export interface ImagePreprocessingOptions {
+  enabled: boolean;
+  // Longest side in pixels; larger images are scaled down to fit
+  maxDimension: number;
+  // Grayscale plus contrast stretch, for faded or badly lit receipts
+  enhance: boolean;
+  // Trims the uniform background around the receipt and straightens text
+  // lines photographed at a slight angle
+  cropToReceipt: boolean;
+}
+
+export interface PreprocessedImage {
+  data: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+  steps: PreprocessingStep[];
+}
+
+// Recorded on receipts so the sent image can be traced back to the original
+export interface ImagePreprocessing {
+  steps: PreprocessingStep[];
+  original_bytes: number;
+  processed_bytes: number;
+  width: number;
+  height: number;
+}
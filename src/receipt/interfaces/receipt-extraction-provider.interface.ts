@@ -0,0 +1,26 @@
+import { SchemaObject } from '../../common/schema/json-schema';
+
+export const RECEIPT_EXTRACTION_PROVIDER = 'RECEIPT_EXTRACTION_PROVIDER';
+
+export interface ExtractionRequest {
+  prompt: string;
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+  // SHA-256 of the file as uploaded; `data` may be a preprocessed copy
+  sourceDigest?: string;
+  // From the prompt template; providers without model choice ignore them
+  model?: string;
+  temperature?: number;
+  // Shape the answer must have, for providers that can constrain their output
+  responseSchema?: SchemaObject;
+}
+
+// A backend that turns a receipt image plus prompt into the raw model text.
+// Providers that cannot constrain their output ignore `responseSchema`.
+// Parsing, repair and validation stay in ReceiptExtractionPipeline so every
+// provider is held to the same contract.
+export interface ReceiptExtractionProvider {
+  readonly name: string;
+  generate(request: ExtractionRequest): Promise<string>;
+}
@@ -0,0 +1,40 @@
+import { AuthMethod } from '../../auth/interfaces/auth.interface';
+import { ValidationWarningCode } from './receipt-validation.interface';
+
+export const REVIEW_STATUSES = [
+  'pending_review',
+  'approved',
+  'rejected',
+] as const;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export type ReviewReasonCode = 'missing_field' | ValidationWarningCode;
+
+export interface ReviewReason {
+  code: ReviewReasonCode;
+  field?: string;
+  message: string;
+}
+
+export interface ReceiptReview {
+  status: ReviewStatus;
+  // Why extraction was not trusted; kept after the review for reference
+  reasons: ReviewReason[];
+  reviewed_by?: string;
+  reviewed_at?: string;
+  note?: string;
+}
+
+// One field change on a receipt, by a correction or a review decision
+export interface AuditEntry {
+  id: string;
+  tenant_id: string;
+  receipt_id: string;
+  // Top-level receipt field, or "review.status"
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+  changed_by: { method: AuthMethod; subject: string };
+  changed_at: string;
+  source: 'correction' | 'review';
+}
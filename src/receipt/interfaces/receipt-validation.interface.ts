@@ -0,0 +1,20 @@
+export type ValidationWarningCode =
+  | 'items_sum_mismatch'
+  | 'subtotal_mismatch'
+  | 'tax_breakdown_mismatch'
+  | 'invalid_date'
+  | 'future_date'
+  | 'unknown_currency'
+  | 'negative_amount';
+
+export interface ValidationWarning {
+  code: ValidationWarningCode;
+  field: string;
+  message: string;
+}
+
+export interface ReceiptValidation {
+  warnings: ValidationWarning[];
+  // 0..1, lowered for every warning raised against the receipt
+  confidence: number;
+}
@@ -0,0 +1,10 @@
+export interface Vendor {
+  id: string;
+  tenant_id: string;
+  // Canonical display name; defaults to the first name seen
+  name: string;
+  // Other names that resolve to this vendor, as extracted or added by hand
+  aliases: string[];
+  created_at: string;
+  updated_at: string;
+}
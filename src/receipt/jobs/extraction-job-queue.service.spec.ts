@@ -0,0 +1,241 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { ExtractionJobQueue } from './extraction-job-queue.service';
+import {
+  WebhookNotifier,
+  signWebhookPayload,
+} from './webhook-notifier.service';
+import { webhookUrlProblem } from './webhook-url';
+import { ReceiptService } from '../receipt.service';
+import { AppException } from '../../common/errors/app-exception';
+
+describe('ExtractionJobQueue', () => {
+  let receiptService: { extractReceiptDetails: jest.Mock };
+  let webhookNotifier: { enabled: boolean; deliver: jest.Mock };
+  let queue: ExtractionJobQueue;
+
+  const file = (name: string) =>
+    ({ originalname: name, buffer: Buffer.from(name) }) as Express.Multer.File;
+
+  beforeEach(() => {
+    process.env.EXTRACTION_CONCURRENCY = '2';
+    receiptService = { extractReceiptDetails: jest.fn() };
+    webhookNotifier = {
+      enabled: true,
+      deliver: jest.fn().mockResolvedValue({ url: 'x', status_code: 200 }),
+    };
+    queue = new ExtractionJobQueue(
+      receiptService as unknown as ReceiptService,
+      webhookNotifier as unknown as WebhookNotifier,
+    );
+  });
+
+  it('should run jobs to completion and expose their status', async () => {
+    receiptService.extractReceiptDetails.mockResolvedValue({ id: 'r1' });
+
+    const job = queue.enqueue('acme', file('1.jpg'));
+    expect(job.status).toBe('queued');
+
+    await queue.onIdle();
+    expect(queue.getJob('acme', job.id)).toMatchObject({
+      status: 'succeeded',
+      receipt_id: 'r1',
+      file_name: '1.jpg',
+    });
+  });
+
+  it('should record failures on the job', async () => {
+    receiptService.extractReceiptDetails.mockRejectedValue(
+      new AppException('EXTRACTION_INVALID_JSON'),
+    );
+
+    const job = queue.enqueue('acme', file('1.jpg'));
+    await queue.onIdle();
+
+    expect(queue.getJob('acme', job.id)).toMatchObject({
+      status: 'failed',
+      error: {
+        code: 'EXTRACTION_INVALID_JSON',
+        message: 'AI model returned invalid response format',
+        status_code: 502,
+      },
+    });
+  });
+
+  it('should not exceed the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    receiptService.extractReceiptDetails.mockImplementation(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return { id: 'r' };
+    });
+
+    ['1.jpg', '2.jpg', '3.jpg', '4.jpg', '5.jpg'].forEach((name) =>
+      queue.enqueue('acme', file(name)),
+    );
+    await queue.onIdle();
+
+    expect(peak).toBe(2);
+    expect(receiptService.extractReceiptDetails).toHaveBeenCalledTimes(5);
+  });
+
+  it('should refuse jobs once EXTRACTION_QUEUE_LIMIT are waiting', async () => {
+    process.env.EXTRACTION_QUEUE_LIMIT = '2';
+    queue = new ExtractionJobQueue(
+      receiptService as unknown as ReceiptService,
+      webhookNotifier as unknown as WebhookNotifier,
+    );
+    delete process.env.EXTRACTION_QUEUE_LIMIT;
+    let release: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    receiptService.extractReceiptDetails.mockImplementation(async () => {
+      await blocked;
+      return { id: 'r' };
+    });
+
+    // Two run and two wait; the fifth finds the queue full
+    ['1.jpg', '2.jpg', '3.jpg', '4.jpg'].forEach((name) =>
+      queue.enqueue('acme', file(name)),
+    );
+    let rejection: unknown;
+    try {
+      queue.enqueue('acme', file('5.jpg'));
+    } catch (error) {
+      rejection = error;
+    }
+    expect(rejection).toBeInstanceOf(AppException);
+    expect(rejection).toMatchObject({ code: 'EXTRACTION_QUEUE_FULL' });
+    expect((rejection as AppException).getStatus()).toBe(503);
+
+    release();
+    await queue.onIdle();
+    expect(receiptService.extractReceiptDetails).toHaveBeenCalledTimes(4);
+    expect(queue.enqueue('acme', file('6.jpg')).status).toBe('queued');
+    await queue.onIdle();
+  });
+
+  it('should notify the webhook with the finished job', async () => {
+    receiptService.extractReceiptDetails.mockResolvedValue({ id: 'r1' });
+
+    const job = queue.enqueue(
+      'acme',
+      file('1.jpg'),
+      'http://hooks.local/receipts',
+    );
+    await queue.onIdle();
+
+    expect(webhookNotifier.deliver).toHaveBeenCalledWith(
+      'http://hooks.local/receipts',
+      expect.objectContaining({ id: job.id, status: 'succeeded' }),
+    );
+    expect(queue.getJob('acme', job.id).webhook).toEqual({
+      url: 'x',
+      status_code: 200,
+    });
+  });
+
+  it('should refuse webhooks when no signing secret is configured', () => {
+    webhookNotifier.enabled = false;
+
+    expect(() =>
+      queue.enqueue('acme', file('1.jpg'), 'http://hooks.local'),
+    ).toThrow(BadRequestException);
+  });
+
+  it('should throw NotFoundException for unknown jobs', () => {
+    expect(() => queue.getJob('acme', 'missing')).toThrow(NotFoundException);
+  });
+
+  it('should forget finished jobs after EXTRACTION_JOB_TTL_MS', async () => {
+    receiptService.extractReceiptDetails.mockResolvedValue({ id: 'r1' });
+    const job = queue.enqueue('acme', file('1.jpg'));
+    await queue.onIdle();
+
+    const finishedAt = Date.parse(queue.getJob('acme', job.id).finished_at);
+    jest.spyOn(Date, 'now').mockReturnValue(finishedAt + 60 * 60 * 1000 + 1);
+    try {
+      expect(() => queue.getJob('acme', job.id)).toThrow(NotFoundException);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it("should hide jobs from other tenants and extract for the job's tenant", async () => {
+    receiptService.extractReceiptDetails.mockResolvedValue({ id: 'r1' });
+
+    const job = queue.enqueue('acme', file('1.jpg'), undefined, 'v2');
+    await queue.onIdle();
+
+    expect(receiptService.extractReceiptDetails).toHaveBeenCalledWith(
+      'acme',
+      expect.anything(),
+      'v2',
+    );
+    expect(() => queue.getJob('globex', job.id)).toThrow(NotFoundException);
+  });
+});
+
+describe('webhookUrlProblem', () => {
+  const lookup = (addresses: string[]) => async () => addresses;
+
+  it('accepts https hosts that resolve to public addresses', async () => {
+    expect(
+      await webhookUrlProblem(
+        'https://hooks.example.com/receipts',
+        [],
+        lookup(['93.184.216.34', '2606:2800:220:1::1']),
+      ),
+    ).toBeNull();
+  });
+
+  it.each([
+    ['http://hooks.example.com', ['93.184.216.34'], 'must use https'],
+    ['https://localhost/x', ['127.0.0.1'], 'is not a public address'],
+    ['https://169.254.169.254/latest/meta-data', [], 'is not a public address'],
+    ['https://[::1]/x', [], 'is not a public address'],
+    ['https://[::ffff:10.0.0.1]/x', [], 'is not a public address'],
+    [
+      'https://intranet.example.com',
+      ['192.168.1.10'],
+      'is not a public address',
+    ],
+    // One private address is enough to reject the host
+    [
+      'https://mixed.example.com',
+      ['93.184.216.34', '10.0.0.5'],
+      'is not a public address',
+    ],
+  ])('rejects %s', async (url, addresses, problem) => {
+    expect(await webhookUrlProblem(url, [], lookup(addresses))).toContain(
+      problem,
+    );
+  });
+
+  it('lets allowlisted hosts through without a lookup', async () => {
+    const resolve = jest.fn();
+
+    expect(
+      await webhookUrlProblem(
+        'https://hooks.internal/x',
+        ['hooks.internal'],
+        resolve,
+      ),
+    ).toBeNull();
+    expect(resolve).not.toHaveBeenCalled();
+  });
+});
+
+describe('signWebhookPayload', () => {
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', 'secret')
+      .update('1700000000.{"id":"job"}')
+      .digest('hex');
+
+    expect(signWebhookPayload('secret', '1700000000', '{"id":"job"}')).toBe(
+      `sha256=${expected}`,
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { ReceiptService } from '../receipt.service';
+import { ExtractionJob } from '../interfaces/extraction-job.interface';
+import { WebhookNotifier } from './webhook-notifier.service';
+import { AppException, toErrorBody } from '../../common/errors/app-exception';
+import { numberFromEnv } from '../../common/env-number';
+
+interface PendingJob {
+  job: ExtractionJob;
+  file: Express.Multer.File;
+}
+
+/**
+ * In-process queue for asynchronous extraction. At most
+ * EXTRACTION_CONCURRENCY jobs call the provider at once; the rest wait in
+ * FIFO order. Waiting jobs hold their upload in memory, so at most
+ * EXTRACTION_QUEUE_LIMIT may wait. Job state lives in memory, is lost on
+ * restart and is dropped EXTRACTION_JOB_TTL_MS after the job finishes.
+ */
+@Injectable()
+export class ExtractionJobQueue {
+  private readonly concurrency = Math.floor(
+    numberFromEnv(process.env.EXTRACTION_CONCURRENCY, 2, 1),
+  );
+  // Finished jobs stay pollable this long, then are forgotten
+  private readonly jobTtlMs = numberFromEnv(
+    process.env.EXTRACTION_JOB_TTL_MS,
+    60 * 60 * 1000,
+  );
+  private readonly queueLimit = Math.floor(
+    numberFromEnv(process.env.EXTRACTION_QUEUE_LIMIT, 50, 1),
+  );
+  private jobs = new Map<string, ExtractionJob>();
+  private pending: PendingJob[] = [];
+  private running = 0;
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(
+    private readonly receiptService: ReceiptService,
+    private readonly webhookNotifier: WebhookNotifier,
+  ) {}
+
+  enqueue(
+    tenantId: string,
+    file: Express.Multer.File,
+    webhookUrl?: string,
+    promptVersion?: string,
+  ): ExtractionJob {
+    if (webhookUrl && !this.webhookNotifier.enabled) {
+      throw new BadRequestException(
+        'Webhooks require WEBHOOK_SECRET to be configured',
+      );
+    }
+    if (this.pending.length >= this.queueLimit) {
+      throw new AppException(
+        'EXTRACTION_QUEUE_FULL',
+        `${this.pending.length} extraction jobs are already queued; retry later`,
+      );
+    }
+
+    this.evictExpired();
+    const job: ExtractionJob = {
+      id: uuidv4(),
+      tenant_id: tenantId,
+      status: 'queued',
+      file_name: file.originalname,
+      prompt_version: promptVersion,
+      created_at: new Date().toISOString(),
+      webhook: webhookUrl ? { url: webhookUrl } : undefined,
+    };
+    this.jobs.set(job.id, job);
+    this.pending.push({ job, file });
+    // Snapshot before draining so callers see the job as accepted
+    const accepted = { ...job };
+    this.drain();
+    return accepted;
+  }
+
+  getJob(tenantId: string, id: string): ExtractionJob {
+    this.evictExpired();
+    const job = this.jobs.get(id);
+    if (!job || job.tenant_id !== tenantId) {
+      throw new NotFoundException(`Job with ID '${id}' not found`);
+    }
+    return { ...job };
+  }
+
+  // Resolves once no job is queued or processing
+  onIdle(): Promise<void> {
+    if (this.running === 0 && this.pending.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  private evictExpired(): void {
+    const cutoff = Date.now() - this.jobTtlMs;
+    for (const [id, job] of this.jobs) {
+      if (job.finished_at && Date.parse(job.finished_at) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const next = this.pending.shift();
+      this.running++;
+      this.process(next).finally(() => {
+        this.running--;
+        this.drain();
+        if (this.running === 0 && this.pending.length === 0) {
+          this.idleWaiters.splice(0).forEach((resolve) => resolve());
+        }
+      });
+    }
+  }
+
+  private async process({ job, file }: PendingJob): Promise<void> {
+    job.status = 'processing';
+    job.started_at = new Date().toISOString();
+
+    try {
+      const receipt = await this.receiptService.extractReceiptDetails(
+        job.tenant_id,
+        file,
+        job.prompt_version,
+      );
+      job.status = 'succeeded';
+      job.receipt_id = receipt.id;
+    } catch (error) {
+      job.status = 'failed';
+      job.error = toErrorBody(error);
+    }
+    job.finished_at = new Date().toISOString();
+
+    if (job.webhook) {
+      const { webhook, ...payload } = job;
+      job.webhook = await this.webhookNotifier.deliver(webhook.url, payload);
+    }
+  }
+}
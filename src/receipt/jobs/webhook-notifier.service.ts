@@ -0,0 +1,95 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { WebhookDelivery } from '../interfaces/extraction-job.interface';
+import { webhookUrlProblem } from './webhook-url';
+import { numberFromEnv } from '../../common/env-number';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-receipt-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-receipt-timestamp';
+
+// Signature over "<timestamp>.<body>" so receivers can reject replays
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  return (
+    'sha256=' +
+    createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  );
+}
+
+// Query strings often carry tokens, so logs name the host only
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'an invalid URL';
+  }
+}
+
+@Injectable()
+export class WebhookNotifier {
+  private readonly logger = new Logger(WebhookNotifier.name);
+  private readonly secret = process.env.WEBHOOK_SECRET;
+  private readonly timeoutMs = numberFromEnv(
+    process.env.WEBHOOK_TIMEOUT_MS,
+    10000,
+    1,
+  );
+  private readonly allowedHosts = (process.env.WEBHOOK_ALLOWED_HOSTS ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+  get enabled(): boolean {
+    return Boolean(this.secret);
+  }
+
+  // Rejects URLs that would make the server call internal services
+  async assertDeliverable(url: string): Promise<void> {
+    const problem = await webhookUrlProblem(url, this.allowedHosts);
+    if (problem) {
+      throw new BadRequestException(problem);
+    }
+  }
+
+  // Delivery failures are reported on the result, never thrown
+  async deliver(url: string, payload: unknown): Promise<WebhookDelivery> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    try {
+      // Checked again because DNS may have changed since the upload
+      const problem = await webhookUrlProblem(url, this.allowedHosts);
+      if (problem) {
+        return { url, error: problem };
+      }
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            this.secret,
+            timestamp,
+            body,
+          ),
+        },
+        body,
+        // A redirect could point anywhere, internal hosts included
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      return {
+        url,
+        delivered_at: new Date().toISOString(),
+        status_code: response.status,
+        error: response.ok ? undefined : `Webhook responded ${response.status}`,
+      };
+    } catch (error) {
+      this.logger.error(`Webhook delivery to ${hostOf(url)} failed`, error);
+      return { url, error: error.message };
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP, isIPv4 } from 'net';
+
+// Loopback, private, link-local (cloud metadata), shared, reserved and
+// multicast ranges: nothing a tenant's webhook receiver legitimately uses
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6, e.g. ::ffff:127.0.0.1
+  const mapped = address.match(/^::ffff:(.+)$/i)?.[1];
+  if (mapped && isIPv4(mapped)) {
+    return isPublicAddress(mapped);
+  }
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Reasons a webhook URL may not be called, or null if it may. Only https
+ * URLs are allowed, and the host must resolve to public addresses only,
+ * unless it is listed in `allowedHosts` (WEBHOOK_ALLOWED_HOSTS), which may
+ * name internal receivers on purpose.
+ */
+export async function webhookUrlProblem(
+  url: string,
+  allowedHosts: string[],
+  lookup: (host: string) => Promise<string[]> = resolveHost,
+): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'webhook_url must be a URL';
+  }
+  if (parsed.protocol !== 'https:') {
+    return 'webhook_url must use https';
+  }
+  // URL keeps the brackets around IPv6 hosts
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (allowedHosts.includes(host)) {
+    return null;
+  }
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : await lookup(host);
+  } catch {
+    return `webhook_url host '${host}' does not resolve`;
+  }
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return `webhook_url host '${host}' is not a public address`;
+  }
+  return null;
+}
+
+async function resolveHost(host: string): Promise<string[]> {
+  const results = await dns.lookup(host, { all: true });
+  return results.map((result) => result.address);
+}
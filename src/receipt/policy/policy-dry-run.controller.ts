@@ -0,0 +1,20 @@
+import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import { ReceiptService } from '../receipt.service';
+import { PolicyDryRunDto } from '../../policy/dto/policy-rule.dto';
+import { PolicyDryRunResult } from '../../policy/interfaces/policy.interface';
+import { CurrentTenant } from '../../auth/decorators/auth.decorators';
+
+// Lives with receipts because a dry run reads the receipt store
+@Controller('policies')
+export class PolicyDryRunController {
+  constructor(private readonly receiptService: ReceiptService) {}
+
+  @Post('dry-run')
+  @HttpCode(HttpStatus.OK)
+  dryRun(
+    @CurrentTenant() tenantId: string,
+    @Body() body: PolicyDryRunDto,
+  ): Promise<PolicyDryRunResult> {
+    return this.receiptService.dryRunPolicy(tenantId, body);
+  }
+}
@@ -0,0 +1,19 @@
+import { FactoryProvider } from '@nestjs/common';
+import { ImagePreprocessor } from './image-preprocessor';
+import { numberFromEnv } from '../../common/env-number';
+
+export function createImagePreprocessor(
+  env: NodeJS.ProcessEnv = process.env,
+): ImagePreprocessor {
+  return new ImagePreprocessor({
+    enabled: env.IMAGE_PREPROCESSING !== 'false',
+    maxDimension: numberFromEnv(env.IMAGE_MAX_DIMENSION, 2000, 1),
+    enhance: env.IMAGE_ENHANCE !== 'false',
+    cropToReceipt: env.IMAGE_CROP_TO_RECEIPT === 'true',
+  });
+}
+
+export const imagePreprocessor: FactoryProvider<ImagePreprocessor> = {
+  provide: ImagePreprocessor,
+  useFactory: () => createImagePreprocessor(),
+};
@@ -0,0 +1,169 @@
+import { Logger } from '@nestjs/common';
+import * as sharp from 'sharp';
+import { ImagePreprocessor, estimateSkew } from './image-preprocessor';
+import { ImagePreprocessingOptions } from '../interfaces/image-preprocessing.interface';
+
+describe('ImagePreprocessor', () => {
+  const options: ImagePreprocessingOptions = {
+    enabled: true,
+    maxDimension: 400,
+    enhance: true,
+    cropToReceipt: false,
+  };
+
+  // A colour photo, optionally tagged with an EXIF orientation
+  function photo(width: number, height: number, orientation?: number) {
+    const image = sharp({
+      create: {
+        width,
+        height,
+        channels: 3,
+        background: { r: 200, g: 180, b: 120 },
+      },
+    }).jpeg();
+    return (
+      orientation ? image.withMetadata({ orientation }) : image
+    ).toBuffer();
+  }
+
+  it('applies the EXIF orientation and scales down large photos', async () => {
+    const preprocessor = new ImagePreprocessor(options);
+
+    // Stored landscape, displayed portrait
+    const result = await preprocessor.process(
+      await photo(1200, 800, 6),
+      'image/jpeg',
+    );
+
+    expect(result.steps).toEqual(['auto_orient', 'resize', 'enhance']);
+    expect(result).toMatchObject({
+      mimeType: 'image/jpeg',
+      width: 267,
+      height: 400,
+    });
+    const metadata = await sharp(result.data).metadata();
+    expect(metadata.orientation).toBeUndefined();
+    expect(metadata.channels).toBe(1);
+  });
+
+  it('leaves small, upright photos at their size', async () => {
+    const preprocessor = new ImagePreprocessor({ ...options, enhance: false });
+
+    const result = await preprocessor.process(
+      await photo(300, 200),
+      'image/png',
+    );
+
+    expect(result.steps).toEqual([]);
+    expect(result).toMatchObject({ width: 300, height: 200 });
+  });
+
+  it('crops the uniform background around the receipt', async () => {
+    const preprocessor = new ImagePreprocessor({
+      ...options,
+      enhance: false,
+      cropToReceipt: true,
+    });
+    const receiptOnTable = await sharp({
+      create: {
+        width: 300,
+        height: 300,
+        channels: 3,
+        background: { r: 30, g: 30, b: 30 },
+      },
+    })
+      .composite([
+        {
+          input: await photo(100, 200),
+          left: 100,
+          top: 50,
+        },
+      ])
+      .png()
+      .toBuffer();
+
+    const result = await preprocessor.process(receiptOnTable, 'image/png');
+
+    expect(result.steps).toEqual(['crop_to_receipt']);
+    expect(result).toMatchObject({ width: 100, height: 200 });
+  });
+
+  // White paper with dark lines of "text", turned clockwise by `degrees`
+  async function printedReceipt(degrees: number) {
+    const line = await sharp({
+      create: {
+        width: 160,
+        height: 6,
+        channels: 3,
+        background: { r: 20, g: 20, b: 20 },
+      },
+    })
+      .png()
+      .toBuffer();
+    const page = await sharp({
+      create: {
+        width: 200,
+        height: 300,
+        channels: 3,
+        background: { r: 255, g: 255, b: 255 },
+      },
+    })
+      .composite(
+        Array.from({ length: 12 }, (_, i) => ({
+          input: line,
+          left: 20,
+          top: 20 + i * 22,
+        })),
+      )
+      .png()
+      .toBuffer();
+    // sharp rotates before compositing, so turn the finished page separately
+    return sharp(page)
+      .rotate(degrees, { background: '#ffffff' })
+      .png()
+      .toBuffer();
+  }
+
+  it('measures how far text lines are turned', async () => {
+    expect(await estimateSkew(await printedReceipt(6))).toBeCloseTo(6, 0);
+    expect(await estimateSkew(await printedReceipt(-4))).toBeCloseTo(-4, 0);
+    expect(await estimateSkew(await printedReceipt(0))).toBe(0);
+  });
+
+  it('straightens a receipt photographed at an angle when cropping', async () => {
+    const preprocessor = new ImagePreprocessor({
+      ...options,
+      enhance: false,
+      cropToReceipt: true,
+    });
+
+    const result = await preprocessor.process(
+      await printedReceipt(6),
+      'image/png',
+    );
+
+    expect(result.steps).toEqual(['crop_to_receipt', 'deskew']);
+    expect(Math.abs(await estimateSkew(result.data))).toBeLessThanOrEqual(0.5);
+  });
+
+  it('passes PDFs and undecodable images through', async () => {
+    const preprocessor = new ImagePreprocessor(options);
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+
+    expect(
+      await preprocessor.process(Buffer.from('%PDF-1.4'), 'application/pdf'),
+    ).toBeUndefined();
+    expect(
+      await preprocessor.process(Buffer.from('not an image'), 'image/jpeg'),
+    ).toBeUndefined();
+    expect(Logger.prototype.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing when disabled', async () => {
+    const preprocessor = new ImagePreprocessor({ ...options, enabled: false });
+
+    expect(
+      await preprocessor.process(await photo(1200, 800), 'image/jpeg'),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,167 @@
+import { Logger } from '@nestjs/common';
+import * as sharp from 'sharp';
+import {
+  ImagePreprocessingOptions,
+  PreprocessedImage,
+  PreprocessingStep,
+} from '../interfaces/image-preprocessing.interface';
+
+export const PROCESSED_IMAGE_MIME_TYPE = 'image/jpeg';
+const PROCESSED_IMAGE_SUFFIX = '.processed.jpg';
+
+// Deskew searches this many degrees either way, in half-degree steps, on a
+// small copy of the image; smaller angles are left alone
+const MAX_SKEW_DEGREES = 15;
+const SKEW_STEP_DEGREES = 0.5;
+const SKEW_SAMPLE_SIZE = 400;
+
+// The processed copy is stored next to the original upload
+export function processedImageKeyOf(fileName: string): string {
+  return fileName + PROCESSED_IMAGE_SUFFIX;
+}
+
+export function isProcessedImageKey(key: string): boolean {
+  return key.endsWith(PROCESSED_IMAGE_SUFFIX);
+}
+
+/**
+ * Estimates how far text lines are turned clockwise, in degrees. Dark pixels
+ * are projected onto the vertical axis at each candidate angle; the angle at
+ * which rows of text pile up into the sharpest peaks is the skew.
+ */
+export async function estimateSkew(data: Buffer): Promise<number> {
+  const { data: pixels, info } = await sharp(data)
+    .resize({
+      width: SKEW_SAMPLE_SIZE,
+      height: SKEW_SAMPLE_SIZE,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  let sum = 0;
+  for (const value of pixels) {
+    sum += value;
+  }
+  const threshold = (sum / pixels.length) * 0.75;
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < pixels.length; i += info.channels) {
+    if (pixels[i] < threshold) {
+      xs.push((i / info.channels) % info.width);
+      ys.push(Math.floor(i / info.channels / info.width));
+    }
+  }
+  if (xs.length === 0) {
+    return 0;
+  }
+
+  const offset = info.width + info.height;
+  let best = { angle: 0, score: -1 };
+  for (
+    let angle = -MAX_SKEW_DEGREES;
+    angle <= MAX_SKEW_DEGREES;
+    angle += SKEW_STEP_DEGREES
+  ) {
+    const radians = (angle * Math.PI) / 180;
+    const [sin, cos] = [Math.sin(radians), Math.cos(radians)];
+    const rows = new Float64Array(2 * offset);
+    for (let j = 0; j < xs.length; j++) {
+      rows[Math.round(ys[j] * cos - xs[j] * sin) + offset]++;
+    }
+    let score = 0;
+    for (const count of rows) {
+      score += count * count;
+    }
+    // Prefer the smaller correction when angles tie
+    if (
+      score > best.score ||
+      (score === best.score && Math.abs(angle) < Math.abs(best.angle))
+    ) {
+      best = { angle, score };
+    }
+  }
+  return best.angle;
+}
+
+/**
+ * Normalizes receipt photos before they are sent for extraction: applies the
+ * EXIF orientation, scales down oversized photos and optionally enhances
+ * contrast, crops to the receipt and straightens it. PDFs are passed through
+ * untouched.
+ */
+export class ImagePreprocessor {
+  private readonly logger = new Logger(ImagePreprocessor.name);
+
+  constructor(private readonly options: ImagePreprocessingOptions) {}
+
+  // Resolves to undefined when the original should be sent as-is
+  async process(
+    data: Buffer,
+    mimeType: string,
+  ): Promise<PreprocessedImage | undefined> {
+    if (!this.options.enabled || !mimeType.startsWith('image/')) {
+      return undefined;
+    }
+
+    try {
+      return await this.transform(data);
+    } catch (error) {
+      // An image sharp cannot decode may still be readable by the provider
+      this.logger.warn(
+        `Image preprocessing failed, using original: ${error.message}`,
+      );
+      return undefined;
+    }
+  }
+
+  private async transform(data: Buffer): Promise<PreprocessedImage> {
+    const { width, height, orientation } = await sharp(data).metadata();
+    const steps: PreprocessingStep[] = [];
+
+    let image = sharp(data).rotate();
+    if (orientation && orientation !== 1) {
+      steps.push('auto_orient');
+    }
+    if (this.options.cropToReceipt) {
+      image = image.trim({ threshold: 40 });
+      steps.push('crop_to_receipt');
+
+      // The skew is measured on the cropped receipt, so the table around it
+      // does not count as text
+      const cropped = await image.png().toBuffer();
+      const skew = await estimateSkew(cropped);
+      image = sharp(cropped);
+      if (skew !== 0) {
+        image = image.rotate(-skew, { background: '#ffffff' });
+        steps.push('deskew');
+      }
+    }
+    if (Math.max(width, height) > this.options.maxDimension) {
+      image = image.resize({
+        width: this.options.maxDimension,
+        height: this.options.maxDimension,
+        fit: 'inside',
+        withoutEnlargement: true,
+      });
+      steps.push('resize');
+    }
+    if (this.options.enhance) {
+      image = image.grayscale().normalize().toColourspace('b-w');
+      steps.push('enhance');
+    }
+
+    const { data: output, info } = await image
+      .jpeg({ quality: 85, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+    return {
+      data: output,
+      mimeType: PROCESSED_IMAGE_MIME_TYPE,
+      width: info.width,
+      height: info.height,
+      steps,
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { createExtractionProvider } from './extraction-provider.factory';
+import { GeminiExtractionProvider } from './gemini-extraction.provider';
+import { LocalExtractionProvider } from './local-extraction.provider';
+
+jest.mock('@google/generative-ai');
+
+describe('createExtractionProvider', () => {
+  it('should select Gemini when an API key is configured', () => {
+    const provider = createExtractionProvider({ GEMINI_API_KEY: 'key' });
+    expect(provider).toBeInstanceOf(GeminiExtractionProvider);
+  });
+
+  it('should select the local provider only when asked for', () => {
+    const provider = createExtractionProvider({ EXTRACTION_PROVIDER: 'local' });
+    expect(provider).toBeInstanceOf(LocalExtractionProvider);
+  });
+
+  it('should not fall back to the local provider without an API key', () => {
+    expect(() => createExtractionProvider({})).toThrow(
+      'GEMINI_API_KEY environment variable is required',
+    );
+  });
+
+  it('should throw if Gemini is selected without GEMINI_API_KEY', () => {
+    expect(() =>
+      createExtractionProvider({ EXTRACTION_PROVIDER: 'gemini' }),
+    ).toThrow('GEMINI_API_KEY environment variable is required');
+  });
+
+  it('should reject unknown provider names', () => {
+    expect(() =>
+      createExtractionProvider({ EXTRACTION_PROVIDER: 'tesseract' }),
+    ).toThrow("Unknown EXTRACTION_PROVIDER 'tesseract'");
+  });
+});
+
+describe('LocalExtractionProvider', () => {
+  let fixturesDir: string;
+  let provider: LocalExtractionProvider;
+
+  beforeEach(async () => {
+    fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fixtures-'));
+    provider = new LocalExtractionProvider(fixturesDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  const request = (fileName: string, data: Buffer) => ({
+    prompt: 'extract',
+    fileName,
+    mimeType: 'image/jpeg',
+    data,
+  });
+
+  it('should resolve fixtures by file base name', async () => {
+    await fs.writeFile(path.join(fixturesDir, '1.json'), '{"total": 1}');
+
+    const text = await provider.generate(request('1.jpg', Buffer.from('a')));
+    expect(text).toBe('{"total": 1}');
+  });
+
+  it('should prefer fixtures keyed by content hash', async () => {
+    const data = Buffer.from('image-bytes');
+    const digest = createHash('sha256').update(data).digest('hex');
+    await fs.writeFile(path.join(fixturesDir, '1.json'), '{"total": 1}');
+    await fs.writeFile(
+      path.join(fixturesDir, `${digest}.json`),
+      '{"total": 2}',
+    );
+
+    const text = await provider.generate(request('1.jpg', data));
+    expect(text).toBe('{"total": 2}');
+  });
+
+  it('should prefer the digest of the original upload over the bytes sent', async () => {
+    const original = Buffer.from('uploaded-bytes');
+    const digest = createHash('sha256').update(original).digest('hex');
+    await fs.writeFile(
+      path.join(fixturesDir, `${digest}.json`),
+      '{"total": 3}',
+    );
+
+    const text = await provider.generate({
+      ...request('receipt.jpg', Buffer.from('preprocessed-bytes')),
+      sourceDigest: digest,
+    });
+    expect(text).toBe('{"total": 3}');
+  });
+
+  it('should throw when no fixture matches', async () => {
+    await expect(
+      provider.generate(request('missing.jpg', Buffer.from('a'))),
+    ).rejects.toThrow("No local extraction fixture for 'missing.jpg'");
+  });
+});
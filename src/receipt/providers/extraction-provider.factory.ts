@@ -0,0 +1,33 @@
+import { FactoryProvider } from '@nestjs/common';
+import * as path from 'path';
+import {
+  RECEIPT_EXTRACTION_PROVIDER,
+  ReceiptExtractionProvider,
+} from '../interfaces/receipt-extraction-provider.interface';
+import { GeminiExtractionProvider } from './gemini-extraction.provider';
+import { LocalExtractionProvider } from './local-extraction.provider';
+
+export function createExtractionProvider(
+  env: NodeJS.ProcessEnv = process.env,
+): ReceiptExtractionProvider {
+  // Fixture answers must be asked for explicitly; a deploy that merely lacks
+  // GEMINI_API_KEY fails at startup instead of serving them
+  const providerName = env.EXTRACTION_PROVIDER || 'gemini';
+
+  switch (providerName) {
+    case 'gemini':
+      return new GeminiExtractionProvider(env.GEMINI_API_KEY);
+    case 'local':
+      return new LocalExtractionProvider(
+        env.LOCAL_EXTRACTION_FIXTURES_DIR ||
+          path.join(process.cwd(), 'fixtures', 'extractions'),
+      );
+    default:
+      throw new Error(`Unknown EXTRACTION_PROVIDER '${providerName}'`);
+  }
+}
+
+export const extractionProvider: FactoryProvider<ReceiptExtractionProvider> = {
+  provide: RECEIPT_EXTRACTION_PROVIDER,
+  useFactory: () => createExtractionProvider(),
+};
@@ -0,0 +1,59 @@
+import { GoogleGenerativeAI, ResponseSchema } from '@google/generative-ai';
+import {
+  ExtractionRequest,
+  ReceiptExtractionProvider,
+} from '../interfaces/receipt-extraction-provider.interface';
+import { omitKeywords } from '../../common/schema/json-schema';
+
+// Gemini takes a subset of OpenAPI schemas and rejects other keywords; the
+// pipeline still enforces these after the response arrives
+const UNSUPPORTED_SCHEMA_KEYWORDS = [
+  'pattern',
+  'minLength',
+  'maxLength',
+  'errorMessage',
+];
+
+export class GeminiExtractionProvider implements ReceiptExtractionProvider {
+  readonly name = 'gemini';
+  private readonly genAI: GoogleGenerativeAI;
+
+  constructor(
+    apiKey: string,
+    private readonly defaultModel = 'gemini-1.5-flash',
+  ) {
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is required');
+    }
+
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generate(request: ExtractionRequest): Promise<string> {
+    const model = this.genAI.getGenerativeModel({
+      model: request.model ?? this.defaultModel,
+      generationConfig: {
+        temperature: request.temperature,
+        ...(request.responseSchema && {
+          responseMimeType: 'application/json',
+          responseSchema: omitKeywords(
+            request.responseSchema,
+            UNSUPPORTED_SCHEMA_KEYWORDS,
+          ) as ResponseSchema,
+        }),
+      },
+    });
+    const result = await model.generateContent([
+      request.prompt,
+      {
+        inlineData: {
+          data: request.data.toString('base64'),
+          mimeType: request.mimeType,
+        },
+      },
+    ]);
+
+    const response = await result.response;
+    return response.text();
+  }
+}
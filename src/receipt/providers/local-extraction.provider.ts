@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import {
+  ExtractionRequest,
+  ReceiptExtractionProvider,
+} from '../interfaces/receipt-extraction-provider.interface';
+
+/**
+ * Offline stand-in for the model. Answers come from JSON fixtures looked up
+ * first by the SHA-256 of the upload as the client sent it (not of the
+ * preprocessed copy), then of the bytes received, and then by the upload's
+ * base name, so `1.jpg` resolves to `<fixturesDir>/1.json`.
+ */
+export class LocalExtractionProvider implements ReceiptExtractionProvider {
+  readonly name = 'local';
+
+  constructor(private readonly fixturesDir: string) {}
+
+  async generate(request: ExtractionRequest): Promise<string> {
+    const digest = createHash('sha256').update(request.data).digest('hex');
+    const baseName = path.parse(request.fileName).name;
+    const candidates = new Set(
+      [request.sourceDigest, digest, baseName].filter(Boolean),
+    );
+
+    for (const candidate of candidates) {
+      try {
+        return await fs.readFile(
+          path.join(this.fixturesDir, `${candidate}.json`),
+          'utf8',
+        );
+      } catch {
+        // Try the next candidate
+      }
+    }
+
+    throw new Error(
+      `No local extraction fixture for '${request.fileName}' in ${this.fixturesDir}`,
+    );
+  }
+}
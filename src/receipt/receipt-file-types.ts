@@ -0,0 +1,44 @@
+import * as path from 'path';
+import { AppException } from '../common/errors/app-exception';
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+export const SUPPORTED_MIME_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/webp',
+  PDF_MIME_TYPE,
+];
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.pdf': PDF_MIME_TYPE,
+};
+
+export const UNSUPPORTED_FILE_TYPE_MESSAGE =
+  'Only .jpg, .jpeg, .png, .webp, and .pdf files are allowed';
+
+export const unsupportedFileType = () =>
+  new AppException('UNSUPPORTED_MEDIA', UNSUPPORTED_FILE_TYPE_MESSAGE);
+
+// Resolves the mimetype for a stored or sample file, or undefined if unsupported
+export function mimeTypeForFile(fileName: string): string | undefined {
+  return MIME_TYPES_BY_EXTENSION[path.extname(fileName).toLowerCase()];
+}
+
+export function isPdfDocument(buffer: Buffer): boolean {
+  return buffer.subarray(0, 5).toString('latin1') === '%PDF-';
+}
+
+// Counts page objects without a full PDF parser. Compressed object streams
+// can hide pages, so this is a best effort that never returns less than 1.
+export function countPdfPages(buffer: Buffer): number {
+  const matches = buffer
+    .toString('latin1')
+    .match(/\/Type\s*\/Page(?![a-zA-Z])/g);
+  return Math.max(1, matches?.length ?? 0);
+}
@@ -1,41 +1,202 @@
-import { 
-  Controller, 
-  Post, 
-  UploadedFile, 
-  UseInterceptors, 
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Param,
+  Query,
+  Body,
+  Res,
+  UploadedFile,
+  UploadedFiles,
+  UseInterceptors,
   BadRequestException,
   HttpCode,
-  HttpStatus
+  HttpStatus,
 } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
 import { ReceiptService } from './receipt.service';
 import { ReceiptResponse } from './dto/receipt-response.dto';
+import {
+  ListReceiptsQueryDto,
+  ReceiptPage,
+} from './dto/list-receipts-query.dto';
+import { UpdateReceiptDto } from './dto/update-receipt.dto';
+import { ExtractReceiptQueryDto } from './dto/extract-receipt-query.dto';
+import { ExtractionJob } from './interfaces/extraction-job.interface';
+import { WebhookNotifier } from './jobs/webhook-notifier.service';
+import { ExtractionJobQueue } from './jobs/extraction-job-queue.service';
+import { ReceiptBatchService } from './batch/receipt-batch.service';
+import { BatchExtractionResult } from './interfaces/batch-extraction.interface';
+import {
+  CurrentPrincipal,
+  CurrentTenant,
+} from '../auth/decorators/auth.decorators';
+import { Principal } from '../auth/interfaces/auth.interface';
+import { PromptTemplateService } from '../prompts/prompt-template.service';
+import { PromptVersionQueryDto } from '../prompts/dto/prompt-selection.dto';
+import {
+  SUPPORTED_MIME_TYPES,
+  unsupportedFileType,
+} from './receipt-file-types';
 
-@Controller('receipt')
+@Controller()
 export class ReceiptController {
-  constructor(private readonly receiptService: ReceiptService) {}
-
-  @Post('extract-receipt-details')
-  @HttpCode(HttpStatus.OK)  @UseInterceptors(FileInterceptor('file', {
-    limits: {
-      fileSize: 10 * 1024 * 1024, // 10MB limit
-    },
-    fileFilter: (req, file, callback) => {
-      const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-      if (allowedTypes.includes(file.mimetype)) {
-        callback(null, true);
-      } else {
-        callback(new BadRequestException('Only .jpg, .jpeg, .png, and .webp files are allowed'), false);
-      }
-    },
-  }))
+  constructor(
+    private readonly receiptService: ReceiptService,
+    private readonly jobQueue: ExtractionJobQueue,
+    private readonly batchService: ReceiptBatchService,
+    private readonly promptTemplates: PromptTemplateService,
+    private readonly webhookNotifier: WebhookNotifier,
+  ) {}
+
+  @Post('receipt/extract-receipt-details')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB limit
+      },
+      fileFilter: (req, file, callback) => {
+        if (SUPPORTED_MIME_TYPES.includes(file.mimetype)) {
+          callback(null, true);
+        } else {
+          callback(unsupportedFileType(), false);
+        }
+      },
+    }),
+  )
   async extractReceiptDetails(
+    @CurrentTenant() tenantId: string,
     @UploadedFile() file: Express.Multer.File,
-  ): Promise<ReceiptResponse> {
+    @Query() query: ExtractReceiptQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ReceiptResponse | ExtractionJob> {
     if (!file) {
       throw new BadRequestException('No file uploaded');
     }
 
-    return this.receiptService.extractReceiptDetails(file);
+    // Async mode hands the upload to the job queue and returns immediately
+    if (query.async || query.webhook_url) {
+      if (query.prompt_version) {
+        this.promptTemplates.assertVersion(query.prompt_version);
+      }
+      if (query.webhook_url) {
+        await this.webhookNotifier.assertDeliverable(query.webhook_url);
+      }
+      res.status(HttpStatus.ACCEPTED);
+      return this.jobQueue.enqueue(
+        tenantId,
+        file,
+        query.webhook_url,
+        query.prompt_version,
+      );
+    }
+
+    return this.receiptService.extractReceiptDetails(
+      tenantId,
+      file,
+      query.prompt_version,
+    );
+  }
+
+  // Accepts several images and/or .zip archives; unsupported files are
+  // reported per file rather than rejecting the whole request
+  @Post('receipt/extract-receipt-details/batch')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    // Uploads are held in memory, so 20 files of 10MB keep one request within
+    // the 200MB that archives in a batch may expand to
+    FilesInterceptor('files', 20, {
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB limit, archives included
+      },
+    }),
+  )
+  async extractReceiptDetailsBatch(
+    @CurrentTenant() tenantId: string,
+    @UploadedFiles() files: Express.Multer.File[],
+    @Query() query: PromptVersionQueryDto,
+  ): Promise<BatchExtractionResult> {
+    if (!files || files.length === 0) {
+      throw new BadRequestException('No files uploaded');
+    }
+    if (query.prompt_version) {
+      this.promptTemplates.assertVersion(query.prompt_version);
+    }
+
+    return this.batchService.extractBatch(
+      tenantId,
+      files,
+      query.prompt_version,
+    );
+  }
+
+  @Get('receipt/jobs/:id')
+  getJob(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+  ): ExtractionJob {
+    return this.jobQueue.getJob(tenantId, id);
+  }
+
+  @Get('receipts')
+  listReceipts(
+    @CurrentTenant() tenantId: string,
+    @Query() query: ListReceiptsQueryDto,
+  ): Promise<ReceiptPage<ReceiptResponse>> {
+    return this.receiptService.listReceipts(tenantId, query);
+  }
+
+  @Post('receipts/base-amounts/refresh')
+  @HttpCode(HttpStatus.OK)
+  refreshBaseAmounts(
+    @CurrentTenant() tenantId: string,
+  ): Promise<{ updated: number }> {
+    return this.receiptService.refreshBaseAmounts(tenantId);
+  }
+
+  @Get('receipts/:id')
+  getReceipt(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<ReceiptResponse> {
+    return this.receiptService.getReceipt(tenantId, id);
+  }
+
+  @Patch('receipts/:id')
+  updateReceipt(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Body() changes: UpdateReceiptDto,
+    @CurrentPrincipal() actor: Principal,
+  ): Promise<ReceiptResponse> {
+    return this.receiptService.updateReceipt(tenantId, id, changes, actor);
+  }
+
+  // Runs extraction again on the stored file, e.g. under a newer prompt
+  @Post('receipts/:id/reextract')
+  @HttpCode(HttpStatus.OK)
+  reextractReceipt(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Query() query: PromptVersionQueryDto,
+  ): Promise<ReceiptResponse> {
+    return this.receiptService.reextractReceipt(
+      tenantId,
+      id,
+      query.prompt_version,
+    );
+  }
+
+  @Delete('receipts/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  deleteReceipt(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<void> {
+    return this.receiptService.deleteReceipt(tenantId, id);
   }
 }
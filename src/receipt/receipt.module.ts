@@ -1,10 +1,55 @@
 import { Module } from '@nestjs/common';
+import { CurrencyModule } from '../currency/currency.module';
+import { CategorizationModule } from '../categorization/categorization.module';
+import { StorageModule } from '../storage/storage.module';
+import { PolicyModule } from '../policy/policy.module';
+import { PromptModule } from '../prompts/prompt.module';
 import { ReceiptController } from './receipt.controller';
 import { ReceiptService } from './receipt.service';
+import { extractionProvider } from './providers/extraction-provider.factory';
+import { receiptRepository } from './repositories/receipt-repository.factory';
+import { ReceiptRepository } from './repositories/receipt.repository';
+import { ReceiptValidationService } from './validation/receipt-validation.service';
+import { ReceiptExtractionPipeline } from './extraction/receipt-extraction.pipeline';
+import { ExtractionJobQueue } from './jobs/extraction-job-queue.service';
+import { WebhookNotifier } from './jobs/webhook-notifier.service';
+import { ReceiptBatchService } from './batch/receipt-batch.service';
+import { VendorController } from './vendors/vendor.controller';
+import { vendorRegistry } from './vendors/vendor-registry.factory';
+import { VendorRegistry } from './vendors/vendor-registry.service';
+import { imagePreprocessor } from './preprocessing/image-preprocessor.factory';
+import { PolicyDryRunController } from './policy/policy-dry-run.controller';
+import { ReviewController } from './review/review.controller';
+import { receiptAuditLog } from './review/receipt-audit-log.factory';
+import { ReceiptAuditLog } from './review/receipt-audit-log';
 
 @Module({
-  controllers: [ReceiptController],
-  providers: [ReceiptService],
-  exports: [ReceiptService],
+  imports: [
+    CurrencyModule,
+    CategorizationModule,
+    StorageModule,
+    PolicyModule,
+    PromptModule,
+  ],
+  controllers: [
+    ReceiptController,
+    VendorController,
+    PolicyDryRunController,
+    ReviewController,
+  ],
+  providers: [
+    ReceiptService,
+    ReceiptValidationService,
+    ReceiptExtractionPipeline,
+    ExtractionJobQueue,
+    WebhookNotifier,
+    ReceiptBatchService,
+    extractionProvider,
+    receiptRepository,
+    vendorRegistry,
+    imagePreprocessor,
+    receiptAuditLog,
+  ],
+  exports: [ReceiptService, ReceiptRepository, VendorRegistry, ReceiptAuditLog],
 })
 export class ReceiptModule {}
@@ -1,34 +1,98 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { ReceiptService } from './receipt.service';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { RECEIPT_EXTRACTION_PROVIDER } from './interfaces/receipt-extraction-provider.interface';
+import { ReceiptRepository } from './repositories/receipt.repository';
+import { InMemoryReceiptRepository } from './repositories/in-memory-receipt.repository';
+import { ReceiptValidationService } from './validation/receipt-validation.service';
+import { ReceiptExtractionPipeline } from './extraction/receipt-extraction.pipeline';
+import { ExchangeRateService } from '../currency/exchange-rate.service';
+import { CategorizationService } from '../categorization/categorization.service';
+import { DEFAULT_TAXONOMY } from '../categorization/default-taxonomy';
+import { VendorRegistry } from './vendors/vendor-registry.service';
+import { normalizeVendorName } from './vendors/vendor-name';
+import { ReceiptStorage } from '../storage/receipt-storage';
+import { LocalReceiptStorage } from '../storage/local-receipt-storage';
+import { FileUrlSigner } from '../storage/file-url-signer.service';
+import { ImagePreprocessor } from './preprocessing/image-preprocessor';
+import { PolicyService } from '../policy/policy.service';
+import { evaluatePolicy } from '../policy/policy-engine';
+import { PolicyRule } from '../policy/interfaces/policy.interface';
+import { ReceiptAuditLog } from './review/receipt-audit-log';
+import { AuditEntry } from './interfaces/receipt-review.interface';
+import { Principal } from '../auth/interfaces/auth.interface';
+import { PromptTemplateService } from '../prompts/prompt-template.service';
+import { PromptTemplate } from '../prompts/interfaces/prompt-template.interface';
+import { RECEIPT_SCHEMA } from './extraction/receipt-schema';
+import { LocalExtractionProvider } from './providers/local-extraction.provider';
+import { createHash } from 'crypto';
 import { promises as fs } from 'fs';
+import * as path from 'path';
 
 // Mock the dependencies
-jest.mock('@google/generative-ai');
 jest.mock('fs', () => ({
   promises: {
     access: jest.fn(),
     mkdir: jest.fn(),
     writeFile: jest.fn(),
+    readFile: jest.fn(),
+    readdir: jest.fn(),
+    unlink: jest.fn(),
   },
 }));
 
+const TENANT = 'acme';
+// The checked-in template, read past the fs mock, with test settings
+const PROMPT: PromptTemplate = {
+  ...JSON.parse(
+    jest
+      .requireActual('fs')
+      .readFileSync(
+        path.join(__dirname, '../../prompts/receipt-extraction-v1.json'),
+        'utf8',
+      ),
+  ),
+  model: 'gemini-test',
+  temperature: 0.2,
+  locale_hints: ['Dates are written day first'],
+};
+const ACTOR: Principal = {
+  method: 'api_key',
+  subject: 'key-1',
+  tenant_id: TENANT,
+};
+
 describe('ReceiptService', () => {
   let service: ReceiptService;
-  let mockGenAI: jest.Mocked<GoogleGenerativeAI>;
-  let mockModel: any;
+  let repository: ReceiptRepository;
+  let mockProvider: { name: string; generate: jest.Mock };
+  let mockExchangeRates: { toBaseAmounts: jest.Mock };
+  let mockVendorRegistry: {
+    list: jest.Mock;
+    resolve: jest.Mock;
+    merge: jest.Mock;
+  };
+  let mockPreprocessor: { process: jest.Mock };
+  let policyRules: PolicyRule[];
+  let auditEntries: AuditEntry[];
+  let mockAuditLog: Pick<ReceiptAuditLog, 'record' | 'list'>;
+  let mockPromptTemplates: { resolve: jest.Mock };
+  let mockPolicy: Record<'evaluate' | 'listRules' | 'buildRules', jest.Mock>;
+  let mockCategorization: Record<
+    'getTaxonomy' | 'categorize' | 'assertCategory' | 'learnVendorCategory',
+    jest.Mock
+  >;
 
   const mockValidResponse = {
     date: '2024-01-15',
     currency: 'USD',
     vendor_name: 'Test Store',
     receipt_items: [
-      { item_name: 'Coffee', item_cost: 4.50 },
-      { item_name: 'Sandwich', item_cost: 8.99 }
+      { item_name: 'Coffee', item_cost: 4.5 },
+      { item_name: 'Sandwich', item_cost: 8.99 },
     ],
     tax: 1.35,
-    total: 14.84
+    total: 14.84,
   };
 
   const mockFile: Express.Multer.File = {
@@ -45,26 +109,132 @@ describe('ReceiptService', () => {
   };
 
   beforeEach(async () => {
-    // Reset environment variable
-    process.env.GEMINI_API_KEY = 'test-api-key';
+    // Retry immediately instead of backing off, and time out quickly
+    process.env.EXTRACTION_RETRY_BASE_DELAY_MS = '0';
+    process.env.EXTRACTION_TIMEOUT_MS = '50';
+
+    // Stand-in extraction provider returning raw model text
+    mockProvider = {
+      name: 'mock',
+      generate: jest.fn(),
+    };
+
+    // CAD converts at 0.75; anything else has no rate
+    mockExchangeRates = {
+      toBaseAmounts: jest.fn(async ({ currency, total, tax }) =>
+        currency === 'CAD'
+          ? {
+              currency: 'USD',
+              rate: 0.75,
+              rate_date: '2024-01-01',
+              total: total * 0.75,
+              tax: tax * 0.75,
+            }
+          : undefined,
+      ),
+    };
+
+    // Categorization passes receipts through; its rules are tested separately
+    mockCategorization = {
+      getTaxonomy: jest.fn().mockResolvedValue(DEFAULT_TAXONOMY),
+      categorize: jest.fn(async (_, receipt) => receipt),
+      assertCategory: jest.fn(async (category) => {
+        if (!DEFAULT_TAXONOMY.some((c) => c.id === category)) {
+          throw new BadRequestException(`Unknown category '${category}'`);
+        }
+      }),
+      learnVendorCategory: jest.fn(),
+    };
 
-    // Create mock model with proper methods
-    mockModel = {
-      generateContent: jest.fn(),
+    // One vendor per tenant and normalized name
+    const vendors = new Map<string, { id: string; tenant_id: string }>();
+    mockVendorRegistry = {
+      list: jest.fn(async (tenantId: string) =>
+        [...vendors.values()].filter((v) => v.tenant_id === tenantId),
+      ),
+      resolve: jest.fn(async (tenantId: string, name: string) => {
+        const vendor = {
+          id: `vendor-${normalizeVendorName(name)}`,
+          tenant_id: tenantId,
+          name,
+        };
+        vendors.set(`${tenantId}|${vendor.id}`, vendor);
+        return vendor;
+      }),
+      merge: jest.fn(async (_: string, targetId: string) => ({ id: targetId })),
     };
 
-    // Mock GoogleGenerativeAI
-    mockGenAI = {
-      getGenerativeModel: jest.fn().mockReturnValue(mockModel),
-    } as any;
+    // Originals are sent as-is unless a test opts into preprocessing
+    mockPreprocessor = { process: jest.fn().mockResolvedValue(undefined) };
+
+    // The tenant's rules are whatever a test puts in policyRules
+    policyRules = [];
+    mockPolicy = {
+      evaluate: jest.fn(
+        async (tenantId, receipt, submittedAt = new Date()) => ({
+          violations: evaluatePolicy(policyRules, receipt, submittedAt),
+          evaluated_at: new Date().toISOString(),
+        }),
+      ),
+      listRules: jest.fn(async () => policyRules),
+      buildRules: jest.fn(async (tenantId, dtos) =>
+        dtos.map((dto, index) => ({
+          id: `draft-${index}`,
+          tenant_id: tenantId,
+          severity: 'warning',
+          enabled: true,
+          created_at: '2024-01-01T00:00:00.000Z',
+          ...dto,
+        })),
+      ),
+    };
 
-    (GoogleGenerativeAI as jest.MockedClass<typeof GoogleGenerativeAI>).mockImplementation(() => mockGenAI);
+    mockPromptTemplates = {
+      resolve: jest.fn(async (tenantId: string, version?: string) => ({
+        ...PROMPT,
+        version: version ?? PROMPT.version,
+      })),
+    };
+    auditEntries = [];
+    mockAuditLog = {
+      record: async (entries) => {
+        const recorded = entries.map((entry, index) => ({
+          id: `audit-${auditEntries.length + index}`,
+          ...entry,
+        }));
+        auditEntries.push(...recorded);
+        return recorded;
+      },
+      list: async (tenantId, receiptId) =>
+        auditEntries.filter(
+          (e) => e.tenant_id === tenantId && e.receipt_id === receiptId,
+        ),
+    };
 
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ReceiptService],
+      providers: [
+        ReceiptService,
+        ReceiptValidationService,
+        ReceiptExtractionPipeline,
+        { provide: RECEIPT_EXTRACTION_PROVIDER, useValue: mockProvider },
+        { provide: ReceiptRepository, useClass: InMemoryReceiptRepository },
+        { provide: ExchangeRateService, useValue: mockExchangeRates },
+        { provide: CategorizationService, useValue: mockCategorization },
+        { provide: VendorRegistry, useValue: mockVendorRegistry },
+        {
+          provide: ReceiptStorage,
+          useValue: new LocalReceiptStorage('/srv/uploads'),
+        },
+        FileUrlSigner,
+        { provide: ImagePreprocessor, useValue: mockPreprocessor },
+        { provide: PolicyService, useValue: mockPolicy },
+        { provide: ReceiptAuditLog, useValue: mockAuditLog },
+        { provide: PromptTemplateService, useValue: mockPromptTemplates },
+      ],
     }).compile();
 
     service = module.get<ReceiptService>(ReceiptService);
+    repository = module.get<ReceiptRepository>(ReceiptRepository);
 
     // Mock fs methods
     (fs.access as jest.Mock).mockResolvedValue(undefined);
@@ -76,63 +246,213 @@ describe('ReceiptService', () => {
     jest.clearAllMocks();
   });
 
-  describe('constructor', () => {
-    it('should throw error if GEMINI_API_KEY is not set', () => {
-      delete process.env.GEMINI_API_KEY;
-      
-      expect(() => {
-        new ReceiptService();
-      }).toThrow('GEMINI_API_KEY environment variable is required');
-    });
-  });
-
   describe('extractReceiptDetails', () => {
     it('should successfully extract receipt details from valid image', async () => {
       // Mock successful AI response
-      const mockResult = {
-        response: {
-          text: () => JSON.stringify(mockValidResponse),
-        },
-      };
-      mockModel.generateContent.mockResolvedValue(mockResult);
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
 
-      const result = await service.extractReceiptDetails(mockFile);
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
 
       expect(result).toMatchObject({
         date: '2024-01-15',
         currency: 'USD',
         vendor_name: 'Test Store',
         receipt_items: [
-          { item_name: 'Coffee', item_cost: 4.50 },
-          { item_name: 'Sandwich', item_cost: 8.99 }
+          { item_name: 'Coffee', item_cost: 4.5 },
+          { item_name: 'Sandwich', item_cost: 8.99 },
         ],
         tax: 1.35,
         total: 14.84,
       });
       expect(result.id).toBeDefined();
-      expect(result.image_url).toContain('/uploads/');
+      expect(result.image_key).toBe(`${result.id}_receipt.jpg`);
+      expect(result.image_url).toMatch(
+        /^\/files\/[\w-]+_receipt\.jpg\?expires=\d+&signature=[\w-]+$/,
+      );
       expect(fs.writeFile).toHaveBeenCalled();
+      expect(mockProvider.generate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fileName: 'receipt.jpg',
+          mimeType: 'image/jpeg',
+          data: mockFile.buffer,
+        }),
+      );
+    });
+
+    it('should extract with the resolved prompt template and record it', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+
+      const result = await service.extractReceiptDetails(
+        TENANT,
+        mockFile,
+        'v2',
+      );
+
+      expect(mockPromptTemplates.resolve).toHaveBeenCalledWith(TENANT, 'v2');
+      const request = mockProvider.generate.mock.calls[0][0];
+      expect(request).toMatchObject({
+        model: 'gemini-test',
+        temperature: 0.2,
+        responseSchema: RECEIPT_SCHEMA,
+      });
+      expect(request.prompt).toContain('. Every category is one of: meals,');
+      expect(request.prompt).toContain(
+        'Regional conventions to expect:\n1. Dates are written day first',
+      );
+      expect(result.metadata).toMatchObject({
+        prompt_version: 'v2',
+        model: 'gemini-test',
+      });
+    });
+
+    it('should not store anything when the prompt version is unknown', async () => {
+      mockPromptTemplates.resolve.mockRejectedValue(
+        new BadRequestException("Unknown prompt version 'v9'"),
+      );
+
+      await expect(
+        service.extractReceiptDetails(TENANT, mockFile, 'v9'),
+      ).rejects.toThrow(BadRequestException);
+      expect(fs.writeFile).not.toHaveBeenCalled();
+      expect(mockProvider.generate).not.toHaveBeenCalled();
+    });
+
+    it('should map the extended schema and drop null fields', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify({
+          ...mockValidResponse,
+          receipt_items: [
+            {
+              item_name: 'Coffee',
+              item_cost: 4.5,
+              quantity: 2,
+              unit_price: 2.25,
+              discount: null,
+            },
+            { item_name: 'Sandwich', item_cost: 8.99 },
+          ],
+          subtotal: 13.49,
+          tip: null,
+          tax_breakdown: [
+            { label: 'GST', rate: 5, amount: 0.67 },
+            { label: 'PST', rate: 5, amount: 0.68 },
+          ],
+          payment_method: { type: 'credit_card', card_last4: 4242 },
+          vendor_address: '1 Main St',
+          vendor_phone: null,
+          vendor_tax_id: '123456789RT0001',
+        }),
+      );
+
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(result.receipt_items[0]).toEqual({
+        item_name: 'Coffee',
+        item_cost: 4.5,
+        quantity: 2,
+        unit_price: 2.25,
+      });
+      expect(result.payment_method).toEqual({
+        type: 'credit_card',
+        card_last4: '4242',
+      });
+      expect(result.subtotal).toBe(13.49);
+      expect(result.tax_breakdown).toHaveLength(2);
+      expect(result.vendor_tax_id).toBe('123456789RT0001');
+      expect(result).not.toHaveProperty('tip');
+      expect(result).not.toHaveProperty('vendor_phone');
+      expect(result.validation.warnings).toEqual([]);
+    });
+
+    it('should re-prompt when optional fields have the wrong type', async () => {
+      mockProvider.generate
+        .mockResolvedValueOnce(
+          JSON.stringify({
+            ...mockValidResponse,
+            tip: '2.00',
+            payment_method: { type: 'card', card_last4: '42' },
+          }),
+        )
+        .mockResolvedValueOnce(JSON.stringify(mockValidResponse));
+
+      await service.extractReceiptDetails(TENANT, mockFile);
+
+      const retryPrompt = mockProvider.generate.mock.calls[1][0].prompt;
+      expect(retryPrompt).toContain('- tip must be a number');
+      expect(retryPrompt).toContain(
+        '- payment_method.card_last4 must be exactly 4 digits',
+      );
+    });
+
+    it('should attach validation warnings without rejecting the receipt', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify({ ...mockValidResponse, currency: 'XYZ', total: 5 }),
+      );
+
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(result.validation.warnings.map((w) => w.code)).toEqual([
+        'unknown_currency',
+        'items_sum_mismatch',
+      ]);
+      expect(result.validation.confidence).toBe(0.5);
+      expect(await service.getReceiptById(TENANT, result.id)).toEqual(result);
+    });
+
+    it('should accept multi-page PDF receipts as a single receipt', async () => {
+      const pdfFile = {
+        ...mockFile,
+        mimetype: 'application/pdf',
+        originalname: 'invoice.pdf',
+        buffer: Buffer.from(
+          '%PDF-1.4\n1 0 obj << /Type /Pages /Kids [2 0 R 3 0 R] /Count 2 >>\n' +
+            '2 0 obj << /Type /Page >>\n3 0 obj << /Type /Page >>\n%%EOF',
+        ),
+      };
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+
+      const result = await service.extractReceiptDetails(TENANT, pdfFile);
+
+      expect(result.image_key).toMatch(/_invoice\.pdf$/);
+      expect(result.metadata.page_count).toBe(2);
+      expect(mockProvider.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ mimeType: 'application/pdf' }),
+      );
+      expect(mockProvider.generate.mock.calls[0][0].prompt).toContain(
+        'multi-page document is a single receipt',
+      );
     });
 
-    it('should throw BadRequestException for incorrect file type', async () => {
-      const invalidFile = {
+    it('should throw BadRequestException for a PDF without PDF content', async () => {
+      const fakePdf = {
         ...mockFile,
         mimetype: 'application/pdf',
+        originalname: 'receipt.pdf',
       };
 
-      await expect(service.extractReceiptDetails(invalidFile))
-        .rejects
-        .toThrow(BadRequestException);
-    });    it('should throw BadRequestException for .txt file', async () => {
+      await expect(
+        service.extractReceiptDetails(TENANT, fakePdf),
+      ).rejects.toThrow('Uploaded file is not a valid PDF document');
+    });
+
+    it('should throw BadRequestException for .txt file', async () => {
       const txtFile = {
         ...mockFile,
         mimetype: 'text/plain',
         originalname: 'receipt.txt',
       };
 
-      await expect(service.extractReceiptDetails(txtFile))
-        .rejects
-        .toThrow('Only .jpg, .jpeg, .png, and .webp files are allowed');
+      await expect(
+        service.extractReceiptDetails(TENANT, txtFile),
+      ).rejects.toThrow(
+        'Only .jpg, .jpeg, .png, .webp, and .pdf files are allowed',
+      );
     });
 
     it('should handle PNG files correctly', async () => {
@@ -142,67 +462,92 @@ describe('ReceiptService', () => {
         originalname: 'receipt.png',
       };
 
-      const mockResult = {
-        response: {
-          text: () => JSON.stringify(mockValidResponse),
-        },
-      };
-      mockModel.generateContent.mockResolvedValue(mockResult);
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
 
-      const result = await service.extractReceiptDetails(pngFile);
+      const result = await service.extractReceiptDetails(TENANT, pngFile);
       expect(result).toBeDefined();
-      expect(result.image_url).toContain('.png');
+      expect(result.image_key).toContain('.png');
     });
 
     it('should throw InternalServerErrorException for invalid AI response JSON', async () => {
       // Mock AI response with invalid JSON
-      const mockResult = {
-        response: {
-          text: () => 'invalid json response',
-        },
-      };
-      mockModel.generateContent.mockResolvedValue(mockResult);
+      mockProvider.generate.mockResolvedValue('invalid json response');
 
-      await expect(service.extractReceiptDetails(mockFile))
-        .rejects
-        .toThrow('AI model returned invalid response format');
+      await expect(
+        service.extractReceiptDetails(TENANT, mockFile),
+      ).rejects.toThrow('AI model returned invalid response format');
     });
 
-    it('should throw InternalServerErrorException for incomplete AI response', async () => {
+    it('should queue incomplete AI responses for review', async () => {
       // Mock AI response with missing required fields
       const incompleteResponse = {
         date: '2024-01-15',
         // missing currency, vendor_name, etc.
       };
-      
-      const mockResult = {
-        response: {
-          text: () => JSON.stringify(incompleteResponse),
-        },
-      };
-      mockModel.generateContent.mockResolvedValue(mockResult);
 
-      await expect(service.extractReceiptDetails(mockFile))
-        .rejects
-        .toThrow('AI model returned incomplete or invalid data');
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(incompleteResponse),
+      );
+
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(result).toMatchObject({
+        date: '2024-01-15',
+        currency: '',
+        vendor_name: '',
+        receipt_items: [],
+        tax: 0,
+        total: 0,
+      });
+      expect(result.vendor_id).toBeUndefined();
+      expect(mockVendorRegistry.resolve).not.toHaveBeenCalled();
+      expect(result.review.status).toBe('pending_review');
+      expect(result.review.reasons).toContainEqual({
+        code: 'missing_field',
+        field: 'vendor_name',
+        message: 'vendor_name must be a string',
+      });
+      expect(await service.getReceipt(TENANT, result.id)).toMatchObject({
+        review: { status: 'pending_review' },
+      });
+    });
+
+    it('should not treat incomplete receipts as duplicates of each other', async () => {
+      mockProvider.generate.mockResolvedValue(JSON.stringify({ total: 5 }));
+
+      const first = await service.extractReceiptDetails(TENANT, mockFile);
+      const second = await service.extractReceiptDetails(TENANT, {
+        ...mockFile,
+        buffer: Buffer.from('another image'),
+      });
+
+      expect(second.id).not.toBe(first.id);
+      expect(await service.getAllReceipts(TENANT)).toHaveLength(2);
     });
 
-    it('should throw InternalServerErrorException for invalid currency code', async () => {
+    it('should queue invalid currency codes for review', async () => {
       const invalidCurrencyResponse = {
         ...mockValidResponse,
         currency: 'INVALID', // Invalid currency code (not 3 characters)
       };
-      
-      const mockResult = {
-        response: {
-          text: () => JSON.stringify(invalidCurrencyResponse),
-        },
-      };
-      mockModel.generateContent.mockResolvedValue(mockResult);
 
-      await expect(service.extractReceiptDetails(mockFile))
-        .rejects
-        .toThrow('AI model returned incomplete or invalid data');
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(invalidCurrencyResponse),
+      );
+
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(result.currency).toBe('');
+      expect(result.total).toBe(14.84);
+      expect(result.review.reasons).toEqual([
+        {
+          code: 'missing_field',
+          field: 'currency',
+          message: 'currency must be a 3-character code',
+        },
+      ]);
     });
 
     it('should throw InternalServerErrorException for empty receipt items', async () => {
@@ -210,20 +555,17 @@ describe('ReceiptService', () => {
         ...mockValidResponse,
         receipt_items: [],
       };
-      
-      const mockResult = {
-        response: {
-          text: () => JSON.stringify(emptyItemsResponse),
-        },
-      };
-      mockModel.generateContent.mockResolvedValue(mockResult);
+
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(emptyItemsResponse),
+      );
 
       // This should still pass validation as empty arrays are valid
-      const result = await service.extractReceiptDetails(mockFile);
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
       expect(result.receipt_items).toEqual([]);
     });
 
-    it('should throw InternalServerErrorException for invalid receipt items structure', async () => {
+    it('should drop malformed receipt items and queue the receipt for review', async () => {
       const invalidItemsResponse = {
         ...mockValidResponse,
         receipt_items: [
@@ -231,97 +573,1009 @@ describe('ReceiptService', () => {
           { item_cost: 8.99 }, // missing item_name
         ],
       };
-      
-      const mockResult = {
-        response: {
-          text: () => JSON.stringify(invalidItemsResponse),
-        },
-      };
-      mockModel.generateContent.mockResolvedValue(mockResult);
 
-      await expect(service.extractReceiptDetails(mockFile))
-        .rejects
-        .toThrow('AI model returned incomplete or invalid data');
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(invalidItemsResponse),
+      );
+
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(result.receipt_items).toEqual([]);
+      expect(result.review.reasons.map((r) => r.field)).toEqual([
+        'receipt_items',
+        'receipt_items',
+      ]);
     });
 
     it('should handle AI service 500 status response', async () => {
       // Mock AI service throwing an error (simulating 500 response)
-      mockModel.generateContent.mockRejectedValue(new Error('AI service error'));
+      mockProvider.generate.mockRejectedValue(new Error('AI service error'));
 
-      await expect(service.extractReceiptDetails(mockFile))
-        .rejects
-        .toThrow('Failed to process receipt image');
+      await expect(
+        service.extractReceiptDetails(TENANT, mockFile),
+      ).rejects.toMatchObject({
+        code: 'PROVIDER_ERROR',
+        message: 'mock request failed: AI service error',
+      });
     });
 
     it('should clean AI response with code blocks', async () => {
       // Mock AI response wrapped in code blocks
-      const wrappedResponse = '```json\n' + JSON.stringify(mockValidResponse) + '\n```';
-      const mockResult = {
-        response: {
-          text: () => wrappedResponse,
-        },
-      };
-      mockModel.generateContent.mockResolvedValue(mockResult);
+      const wrappedResponse =
+        '```json\n' + JSON.stringify(mockValidResponse) + '\n```';
+      mockProvider.generate.mockResolvedValue(wrappedResponse);
+
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
+      expect(result.vendor_name).toBe('Test Store');
+    });
+
+    it('should repair malformed JSON without re-prompting', async () => {
+      mockProvider.generate.mockResolvedValue(
+        "Here is the receipt:\n{'date': '2024-01-15', 'currency': 'USD', " +
+          "'vendor_name': 'Test Store', 'receipt_items': " +
+          "[{'item_name': 'Coffee', 'item_cost': 4.5},], 'tax': 0.5, 'total': 5,}",
+      );
+
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
 
-      const result = await service.extractReceiptDetails(mockFile);
       expect(result.vendor_name).toBe('Test Store');
+      expect(mockProvider.generate).toHaveBeenCalledTimes(1);
+      expect(result.metadata.extraction_attempts).toEqual([
+        expect.objectContaining({
+          attempt: 1,
+          outcome: 'succeeded',
+          repaired_json: true,
+        }),
+      ]);
+    });
+
+    it('should re-prompt with validation errors and record each attempt', async () => {
+      mockProvider.generate
+        .mockResolvedValueOnce(JSON.stringify({ date: '2024-01-15' }))
+        .mockResolvedValueOnce(JSON.stringify(mockValidResponse));
+
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(result.total).toBe(14.84);
+      const retryPrompt = mockProvider.generate.mock.calls[1][0].prompt;
+      expect(retryPrompt).toContain('- currency must be a string');
+      expect(retryPrompt).toContain('- receipt_items must be an array');
+      expect(result.metadata.extraction_attempts.map((a) => a.outcome)).toEqual(
+        ['validation_failed', 'succeeded'],
+      );
+    });
+
+    it('should retry transient provider failures', async () => {
+      mockProvider.generate
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Service Unavailable'), { status: 503 }),
+        )
+        .mockResolvedValueOnce(JSON.stringify(mockValidResponse));
+
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(mockProvider.generate).toHaveBeenCalledTimes(2);
+      expect(result.metadata.extraction_attempts[0]).toMatchObject({
+        outcome: 'provider_error',
+        errors: ['Service Unavailable'],
+      });
+    });
+
+    it('should give up after the configured number of attempts', async () => {
+      mockProvider.generate.mockResolvedValue('still not json');
+
+      await expect(
+        service.extractReceiptDetails(TENANT, mockFile),
+      ).rejects.toThrow('AI model returned invalid response format');
+      expect(mockProvider.generate).toHaveBeenCalledTimes(3);
+    });
+
+    it('should use the default number of attempts when the setting is not a number', async () => {
+      process.env.EXTRACTION_MAX_ATTEMPTS = 'three';
+      const pipeline = new ReceiptExtractionPipeline(mockProvider);
+      delete process.env.EXTRACTION_MAX_ATTEMPTS;
+      mockProvider.generate.mockResolvedValue('still not json');
+
+      await expect(
+        pipeline.run({
+          prompt: 'Extract',
+          fileName: 'receipt.jpg',
+          mimeType: 'image/jpeg',
+          data: mockFile.buffer,
+        }),
+      ).rejects.toMatchObject({ code: 'EXTRACTION_INVALID_JSON' });
+      expect(mockProvider.generate).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep the raw model output of failed attempts', async () => {
+      mockProvider.generate
+        .mockResolvedValueOnce('still not json')
+        .mockResolvedValue(JSON.stringify({ date: '2024-01-15' }));
+
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(result.metadata.extraction_attempts).toMatchObject([
+        { outcome: 'invalid_json', raw_output: 'still not json' },
+        {
+          outcome: 'validation_failed',
+          raw_output: '{"date":"2024-01-15"}',
+        },
+        { outcome: 'validation_failed' },
+      ]);
+    });
+
+    it('should fail when the model never returns a JSON object', async () => {
+      mockProvider.generate.mockResolvedValue('[]');
+
+      await expect(
+        service.extractReceiptDetails(TENANT, mockFile),
+      ).rejects.toMatchObject({
+        code: 'EXTRACTION_VALIDATION_FAILED',
+        message: 'AI model returned incomplete or invalid data',
+        details: { attempts: [{ raw_output: '[]' }, {}, {}] },
+      });
+    });
+
+    it('should report provider rate limits once retries run out', async () => {
+      mockProvider.generate.mockRejectedValue(
+        Object.assign(new Error('Too Many Requests'), { status: 429 }),
+      );
+
+      await expect(
+        service.extractReceiptDetails(TENANT, mockFile),
+      ).rejects.toMatchObject({ code: 'PROVIDER_RATE_LIMITED' });
+      expect(mockProvider.generate).toHaveBeenCalledTimes(3);
+    });
+
+    it('should time out providers that do not respond', async () => {
+      mockProvider.generate.mockReturnValue(new Promise(() => undefined));
+
+      await expect(
+        service.extractReceiptDetails(TENANT, mockFile),
+      ).rejects.toMatchObject({ code: 'PROVIDER_TIMEOUT' });
+      expect(mockProvider.generate).toHaveBeenCalledTimes(3);
     });
 
     it('should handle file system errors', async () => {
       // Mock file system error
-      (fs.writeFile as jest.Mock).mockRejectedValue(new Error('File system error'));
+      (fs.writeFile as jest.Mock).mockRejectedValue(
+        new Error('File system error'),
+      );
+
+      await expect(
+        service.extractReceiptDetails(TENANT, mockFile),
+      ).rejects.toMatchObject({ code: 'STORAGE_FAILURE' });
+    });
+  });
+
+  describe('image preprocessing', () => {
+    const processed = {
+      data: Buffer.from('processed-image-data'),
+      mimeType: 'image/jpeg',
+      width: 1000,
+      height: 2000,
+      steps: ['auto_orient', 'resize', 'enhance'],
+    };
+
+    beforeEach(() => {
+      mockPreprocessor.process.mockResolvedValue(processed);
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+    });
+
+    it('should send the processed image and store it next to the original', async () => {
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(mockProvider.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ data: processed.data }),
+      );
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        expect.stringContaining(`${result.id}_receipt.jpg`),
+        mockFile.buffer,
+      );
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        expect.stringContaining(`${result.id}_receipt.jpg.processed.jpg`),
+        processed.data,
+      );
+      expect(result.processed_image_key).toBe(
+        `${result.id}_receipt.jpg.processed.jpg`,
+      );
+      expect(result.processed_image_url).toMatch(/^\/files\/.+signature=/);
+      expect(result.metadata.preprocessing).toEqual({
+        steps: ['auto_orient', 'resize', 'enhance'],
+        original_bytes: mockFile.buffer.length,
+        processed_bytes: processed.data.length,
+        width: 1000,
+        height: 2000,
+      });
+      // Duplicate detection still works on the uploaded bytes
+      expect(result.metadata.content_hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should find local fixtures keyed by the hash of the original upload', async () => {
+      const digest = createHash('sha256').update(mockFile.buffer).digest('hex');
+      (fs.readFile as jest.Mock).mockImplementation(async (filePath) => {
+        if (filePath === path.join('/fixtures', `${digest}.json`)) {
+          return JSON.stringify(mockValidResponse);
+        }
+        throw new Error('ENOENT');
+      });
+      const module = await Test.createTestingModule({
+        providers: [
+          ReceiptService,
+          ReceiptValidationService,
+          ReceiptExtractionPipeline,
+          {
+            provide: RECEIPT_EXTRACTION_PROVIDER,
+            useValue: new LocalExtractionProvider('/fixtures'),
+          },
+          { provide: ReceiptRepository, useClass: InMemoryReceiptRepository },
+          { provide: ExchangeRateService, useValue: mockExchangeRates },
+          { provide: CategorizationService, useValue: mockCategorization },
+          { provide: VendorRegistry, useValue: mockVendorRegistry },
+          {
+            provide: ReceiptStorage,
+            useValue: new LocalReceiptStorage('/srv/uploads'),
+          },
+          FileUrlSigner,
+          { provide: ImagePreprocessor, useValue: mockPreprocessor },
+          { provide: PolicyService, useValue: mockPolicy },
+          { provide: ReceiptAuditLog, useValue: mockAuditLog },
+          { provide: PromptTemplateService, useValue: mockPromptTemplates },
+        ],
+      }).compile();
+
+      const result = await module
+        .get<ReceiptService>(ReceiptService)
+        .extractReceiptDetails(TENANT, mockFile);
+
+      expect(mockPreprocessor.process).toHaveBeenCalled();
+      expect(result).toMatchObject({
+        vendor_name: 'Test Store',
+        total: 14.84,
+        processed_image_key: `${result.id}_receipt.jpg.processed.jpg`,
+      });
+    });
+
+    it('should delete the processed image with the receipt', async () => {
+      const result = await service.extractReceiptDetails(TENANT, mockFile);
+
+      await service.deleteReceipt(TENANT, result.id);
+
+      expect(fs.unlink).toHaveBeenCalledWith(
+        expect.stringContaining(`${result.id}_receipt.jpg.processed.jpg`),
+      );
+    });
+
+    it('should delete both stored files when extraction fails', async () => {
+      mockProvider.generate.mockResolvedValue('still not json');
+
+      await expect(
+        service.extractReceiptDetails(TENANT, mockFile),
+      ).rejects.toThrow('AI model returned invalid response format');
+
+      const stored = (fs.writeFile as jest.Mock).mock.calls.map(
+        ([filePath]) => filePath,
+      );
+      expect(stored).toEqual([
+        expect.stringMatching(/_receipt\.jpg$/),
+        expect.stringMatching(/_receipt\.jpg\.processed\.jpg$/),
+      ]);
+      for (const filePath of stored) {
+        expect(fs.unlink).toHaveBeenCalledWith(filePath);
+      }
+      expect(await service.getAllReceipts(TENANT)).toEqual([]);
+    });
+
+    it('should not flag processed images for re-extraction', async () => {
+      (fs.readdir as jest.Mock).mockResolvedValue([
+        'orphan_receipt.jpg',
+        'orphan_receipt.jpg.processed.jpg',
+      ]);
+
+      await service.onModuleInit();
+
+      expect(await service.getPendingReextraction()).toEqual([
+        'orphan_receipt.jpg',
+      ]);
+    });
+  });
+
+  describe('duplicate detection', () => {
+    afterEach(() => {
+      delete process.env.DUPLICATE_POLICY;
+    });
+
+    it('should return the existing receipt for an identical upload', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+
+      const first = await service.extractReceiptDetails(TENANT, mockFile);
+      const second = await service.extractReceiptDetails(TENANT, mockFile);
 
-      await expect(service.extractReceiptDetails(mockFile))
-        .rejects
-        .toThrow('Failed to process receipt image');
+      expect(second).toEqual(first);
+      expect(first.metadata.content_hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(mockProvider.generate).toHaveBeenCalledTimes(1);
+      expect(fs.writeFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the existing receipt for another photo of the same purchase', async () => {
+      mockProvider.generate
+        .mockResolvedValueOnce(JSON.stringify(mockValidResponse))
+        .mockResolvedValueOnce(
+          JSON.stringify({
+            ...mockValidResponse,
+            vendor_name: 'TEST STORE.',
+            receipt_items: [...mockValidResponse.receipt_items].reverse(),
+          }),
+        );
+
+      const first = await service.extractReceiptDetails(TENANT, mockFile);
+      const second = await service.extractReceiptDetails(TENANT, {
+        ...mockFile,
+        buffer: Buffer.from('another-photo'),
+      });
+
+      expect(second.id).toBe(first.id);
+      expect(fs.unlink).toHaveBeenCalledWith(
+        expect.not.stringContaining(first.id),
+      );
+      expect(await service.getAllReceipts(TENANT)).toHaveLength(1);
+    });
+
+    it('should store and link duplicates when DUPLICATE_POLICY=link', async () => {
+      process.env.DUPLICATE_POLICY = 'link';
+      const module = await Test.createTestingModule({
+        providers: [
+          ReceiptService,
+          ReceiptValidationService,
+          ReceiptExtractionPipeline,
+          { provide: RECEIPT_EXTRACTION_PROVIDER, useValue: mockProvider },
+          { provide: ReceiptRepository, useClass: InMemoryReceiptRepository },
+          { provide: ExchangeRateService, useValue: mockExchangeRates },
+          { provide: CategorizationService, useValue: mockCategorization },
+          { provide: VendorRegistry, useValue: mockVendorRegistry },
+          {
+            provide: ReceiptStorage,
+            useValue: new LocalReceiptStorage('/srv/uploads'),
+          },
+          FileUrlSigner,
+          { provide: ImagePreprocessor, useValue: mockPreprocessor },
+          { provide: PolicyService, useValue: mockPolicy },
+          { provide: ReceiptAuditLog, useValue: mockAuditLog },
+          { provide: PromptTemplateService, useValue: mockPromptTemplates },
+        ],
+      }).compile();
+      const linking = module.get<ReceiptService>(ReceiptService);
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+
+      const first = await linking.extractReceiptDetails(TENANT, mockFile);
+      const second = await linking.extractReceiptDetails(TENANT, mockFile);
+
+      expect(second.id).not.toBe(first.id);
+      expect(second.possible_duplicate_of).toBe(first.id);
+      expect(first.possible_duplicate_of).toBeUndefined();
+      expect(await linking.getAllReceipts(TENANT)).toHaveLength(2);
+    });
+  });
+
+  describe('tenant isolation', () => {
+    beforeEach(() => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+    });
+
+    it('should hide receipts from other tenants', async () => {
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(receipt.tenant_id).toBe(TENANT);
+      expect(
+        await service.getReceiptById('globex', receipt.id),
+      ).toBeUndefined();
+      expect(await service.getAllReceipts('globex')).toEqual([]);
+      expect((await service.listReceipts('globex', {})).data).toEqual([]);
+      await expect(service.getReceipt('globex', receipt.id)).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(
+        service.updateReceipt('globex', receipt.id, { total: 1 }, ACTOR),
+      ).rejects.toThrow(NotFoundException);
+      await expect(service.deleteReceipt('globex', receipt.id)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(await service.getReceipt(TENANT, receipt.id)).toMatchObject({
+        total: 14.84,
+      });
+    });
+
+    it("should not treat another tenant's upload as a duplicate", async () => {
+      const first = await service.extractReceiptDetails(TENANT, mockFile);
+      const second = await service.extractReceiptDetails('globex', mockFile);
+
+      expect(second.id).not.toBe(first.id);
+      expect(second.tenant_id).toBe('globex');
+      expect(second.possible_duplicate_of).toBeUndefined();
     });
   });
 
   describe('getReceiptById', () => {
-    it('should return undefined for non-existent receipt', () => {
-      const result = service.getReceiptById('non-existent-id');
+    it('should return undefined for non-existent receipt', async () => {
+      const result = await service.getReceiptById(TENANT, 'non-existent-id');
       expect(result).toBeUndefined();
     });
 
     it('should return receipt after extraction', async () => {
-      const mockResult = {
-        response: {
-          text: () => JSON.stringify(mockValidResponse),
-        },
-      };
-      mockModel.generateContent.mockResolvedValue(mockResult);
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+
+      const extractedReceipt = await service.extractReceiptDetails(
+        TENANT,
+        mockFile,
+      );
+      const retrievedReceipt = await service.getReceiptById(
+        TENANT,
+        extractedReceipt.id,
+      );
 
-      const extractedReceipt = await service.extractReceiptDetails(mockFile);
-      const retrievedReceipt = service.getReceiptById(extractedReceipt.id);
-      
       expect(retrievedReceipt).toEqual(extractedReceipt);
     });
   });
 
   describe('getAllReceipts', () => {
-    it('should return empty array initially', () => {
-      const result = service.getAllReceipts();
+    it('should return empty array initially', async () => {
+      const result = await service.getAllReceipts(TENANT);
       expect(result).toEqual([]);
     });
 
     it('should return all receipts after extraction', async () => {
-      const mockResult = {
-        response: {
-          text: () => JSON.stringify(mockValidResponse),
-        },
-      };
-      mockModel.generateContent.mockResolvedValue(mockResult);
+      mockProvider.generate
+        .mockResolvedValueOnce(JSON.stringify(mockValidResponse))
+        .mockResolvedValueOnce(
+          JSON.stringify({ ...mockValidResponse, date: '2024-01-16' }),
+        );
 
-      const receipt1 = await service.extractReceiptDetails(mockFile);
-      const receipt2 = await service.extractReceiptDetails({
+      const receipt1 = await service.extractReceiptDetails(TENANT, mockFile);
+      const receipt2 = await service.extractReceiptDetails(TENANT, {
         ...mockFile,
         originalname: 'receipt2.jpg',
+        buffer: Buffer.from('other-image-data'),
       });
 
-      const allReceipts = service.getAllReceipts();
+      const allReceipts = await service.getAllReceipts(TENANT);
       expect(allReceipts).toHaveLength(2);
-      expect(allReceipts).toContain(receipt1);
-      expect(allReceipts).toContain(receipt2);
+      expect(allReceipts).toContainEqual(receipt1);
+      expect(allReceipts).toContainEqual(receipt2);
+    });
+  });
+
+  describe('pending re-extraction', () => {
+    it('should flag uploads without a stored receipt on init', async () => {
+      (fs.readdir as jest.Mock).mockResolvedValue(['abc_1.jpg', 'notes.txt']);
+
+      await service.onModuleInit();
+
+      expect(await service.getPendingReextraction()).toEqual(['abc_1.jpg']);
+    });
+
+    it('should re-extract a flagged upload and keep its ID', async () => {
+      (fs.readdir as jest.Mock).mockResolvedValue(['abc_1.jpg']);
+      (fs.readFile as jest.Mock).mockResolvedValue(Buffer.from('image'));
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+      await service.onModuleInit();
+
+      const receipt = await service.reextractUpload('abc_1.jpg');
+
+      expect(receipt.id).toBe('abc');
+      expect(receipt.image_key).toBe('abc_1.jpg');
+      expect(receipt.image_url).toMatch(/^\/files\/abc_1\.jpg\?expires=/);
+      expect(receipt.metadata.source_file_name).toBe('1.jpg');
+      expect(await service.getPendingReextraction()).toEqual([]);
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should reject uploads that are not pending', async () => {
+      await expect(service.reextractUpload('unknown.jpg')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('updateReceipt', () => {
+    it('should apply corrections and keep untouched fields', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+
+      const updated = await service.updateReceipt(
+        TENANT,
+        receipt.id,
+        {
+          vendor_name: 'Corrected Store',
+          currency: 'cad',
+        },
+        ACTOR,
+      );
+
+      expect(updated.vendor_name).toBe('Corrected Store');
+      expect(updated.currency).toBe('CAD');
+      expect(updated.total).toBe(14.84);
+      expect(updated.validation).toEqual({ warnings: [], confidence: 1 });
+      expect(updated.base_amounts).toMatchObject({
+        currency: 'USD',
+        rate: 0.75,
+      });
+      expect(await service.getReceipt(TENANT, receipt.id)).toEqual(updated);
+    });
+
+    it('should record category overrides and teach a vendor rule', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+
+      const updated = await service.updateReceipt(
+        TENANT,
+        receipt.id,
+        {
+          category: 'meals',
+        },
+        ACTOR,
+      );
+
+      expect(updated.category).toBe('meals');
+      expect(updated.category_source).toBe('user');
+      expect(updated.receipt_items.map((item) => item.category)).toEqual([
+        'meals',
+        'meals',
+      ]);
+      expect(mockCategorization.learnVendorCategory).toHaveBeenCalledWith(
+        TENANT,
+        'Test Store',
+        'meals',
+      );
+    });
+
+    it('should reject categories outside the taxonomy', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+
+      await expect(
+        service.updateReceipt(
+          TENANT,
+          receipt.id,
+          { category: 'yachts' },
+          ACTOR,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockCategorization.learnVendorCategory).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for unknown receipts', async () => {
+      await expect(
+        service.updateReceipt(TENANT, 'missing', { total: 1 }, ACTOR),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('reextractReceipt', () => {
+    it('should re-run a stored receipt under another prompt version', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+      await service.updateReceipt(
+        TENANT,
+        receipt.id,
+        { total: 20, justification: 'Client lunch' },
+        ACTOR,
+      );
+      (fs.readFile as jest.Mock).mockResolvedValue(mockFile.buffer);
+
+      const rerun = await service.reextractReceipt(TENANT, receipt.id, 'v2');
+
+      expect(fs.readFile).toHaveBeenCalledWith(
+        expect.stringContaining(receipt.image_key),
+      );
+      expect(rerun).toMatchObject({
+        id: receipt.id,
+        total: 14.84,
+        justification: 'Client lunch',
+        metadata: {
+          prompt_version: 'v2',
+          created_at: receipt.metadata.created_at,
+          source_file_name: 'receipt.jpg',
+        },
+      });
+      expect(rerun.metadata.reextracted_at).toBeDefined();
+      expect(await service.getAllReceipts(TENANT)).toHaveLength(1);
+    });
+
+    it('should report receipts whose file is gone', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+      (fs.readFile as jest.Mock).mockRejectedValue(
+        Object.assign(new Error('missing'), { code: 'ENOENT' }),
+      );
+
+      await expect(
+        service.reextractReceipt(TENANT, receipt.id),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('review', () => {
+    it('should record corrections in the audit log', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+
+      await service.updateReceipt(
+        TENANT,
+        receipt.id,
+        { total: 15, tax: 1.35, vendor_name: 'Better Store' },
+        ACTOR,
+      );
+
+      const log = await service.getAuditLog(TENANT, receipt.id);
+      expect(
+        log.map(({ field, old_value, new_value }) => [
+          field,
+          old_value,
+          new_value,
+        ]),
+      ).toEqual([
+        ['total', 14.84, 15],
+        ['vendor_name', 'Test Store', 'Better Store'],
+      ]);
+      expect(log[0]).toMatchObject({
+        tenant_id: TENANT,
+        receipt_id: receipt.id,
+        changed_by: { method: 'api_key', subject: 'key-1' },
+        source: 'correction',
+      });
+      await expect(service.getAuditLog('globex', receipt.id)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should queue receipts whose amounts do not add up', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify({ ...mockValidResponse, total: 30 }),
+      );
+
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(receipt.review).toEqual({
+        status: 'pending_review',
+        reasons: [expect.objectContaining({ code: 'items_sum_mismatch' })],
+      });
+      const queue = await service.listReceipts(TENANT, {
+        review_status: 'pending_review',
+      });
+      expect(queue.data.map((r) => r.id)).toEqual([receipt.id]);
+    });
+
+    it('should leave receipts that add up out of review', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(receipt.review).toBeUndefined();
+    });
+
+    it('should apply corrections and record the decision', async () => {
+      mockProvider.generate.mockResolvedValue(JSON.stringify({ total: 5 }));
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+
+      const reviewed = await service.reviewReceipt(
+        TENANT,
+        receipt.id,
+        {
+          decision: 'approved',
+          corrections: { vendor_name: 'Test Store', currency: 'usd' },
+          note: 'Read from the image',
+        },
+        ACTOR,
+      );
+
+      expect(reviewed).toMatchObject({
+        vendor_name: 'Test Store',
+        currency: 'USD',
+        review: {
+          status: 'approved',
+          reviewed_by: 'key-1',
+          note: 'Read from the image',
+          reasons: receipt.review.reasons,
+        },
+      });
+      expect(reviewed.vendor_id).toBeDefined();
+      const log = await service.getAuditLog(TENANT, receipt.id);
+      expect(log.map((e) => [e.field, e.old_value, e.new_value])).toEqual([
+        ['vendor_name', '', 'Test Store'],
+        ['currency', '', 'USD'],
+        ['review.status', 'pending_review', 'approved'],
+      ]);
+      expect(log.every((e) => e.source === 'review')).toBe(true);
+    });
+
+    it('should reject receipts without corrections', async () => {
+      mockProvider.generate.mockResolvedValue(JSON.stringify({ total: 5 }));
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+
+      const reviewed = await service.reviewReceipt(
+        TENANT,
+        receipt.id,
+        { decision: 'rejected' },
+        ACTOR,
+      );
+
+      expect(reviewed.review.status).toBe('rejected');
+      expect(reviewed.total).toBe(5);
+      expect(
+        (await service.getAuditLog(TENANT, receipt.id)).map((e) => e.field),
+      ).toEqual(['review.status']);
+    });
+  });
+
+  describe('expense policy', () => {
+    const rule = (overrides: Partial<PolicyRule>): PolicyRule => ({
+      id: 'rule-1',
+      tenant_id: TENANT,
+      name: 'Blocked vendors',
+      type: 'blocked_vendors',
+      severity: 'critical',
+      enabled: true,
+      vendors: ['TEST STORE'],
+      created_at: '2024-01-01T00:00:00.000Z',
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+    });
+
+    it('should attach violations to extracted receipts', async () => {
+      policyRules = [rule({})];
+
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(mockPolicy.evaluate).toHaveBeenCalledWith(
+        TENANT,
+        expect.objectContaining({ vendor_name: 'Test Store' }),
+      );
+      expect(receipt.policy.violations).toEqual([
+        {
+          rule_id: 'rule-1',
+          rule_name: 'Blocked vendors',
+          type: 'blocked_vendors',
+          severity: 'critical',
+          field: 'vendor_name',
+          message: "Vendor 'Test Store' is blocked",
+        },
+      ]);
+    });
+
+    it('should re-evaluate corrected receipts', async () => {
+      policyRules = [rule({ name: 'Weekends', type: 'weekend_justification' })];
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+      expect(receipt.policy.violations).toEqual([]);
+
+      const saturday = await service.updateReceipt(
+        TENANT,
+        receipt.id,
+        {
+          date: '2024-01-13',
+        },
+        ACTOR,
+      );
+      expect(saturday.policy.violations.map((v) => v.field)).toEqual([
+        'justification',
+      ]);
+
+      const justified = await service.updateReceipt(
+        TENANT,
+        receipt.id,
+        {
+          justification: 'Client offsite',
+        },
+        ACTOR,
+      );
+      expect(justified.justification).toBe('Client offsite');
+      expect(justified.policy.violations).toEqual([]);
+    });
+
+    it('should dry-run rules against stored receipts without saving', async () => {
+      const first = await service.extractReceiptDetails(TENANT, mockFile);
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify({
+          ...mockValidResponse,
+          date: '2024-02-10',
+          vendor_name: 'Other Shop',
+          receipt_items: [{ item_name: 'House Red Wine', item_cost: 9 }],
+          total: 9,
+          tax: 0,
+        }),
+      );
+      const second = await service.extractReceiptDetails(TENANT, {
+        ...mockFile,
+        buffer: Buffer.from('second'),
+      });
+
+      const result = await service.dryRunPolicy(TENANT, {
+        rules: [
+          { name: 'No alcohol', type: 'prohibited_items' },
+          { name: 'Weekends', type: 'weekend_justification' },
+          { name: 'Blocked', type: 'blocked_vendors', vendors: ['Nobody'] },
+        ],
+      });
+
+      expect(result).toMatchObject({
+        evaluated: 2,
+        flagged: 1,
+        rules: [
+          { rule_name: 'No alcohol', violations: 1 },
+          { rule_name: 'Weekends', violations: 1 },
+          { rule_name: 'Blocked', violations: 0 },
+        ],
+        receipts: [{ receipt_id: second.id, date: '2024-02-10' }],
+      });
+      expect(result.receipts[0].violations.map((v) => v.field)).toEqual([
+        'receipt_items[0]',
+        'justification',
+      ]);
+      expect(
+        (await service.getReceipt(TENANT, second.id)).policy.violations,
+      ).toEqual([]);
+
+      policyRules = [rule({ vendors: ['Test Store'] })];
+      const stored = await service.dryRunPolicy(TENANT, {
+        date_to: '2024-01-31',
+      });
+      expect(stored.receipts.map((r) => r.receipt_id)).toEqual([first.id]);
+    });
+  });
+
+  describe('vendors', () => {
+    it('should link receipts to registry vendors', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify({ ...mockValidResponse, vendor_name: 'TEST STORE #12' }),
+      );
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+
+      expect(receipt.vendor_id).toBe('vendor-test store');
+
+      const renamed = await service.updateReceipt(
+        TENANT,
+        receipt.id,
+        {
+          vendor_name: 'Other Shop',
+        },
+        ACTOR,
+      );
+      expect(renamed.vendor_id).toBe('vendor-other shop');
+    });
+
+    it('should re-link receipts of merged vendors', async () => {
+      mockProvider.generate
+        .mockResolvedValueOnce(JSON.stringify(mockValidResponse))
+        .mockResolvedValueOnce(
+          JSON.stringify({ ...mockValidResponse, vendor_name: 'Test Shop' }),
+        );
+      const first = await service.extractReceiptDetails(TENANT, mockFile);
+      const second = await service.extractReceiptDetails(TENANT, {
+        ...mockFile,
+        buffer: Buffer.from('second-receipt'),
+      });
+
+      await service.mergeVendors(TENANT, first.vendor_id, [second.vendor_id]);
+
+      expect(mockVendorRegistry.merge).toHaveBeenCalledWith(
+        TENANT,
+        first.vendor_id,
+        [second.vendor_id],
+      );
+      expect((await service.getReceipt(TENANT, second.id)).vendor_id).toBe(
+        first.vendor_id,
+      );
+    });
+
+    it('should backfill vendor_id for stored receipts on init', async () => {
+      (fs.readdir as jest.Mock).mockResolvedValue([]);
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+      await repository.save({ ...receipt, vendor_id: undefined });
+
+      await service.onModuleInit();
+
+      expect((await service.getReceipt(TENANT, receipt.id)).vendor_id).toBe(
+        'vendor-test store',
+      );
+    });
+
+    it("should re-link receipts pointing at another tenant's vendor on init", async () => {
+      (fs.readdir as jest.Mock).mockResolvedValue([]);
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+      await repository.save({ ...receipt, vendor_id: 'vendor-of-globex' });
+      mockVendorRegistry.resolve.mockClear();
+
+      await service.onModuleInit();
+
+      expect(mockVendorRegistry.resolve).toHaveBeenCalledWith(
+        TENANT,
+        'Test Store',
+      );
+      expect((await service.getReceipt(TENANT, receipt.id)).vendor_id).toBe(
+        'vendor-test store',
+      );
+    });
+  });
+
+  describe('refreshBaseAmounts', () => {
+    it('should convert receipts that gained a rate', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify({ ...mockValidResponse, currency: 'EUR' }),
+      );
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+      expect(receipt.base_amounts).toBeUndefined();
+
+      mockExchangeRates.toBaseAmounts.mockResolvedValue({
+        currency: 'USD',
+        rate: 1.1,
+        rate_date: '2024-01-10',
+        total: 16.32,
+        tax: 1.49,
+      });
+
+      expect(await service.refreshBaseAmounts(TENANT)).toEqual({ updated: 1 });
+      expect(
+        (await service.getReceipt(TENANT, receipt.id)).base_amounts.total,
+      ).toBe(16.32);
+      expect(await service.refreshBaseAmounts(TENANT)).toEqual({ updated: 0 });
+    });
+  });
+
+  describe('deleteReceipt', () => {
+    it('should remove the receipt and its stored image', async () => {
+      mockProvider.generate.mockResolvedValue(
+        JSON.stringify(mockValidResponse),
+      );
+      const receipt = await service.extractReceiptDetails(TENANT, mockFile);
+
+      await service.deleteReceipt(TENANT, receipt.id);
+
+      expect(fs.unlink).toHaveBeenCalledWith(
+        expect.stringContaining(`${receipt.id}_receipt.jpg`),
+      );
+      expect(await service.getReceiptById(TENANT, receipt.id)).toBeUndefined();
+    });
+
+    it('should throw NotFoundException for unknown receipts', async () => {
+      await expect(service.deleteReceipt(TENANT, 'missing')).rejects.toThrow(
+        NotFoundException,
+      );
     });
   });
 });
@@ -1,167 +1,783 @@
-import { Injectable, BadRequestException, InternalServerErrorException } from '@nestjs/common';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { promises as fs } from 'fs';
-import * as path from 'path';
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
 import { ReceiptResponse } from './dto/receipt-response.dto';
-import { GeminiReceiptData } from './interfaces/gemini-receipt.interface';
+import {
+  ListReceiptsQueryDto,
+  ReceiptPage,
+} from './dto/list-receipts-query.dto';
+import { UpdateReceiptDto } from './dto/update-receipt.dto';
+import { ReceiptExtractionPipeline } from './extraction/receipt-extraction.pipeline';
+import {
+  ReceiptExtraction,
+  toReceiptFields,
+} from './extraction/receipt-fields';
+import { PreprocessedImage } from './interfaces/image-preprocessing.interface';
+import {
+  ReceiptRepository,
+  fileNameOf,
+} from './repositories/receipt.repository';
+import { ReceiptValidationService } from './validation/receipt-validation.service';
+import { ExchangeRateService } from '../currency/exchange-rate.service';
+import { CategorizationService } from '../categorization/categorization.service';
+import { VendorRegistry } from './vendors/vendor-registry.service';
+import { Vendor } from './interfaces/vendor.interface';
+import { ReceiptStorage } from '../storage/receipt-storage';
+import { FileUrlSigner } from '../storage/file-url-signer.service';
+import { DEFAULT_TENANT_ID } from '../auth/tenant';
+import { AppException } from '../common/errors/app-exception';
+import { PolicyService } from '../policy/policy.service';
+import { PolicyDryRunDto } from '../policy/dto/policy-rule.dto';
+import { evaluatePolicy } from '../policy/policy-engine';
+import { PolicyDryRunResult } from '../policy/interfaces/policy.interface';
+import { Principal } from '../auth/interfaces/auth.interface';
+import { ReceiptAuditLog } from './review/receipt-audit-log';
+import { PromptTemplateService } from '../prompts/prompt-template.service';
+import { PromptTemplate } from '../prompts/interfaces/prompt-template.interface';
+import { renderPrompt } from '../prompts/prompt-renderer';
+import { RECEIPT_SCHEMA } from './extraction/receipt-schema';
+import { hasMissingFields, reviewFor } from './review/receipt-review';
+import { ReviewDecisionDto } from './dto/review-decision.dto';
+import { AuditEntry } from './interfaces/receipt-review.interface';
+import {
+  ImagePreprocessor,
+  isProcessedImageKey,
+  processedImageKeyOf,
+} from './preprocessing/image-preprocessor';
+import {
+  PDF_MIME_TYPE,
+  SUPPORTED_MIME_TYPES,
+  countPdfPages,
+  isPdfDocument,
+  mimeTypeForFile,
+  unsupportedFileType,
+} from './receipt-file-types';
+import {
+  contentHashOf,
+  isSemanticDuplicate,
+  parseDuplicatePolicy,
+} from './duplicates/receipt-duplicates';
 
 @Injectable()
-export class ReceiptService {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
-  private uploadsDir = path.join(process.cwd(), 'uploads');
-  private receiptsData: Map<string, ReceiptResponse> = new Map();
-
-  constructor() {
-    // Initialize Gemini AI - you'll need to set GEMINI_API_KEY environment variable
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY environment variable is required');
-    }
-    
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.model = this.genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-    
-    // Ensure uploads directory exists
-    this.ensureUploadsDir();
-  }
-
-  private async ensureUploadsDir(): Promise<void> {
+export class ReceiptService implements OnModuleInit {
+  private readonly logger = new Logger(ReceiptService.name);
+  private readonly duplicatePolicy = parseDuplicatePolicy(
+    process.env.DUPLICATE_POLICY,
+  );
+
+  constructor(
+    private readonly extractionPipeline: ReceiptExtractionPipeline,
+    private readonly receiptRepository: ReceiptRepository,
+    private readonly validationService: ReceiptValidationService,
+    private readonly exchangeRateService: ExchangeRateService,
+    private readonly categorizationService: CategorizationService,
+    private readonly vendorRegistry: VendorRegistry,
+    private readonly storage: ReceiptStorage,
+    private readonly urlSigner: FileUrlSigner,
+    private readonly imagePreprocessor: ImagePreprocessor,
+    private readonly policyService: PolicyService,
+    private readonly auditLog: ReceiptAuditLog,
+    private readonly promptTemplates: PromptTemplateService,
+  ) {}
+
+  get providerName(): string {
+    return this.extractionPipeline.providerName;
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.flagUnprocessedUploads();
+    await this.linkUnregisteredVendors();
+  }
+
+  // Receipts stored before the vendor registry existed get their vendor_id,
+  // and receipts linked before vendors were kept per tenant are linked again
+  // to a vendor of their own tenant
+  private async linkUnregisteredVendors(): Promise<void> {
+    const tenantVendors = new Map<string, Set<string>>();
+    for (const receipt of await this.receiptRepository.findAll()) {
+      if (!receipt.vendor_name) {
+        continue;
+      }
+      let owned = tenantVendors.get(receipt.tenant_id);
+      if (!owned) {
+        const vendors = await this.vendorRegistry.list(receipt.tenant_id);
+        owned = new Set(vendors.map((vendor) => vendor.id));
+        tenantVendors.set(receipt.tenant_id, owned);
+      }
+      if (!owned.has(receipt.vendor_id)) {
+        const vendor = await this.vendorRegistry.resolve(
+          receipt.tenant_id,
+          receipt.vendor_name,
+        );
+        owned.add(vendor.id);
+        await this.receiptRepository.save({ ...receipt, vendor_id: vendor.id });
+      }
+    }
+  }
+
+  // Stored files without a receipt (e.g. from before the receipt store
+  // existed) are queued for re-extraction instead of being lost
+  private async flagUnprocessedUploads(): Promise<void> {
+    let fileNames: string[];
     try {
-      await fs.access(this.uploadsDir);
-    } catch {
-      await fs.mkdir(this.uploadsDir, { recursive: true });
+      fileNames = await this.storage.list();
+    } catch (error) {
+      this.logger.error('Failed to list stored receipt files', error);
+      return;
+    }
+
+    const receipts = await this.receiptRepository.findAll();
+    const known = new Set(receipts.map((r) => fileNameOf(r)));
+    const orphaned = fileNames.filter(
+      (name) =>
+        mimeTypeForFile(name) && !isProcessedImageKey(name) && !known.has(name),
+    );
+    if (orphaned.length > 0) {
+      await this.receiptRepository.flagForReextraction(orphaned);
     }
   }
-  async extractReceiptDetails(file: Express.Multer.File): Promise<ReceiptResponse> {
+
+  async extractReceiptDetails(
+    tenantId: string,
+    file: Express.Multer.File,
+    promptVersion?: string,
+  ): Promise<ReceiptResponse> {
     // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-    if (!allowedTypes.includes(file.mimetype)) {
-      throw new BadRequestException('Only .jpg, .jpeg, .png, and .webp files are allowed');
+    if (!SUPPORTED_MIME_TYPES.includes(file.mimetype)) {
+      throw unsupportedFileType();
+    }
+    if (file.mimetype === PDF_MIME_TYPE && !isPdfDocument(file.buffer)) {
+      throw new AppException(
+        'UNSUPPORTED_MEDIA',
+        'Uploaded file is not a valid PDF document',
+      );
+    }
+
+    // The same bytes were uploaded before; skip extraction entirely
+    const sameUpload = await this.receiptRepository.findByContentHash(
+      tenantId,
+      contentHashOf(file.buffer),
+    );
+    if (sameUpload && this.duplicatePolicy === 'return_existing') {
+      return this.present(sameUpload);
     }
 
+    // Resolved before anything is stored, so an unknown version fails cleanly
+    const template = await this.promptTemplates.resolve(
+      tenantId,
+      promptVersion,
+    );
+
+    // Generate unique ID for this receipt
+    const receiptId = uuidv4();
+
+    // Save the uploaded file
+    const fileName = `${receiptId}_${file.originalname}`;
     try {
-      // Generate unique ID for this receipt
-      const receiptId = uuidv4();
-      
-      // Save the uploaded file
-      const fileName = `${receiptId}_${file.originalname}`;
-      const filePath = path.join(this.uploadsDir, fileName);
-      await fs.writeFile(filePath, file.buffer);
-
-      // Convert image to base64
-      const imageBase64 = file.buffer.toString('base64');
-      
-      // Create prompt for Gemini
-      const prompt = `
-        Analyze this receipt image and extract the following information in JSON format:
-        
-        {
-          "date": "YYYY-MM-DD format",
-          "currency": "3-character currency code (e.g., USD, EUR, CAD)",
-          "vendor_name": "Name of the store/vendor",
-          "receipt_items": [
-            {
-              "item_name": "Name of the item",
-              "item_cost": 0.00
-            }
-          ],
-          "tax": 0.00,
-          "total": 0.00
-        }
-        
-        Please ensure:
-        1. The date is in YYYY-MM-DD format
-        2. Currency is a valid 3-character code
-        3. All monetary values are numbers (not strings)
-        4. Tax is the total GST/tax amount for the entire receipt
-        5. Total is the final amount paid
-        6. Item costs should be individual item prices before tax
-        
-        Return only the JSON object, no additional text.
-      `;
-
-      // Send image and prompt to Gemini
-      const result = await this.model.generateContent([
-        prompt,
-        {
-          inlineData: {
-            data: imageBase64,
-            mimeType: file.mimetype,
-          },
-        },
-      ]);
+      await this.storeFile(fileName, file.buffer, file.mimetype);
 
-      const response = await result.response;
-      const text = response.text();
-      
-      // Parse the JSON response
-      let extractedData: GeminiReceiptData;
-      try {
-        // Clean the response text and parse JSON
-        const cleanedText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-        extractedData = JSON.parse(cleanedText);
-      } catch (parseError) {
-        console.error('Failed to parse Gemini response:', text);
-        throw new InternalServerErrorException('AI model returned invalid response format');
-      }
+      const receipt = await this.buildReceipt(
+        tenantId,
+        receiptId,
+        fileName,
+        file,
+        template,
+      );
 
-      // Validate the extracted data
-      if (!this.validateExtractedData(extractedData)) {
-        throw new InternalServerErrorException('AI model returned incomplete or invalid data');
+      // A different image of a receipt that is already stored. Fields the
+      // model could not read would make unrelated incomplete receipts look
+      // alike.
+      const duplicate =
+        sameUpload ??
+        (hasMissingFields(receipt.review)
+          ? undefined
+          : await this.findSemanticDuplicate(receipt));
+      if (duplicate) {
+        if (this.duplicatePolicy === 'return_existing') {
+          await this.removeFiles(receipt);
+          return this.present(duplicate);
+        }
+        receipt.possible_duplicate_of = duplicate.id;
       }
 
-      // Create the receipt response
-      const receiptResponse: ReceiptResponse = {
-        id: receiptId,
-        date: extractedData.date,
-        currency: extractedData.currency,
-        vendor_name: extractedData.vendor_name,
-        receipt_items: extractedData.receipt_items,
-        tax: extractedData.tax,
-        total: extractedData.total,
-        image_url: `/uploads/${fileName}`,
-      };
+      return this.present(await this.receiptRepository.save(receipt));
+    } catch (error) {
+      // No receipt points at the files, so nothing would ever delete them
+      await this.discardFiles([fileName, processedImageKeyOf(fileName)]);
+      throw error;
+    }
+  }
+
+  // Re-runs extraction for a file already in storage, keeping its ID. The
+  // uploader is unknown, so the receipt goes to the default tenant.
+  async reextractUpload(fileName: string): Promise<ReceiptResponse> {
+    const pending = await this.receiptRepository.findPendingReextraction();
+    if (!pending.includes(fileName)) {
+      throw new BadRequestException(
+        `Upload '${fileName}' is not pending re-extraction`,
+      );
+    }
 
-      // Store the receipt data (in a real app, this would be in a database)
-      this.receiptsData.set(receiptId, receiptResponse);
+    const separator = fileName.indexOf('_');
+    const receiptId = separator > 0 ? fileName.slice(0, separator) : uuidv4();
+    const originalName =
+      separator > 0 ? fileName.slice(separator + 1) : fileName;
 
-      return receiptResponse;
+    const buffer = await this.withStorage(() => this.storage.get(fileName));
+    if (!buffer) {
+      throw new NotFoundException(`Upload '${fileName}' no longer exists`);
+    }
+    const receipt = await this.buildReceipt(
+      DEFAULT_TENANT_ID,
+      receiptId,
+      fileName,
+      {
+        originalname: originalName,
+        mimetype: mimeTypeForFile(fileName),
+        size: buffer.length,
+        buffer,
+      } as Express.Multer.File,
+      await this.promptTemplates.resolve(DEFAULT_TENANT_ID),
+    );
+    return this.present(await this.receiptRepository.save(receipt));
+  }
 
-    } catch (error) {
-      if (error instanceof BadRequestException || error instanceof InternalServerErrorException) {
-        throw error;
-      }
-      console.error('Error processing receipt:', error);
-      throw new InternalServerErrorException('Failed to process receipt image');
+  /**
+   * Extracts a stored receipt's file again, e.g. under a newer prompt
+   * version, keeping its ID. Extracted fields, earlier corrections included,
+   * are replaced and any review starts over; the audit log keeps the history.
+   */
+  async reextractReceipt(
+    tenantId: string,
+    id: string,
+    promptVersion?: string,
+  ): Promise<ReceiptResponse> {
+    const receipt = await this.findReceipt(tenantId, id);
+    const template = await this.promptTemplates.resolve(
+      tenantId,
+      promptVersion,
+    );
+    const fileName = fileNameOf(receipt);
+    const buffer = await this.withStorage(() => this.storage.get(fileName));
+    if (!buffer) {
+      throw new NotFoundException(`File of receipt '${id}' no longer exists`);
+    }
+
+    const rebuilt = await this.buildReceipt(
+      tenantId,
+      receipt.id,
+      fileName,
+      {
+        originalname: receipt.metadata?.source_file_name ?? fileName,
+        mimetype: receipt.metadata?.mime_type ?? mimeTypeForFile(fileName),
+        size: buffer.length,
+        buffer,
+      } as Express.Multer.File,
+      template,
+    );
+    const createdAt =
+      receipt.metadata?.created_at ?? rebuilt.metadata.created_at;
+    const updated: ReceiptResponse = {
+      ...rebuilt,
+      possible_duplicate_of: receipt.possible_duplicate_of,
+      justification: receipt.justification,
+      metadata: {
+        ...rebuilt.metadata,
+        created_at: createdAt,
+        reextracted_at: rebuilt.metadata.created_at,
+      },
+    };
+    updated.policy = await this.policyService.evaluate(
+      tenantId,
+      updated,
+      new Date(createdAt),
+    );
+    return this.present(await this.receiptRepository.save(updated));
+  }
+
+  getPendingReextraction(): Promise<string[]> {
+    return this.receiptRepository.findPendingReextraction();
+  }
+
+  // Prefers a match that is not itself flagged as a duplicate
+  private async findSemanticDuplicate(
+    receipt: ReceiptResponse,
+  ): Promise<ReceiptResponse | undefined> {
+    const matches = (
+      await this.receiptRepository.findAll(receipt.tenant_id)
+    ).filter(
+      (existing) =>
+        existing.id !== receipt.id && isSemanticDuplicate(existing, receipt),
+    );
+    return matches.find((m) => !m.possible_duplicate_of) ?? matches[0];
+  }
+
+  private async buildReceipt(
+    tenantId: string,
+    receiptId: string,
+    fileName: string,
+    file: Express.Multer.File,
+    template: PromptTemplate,
+  ): Promise<ReceiptResponse> {
+    // Send the preprocessed image, when there is one, keeping the original
+    const processed = await this.imagePreprocessor.process(
+      file.buffer,
+      file.mimetype,
+    );
+    const processedKey = processed && processedImageKeyOf(fileName);
+    if (processed) {
+      await this.storeFile(processedKey, processed.data, processed.mimeType);
     }
+
+    const { fields, attempts, incomplete } = await this.extract(
+      tenantId,
+      file,
+      processed,
+      template,
+    );
+
+    // Create the receipt response
+    const now = new Date().toISOString();
+    const validation = this.validationService.validate(fields);
+    const receiptResponse: ReceiptResponse = {
+      id: receiptId,
+      tenant_id: tenantId,
+      ...fields,
+      image_key: fileName,
+      image_url: `/files/${encodeURIComponent(fileName)}`,
+      processed_image_key: processedKey,
+      // An unreadable vendor name waits for the reviewer's correction
+      vendor_id: fields.vendor_name
+        ? (await this.vendorRegistry.resolve(tenantId, fields.vendor_name)).id
+        : undefined,
+      base_amounts: await this.exchangeRateService.toBaseAmounts(fields),
+      validation,
+      review: reviewFor(incomplete, validation),
+      metadata: {
+        created_at: now,
+        updated_at: now,
+        source_file_name: file.originalname,
+        mime_type: file.mimetype,
+        page_count:
+          file.mimetype === PDF_MIME_TYPE ? countPdfPages(file.buffer) : 1,
+        provider: this.extractionPipeline.providerName,
+        prompt_version: template.version,
+        model: template.model,
+        content_hash: contentHashOf(file.buffer),
+        extraction_attempts: attempts,
+        preprocessing: processed && {
+          steps: processed.steps,
+          original_bytes: file.buffer.length,
+          processed_bytes: processed.data.length,
+          width: processed.width,
+          height: processed.height,
+        },
+      },
+    };
+
+    receiptResponse.policy = await this.policyService.evaluate(
+      tenantId,
+      receiptResponse,
+    );
+    return receiptResponse;
+  }
+
+  /**
+   * Runs extraction without storing the file or a receipt, e.g. to measure
+   * accuracy against a labeled corpus. No tenant's category rules apply, so
+   * the result reflects the provider and prompt alone.
+   */
+  async previewExtraction(
+    file: Express.Multer.File,
+    template: PromptTemplate,
+  ): Promise<ReceiptExtraction> {
+    const processed = await this.imagePreprocessor.process(
+      file.buffer,
+      file.mimetype,
+    );
+    return this.extract(undefined, file, processed, template);
   }
 
-  private validateExtractedData(data: any): data is GeminiReceiptData {
-    return (
-      data &&
-      typeof data.date === 'string' &&
-      typeof data.currency === 'string' &&
-      typeof data.vendor_name === 'string' &&
-      Array.isArray(data.receipt_items) &&
-      data.receipt_items.every((item: any) => 
-        typeof item.item_name === 'string' && 
-        typeof item.item_cost === 'number'
-      ) &&
-      typeof data.tax === 'number' &&
-      typeof data.total === 'number' &&
-      data.currency.length === 3
+  private async extract(
+    tenantId: string | undefined,
+    file: Express.Multer.File,
+    processed: PreprocessedImage | undefined,
+    template: PromptTemplate,
+  ): Promise<ReceiptExtraction> {
+    const prompt = renderPrompt(template, {
+      categories: (await this.categorizationService.getTaxonomy()).map(
+        (category) => category.id,
+      ),
+      schema: RECEIPT_SCHEMA,
+    });
+
+    // Send image and prompt through the retrying extraction pipeline
+    const {
+      data: extractedData,
+      attempts,
+      incomplete,
+    } = await this.extractionPipeline.run({
+      prompt,
+      fileName: file.originalname,
+      mimeType: processed?.mimeType ?? file.mimetype,
+      data: processed?.data ?? file.buffer,
+      sourceDigest: contentHashOf(file.buffer),
+      model: template.model,
+      temperature: template.temperature,
+    });
+
+    const fields = await this.categorizationService.categorize(
+      tenantId,
+      toReceiptFields(extractedData),
     );
+    return { fields, attempts, incomplete };
   }
 
   // Method to get a receipt by ID (useful for testing and future endpoints)
-  getReceiptById(id: string): ReceiptResponse | undefined {
-    return this.receiptsData.get(id);
+  async getReceiptById(
+    tenantId: string,
+    id: string,
+  ): Promise<ReceiptResponse | undefined> {
+    const receipt = await this.receiptRepository.findById(id);
+    return receipt?.tenant_id === tenantId ? this.present(receipt) : undefined;
   }
 
   // Method to get all receipts (useful for testing and future endpoints)
-  getAllReceipts(): ReceiptResponse[] {
-    return Array.from(this.receiptsData.values());
+  async getAllReceipts(tenantId: string): Promise<ReceiptResponse[]> {
+    const receipts = await this.receiptRepository.findAll(tenantId);
+    return receipts.map((receipt) => this.present(receipt));
+  }
+
+  async listReceipts(
+    tenantId: string,
+    query: ListReceiptsQueryDto,
+  ): Promise<ReceiptPage<ReceiptResponse>> {
+    const page = await this.receiptRepository.list(tenantId, query);
+    return { ...page, data: page.data.map((r) => this.present(r)) };
+  }
+
+  async getReceipt(tenantId: string, id: string): Promise<ReceiptResponse> {
+    return this.present(await this.findReceipt(tenantId, id));
+  }
+
+  // Receipts of other tenants are reported as missing, not forbidden
+  private async findReceipt(
+    tenantId: string,
+    id: string,
+  ): Promise<ReceiptResponse> {
+    const receipt = await this.receiptRepository.findById(id);
+    if (!receipt || receipt.tenant_id !== tenantId) {
+      throw new NotFoundException(`Receipt with ID '${id}' not found`);
+    }
+    return receipt;
+  }
+
+  // Stored receipts keep an unsigned path; callers get a fresh signed link
+  private present(receipt: ReceiptResponse): ReceiptResponse {
+    const key = fileNameOf(receipt);
+    const presented = { ...receipt, image_url: this.urlSigner.sign(key) };
+    if (receipt.processed_image_key) {
+      presented.processed_image_url = this.urlSigner.sign(
+        receipt.processed_image_key,
+      );
+    }
+    return presented;
+  }
+
+  // Applies human corrections to extracted fields
+  async updateReceipt(
+    tenantId: string,
+    id: string,
+    changes: UpdateReceiptDto,
+    actor: Principal,
+  ): Promise<ReceiptResponse> {
+    const receipt = await this.findReceipt(tenantId, id);
+    const updated = await this.applyCorrections(receipt, changes);
+    const saved = await this.saveChanges(
+      receipt,
+      updated,
+      Object.keys(changes),
+      actor,
+      'correction',
+    );
+    await this.learnCategory(saved, changes);
+    return this.present(saved);
+  }
+
+  /**
+   * Approves or rejects a receipt, applying the reviewer's corrections
+   * first. Any receipt may be reviewed, not only those extraction flagged.
+   */
+  async reviewReceipt(
+    tenantId: string,
+    id: string,
+    decision: ReviewDecisionDto,
+    actor: Principal,
+  ): Promise<ReceiptResponse> {
+    const receipt = await this.findReceipt(tenantId, id);
+    const corrections = decision.corrections ?? {};
+    const updated = await this.applyCorrections(receipt, corrections);
+    updated.review = {
+      status: decision.decision,
+      reasons: receipt.review?.reasons ?? [],
+      reviewed_by: actor.subject,
+      reviewed_at: new Date().toISOString(),
+      note: decision.note,
+    };
+    const saved = await this.saveChanges(
+      receipt,
+      updated,
+      [...Object.keys(corrections), 'review.status'],
+      actor,
+      'review',
+    );
+    await this.learnCategory(saved, corrections);
+    return this.present(saved);
+  }
+
+  async getAuditLog(tenantId: string, id: string): Promise<AuditEntry[]> {
+    await this.findReceipt(tenantId, id);
+    return this.auditLog.list(tenantId, id);
+  }
+
+  private async applyCorrections(
+    receipt: ReceiptResponse,
+    changes: UpdateReceiptDto,
+  ): Promise<ReceiptResponse> {
+    const categories = new Set(
+      [
+        changes.category,
+        ...(changes.receipt_items ?? []).map((item) => item.category),
+      ].filter(Boolean),
+    );
+    for (const category of categories) {
+      await this.categorizationService.assertCategory(category);
+    }
+
+    const updated: ReceiptResponse = {
+      ...receipt,
+      ...changes,
+      currency: (changes.currency ?? receipt.currency).toUpperCase(),
+    };
+    if (changes.category) {
+      updated.category_source = 'user';
+    }
+    if (changes.vendor_name) {
+      updated.vendor_id = (
+        await this.vendorRegistry.resolve(
+          receipt.tenant_id,
+          changes.vendor_name,
+        )
+      ).id;
+    }
+    // Replacement items without a category inherit the receipt's
+    updated.receipt_items = updated.receipt_items.map((item) => ({
+      ...item,
+      category: item.category ?? updated.category,
+    }));
+    updated.base_amounts =
+      await this.exchangeRateService.toBaseAmounts(updated);
+    updated.validation = this.validationService.validate(updated);
+    updated.policy = await this.policyService.evaluate(
+      receipt.tenant_id,
+      updated,
+      new Date(receipt.metadata?.created_at ?? Date.now()),
+    );
+    return updated;
+  }
+
+  // Saves the receipt and records every listed field whose value changed
+  private async saveChanges(
+    receipt: ReceiptResponse,
+    updated: ReceiptResponse,
+    fields: string[],
+    actor: Principal,
+    source: AuditEntry['source'],
+  ): Promise<ReceiptResponse> {
+    const changedAt = new Date().toISOString();
+    const saved = await this.receiptRepository.save({
+      ...updated,
+      metadata: receipt.metadata && {
+        ...receipt.metadata,
+        updated_at: changedAt,
+      },
+    });
+
+    const valueOf = (r: ReceiptResponse, field: string) =>
+      field === 'review.status' ? r.review?.status : r[field];
+    await this.auditLog.record(
+      fields
+        .map((field) => ({
+          field,
+          old_value: valueOf(receipt, field) ?? null,
+          new_value: valueOf(saved, field) ?? null,
+        }))
+        .filter(
+          (change) =>
+            JSON.stringify(change.old_value) !==
+            JSON.stringify(change.new_value),
+        )
+        .map((change) => ({
+          tenant_id: receipt.tenant_id,
+          receipt_id: receipt.id,
+          ...change,
+          changed_by: { method: actor.method, subject: actor.subject },
+          changed_at: changedAt,
+          source,
+        })),
+    );
+    return saved;
+  }
+
+  private async learnCategory(
+    receipt: ReceiptResponse,
+    changes: UpdateReceiptDto,
+  ): Promise<void> {
+    if (changes.category) {
+      await this.categorizationService.learnVendorCategory(
+        receipt.tenant_id,
+        receipt.vendor_name,
+        changes.category,
+      );
+    }
+  }
+
+  // Merges vendors in the registry and re-links their receipts to the target
+  async mergeVendors(
+    tenantId: string,
+    targetId: string,
+    sourceIds: string[],
+  ): Promise<Vendor> {
+    const target = await this.vendorRegistry.merge(
+      tenantId,
+      targetId,
+      sourceIds,
+    );
+    for (const receipt of await this.receiptRepository.findAll(tenantId)) {
+      if (sourceIds.includes(receipt.vendor_id)) {
+        await this.receiptRepository.save({ ...receipt, vendor_id: target.id });
+      }
+    }
+    return target;
+  }
+
+  /**
+   * Shows what a rule set would flag among stored receipts, without saving
+   * anything. Uses the tenant's current rules unless others are given.
+   */
+  async dryRunPolicy(
+    tenantId: string,
+    query: PolicyDryRunDto,
+  ): Promise<PolicyDryRunResult> {
+    const rules = query.rules
+      ? await this.policyService.buildRules(tenantId, query.rules)
+      : await this.policyService.listRules(tenantId);
+    const receipts = (await this.receiptRepository.findAll(tenantId))
+      .filter(
+        (receipt) =>
+          (!query.date_from || receipt.date >= query.date_from) &&
+          (!query.date_to || receipt.date <= query.date_to),
+      )
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const counts = new Map(rules.map((rule) => [rule.id, 0]));
+    const flagged = receipts
+      .map((receipt) => ({
+        receipt_id: receipt.id,
+        date: receipt.date,
+        vendor_name: receipt.vendor_name,
+        total: receipt.total,
+        currency: receipt.currency,
+        violations: evaluatePolicy(
+          rules,
+          receipt,
+          new Date(receipt.metadata?.created_at ?? Date.now()),
+        ),
+      }))
+      .filter((result) => result.violations.length > 0);
+    for (const { violations } of flagged) {
+      for (const violation of violations) {
+        counts.set(violation.rule_id, counts.get(violation.rule_id) + 1);
+      }
+    }
+
+    return {
+      evaluated: receipts.length,
+      flagged: flagged.length,
+      rules: rules.map((rule) => ({
+        rule_id: rule.id,
+        rule_name: rule.name,
+        violations: counts.get(rule.id),
+      })),
+      receipts: flagged,
+    };
+  }
+
+  // Recomputes base currency amounts, e.g. after importing new rates
+  async refreshBaseAmounts(tenantId: string): Promise<{ updated: number }> {
+    let updated = 0;
+    for (const receipt of await this.receiptRepository.findAll(tenantId)) {
+      const baseAmounts = await this.exchangeRateService.toBaseAmounts(receipt);
+      if (
+        JSON.stringify(baseAmounts) !== JSON.stringify(receipt.base_amounts)
+      ) {
+        await this.receiptRepository.save({
+          ...receipt,
+          base_amounts: baseAmounts,
+        });
+        updated++;
+      }
+    }
+    return { updated };
+  }
+
+  // Deletes the receipt and its stored images
+  async deleteReceipt(tenantId: string, id: string): Promise<void> {
+    const receipt = await this.findReceipt(tenantId, id);
+    await this.receiptRepository.delete(id);
+    await this.removeFiles(receipt);
+  }
+
+  private async removeFiles(receipt: ReceiptResponse): Promise<void> {
+    const keys = [fileNameOf(receipt), receipt.processed_image_key];
+    for (const key of keys.filter(Boolean)) {
+      await this.withStorage(() => this.storage.delete(key));
+    }
+  }
+
+  // Best effort: a failed delete is logged so it does not hide the error
+  // that made the files unwanted
+  private async discardFiles(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      try {
+        await this.storage.delete(key);
+      } catch (error) {
+        this.logger.error(`Failed to delete stored file '${key}'`, error);
+      }
+    }
+  }
+
+  private storeFile(
+    key: string,
+    data: Buffer,
+    mimeType: string,
+  ): Promise<void> {
+    return this.withStorage(() => this.storage.put(key, data, mimeType));
+  }
+
+  // Storage backends fail with driver-specific errors (fs, S3); callers get
+  // STORAGE_FAILURE and the cause is logged
+  private async withStorage<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      this.logger.error('Receipt storage operation failed', error);
+      throw new AppException('STORAGE_FAILURE');
+    }
   }
 }
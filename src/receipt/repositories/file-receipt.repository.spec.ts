@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileReceiptRepository } from './file-receipt.repository';
+import { ReceiptResponse } from '../dto/receipt-response.dto';
+
+describe('FileReceiptRepository', () => {
+  let dataDir: string;
+  let filePath: string;
+
+  const receipt: ReceiptResponse = {
+    id: 'receipt-1',
+    date: '2024-01-15',
+    currency: 'USD',
+    vendor_name: 'Test Store',
+    receipt_items: [{ item_name: 'Coffee', item_cost: 4.5 }],
+    tax: 0.5,
+    total: 5,
+    image_url: '/uploads/receipt-1_coffee.jpg',
+  };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'receipts-'));
+    filePath = path.join(dataDir, 'receipts.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should persist receipts across instances', async () => {
+    await new FileReceiptRepository(filePath).save(receipt);
+
+    const reopened = new FileReceiptRepository(filePath);
+    expect(await reopened.findById('receipt-1')).toEqual(receipt);
+    expect(await reopened.findAll()).toEqual([receipt]);
+  });
+
+  it('should scope queries to a tenant', async () => {
+    const repository = new FileReceiptRepository(filePath);
+    await repository.save({ ...receipt, tenant_id: 'acme' });
+    await repository.save({ ...receipt, id: 'receipt-2', tenant_id: 'globex' });
+
+    expect((await repository.findAll('acme')).map((r) => r.id)).toEqual([
+      'receipt-1',
+    ]);
+    expect((await repository.list('globex', {})).data).toHaveLength(1);
+    expect(await repository.findAll()).toHaveLength(2);
+  });
+
+  it('should return copies rather than stored references', async () => {
+    const repository = new FileReceiptRepository(filePath);
+    await repository.save(receipt);
+
+    const loaded = await repository.findById('receipt-1');
+    loaded.receipt_items.push({ item_name: 'Extra', item_cost: 1 });
+
+    expect((await repository.findById('receipt-1')).receipt_items).toHaveLength(
+      1,
+    );
+  });
+
+  it('should clear the re-extraction flag once a receipt is saved', async () => {
+    const repository = new FileReceiptRepository(filePath);
+    await repository.flagForReextraction([
+      'receipt-1_coffee.jpg',
+      'other_1.jpg',
+    ]);
+
+    await repository.save(receipt);
+
+    expect(await repository.findPendingReextraction()).toEqual(['other_1.jpg']);
+  });
+
+  it('should migrate documents written without a schema version', async () => {
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ data: { receipts: { [receipt.id]: receipt } } }),
+    );
+
+    const repository = new FileReceiptRepository(filePath);
+
+    expect(await repository.findAll()).toEqual([
+      {
+        ...receipt,
+        image_key: 'receipt-1_coffee.jpg',
+        image_url: '/files/receipt-1_coffee.jpg',
+        tenant_id: 'default',
+      },
+    ]);
+    expect(await repository.findPendingReextraction()).toEqual([]);
+    const stored = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    expect(stored.schema_version).toBe(3);
+  });
+});
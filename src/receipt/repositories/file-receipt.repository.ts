@@ -0,0 +1,122 @@
+import { ReceiptResponse } from '../dto/receipt-response.dto';
+import {
+  JsonFileStore,
+  JsonStoreMigration,
+} from '../../common/persistence/json-file-store';
+import {
+  ListReceiptsQueryDto,
+  ReceiptPage,
+} from '../dto/list-receipts-query.dto';
+import { ReceiptRepository, fileNameOf } from './receipt.repository';
+import { applyReceiptQuery } from './receipt-query';
+import { DEFAULT_TENANT_ID } from '../../auth/tenant';
+
+interface ReceiptStoreState {
+  receipts: Record<string, ReceiptResponse>;
+  pending_reextraction: string[];
+}
+
+export const RECEIPT_STORE_MIGRATIONS: JsonStoreMigration[] = [
+  {
+    version: 1,
+    description: 'Initial receipts store',
+    up: (data) => ({ receipts: {}, pending_reextraction: [], ...data }),
+  },
+  {
+    version: 2,
+    description: 'Replace public /uploads paths with storage keys',
+    up: (data) => {
+      for (const receipt of Object.values<ReceiptResponse>(data.receipts)) {
+        receipt.image_key ??= receipt.image_url.split('/').pop();
+        receipt.image_url = `/files/${encodeURIComponent(receipt.image_key)}`;
+      }
+      return data;
+    },
+  },
+  {
+    version: 3,
+    description: 'Assign receipts from before tenants to the default tenant',
+    up: (data) => {
+      for (const receipt of Object.values<ReceiptResponse>(data.receipts)) {
+        receipt.tenant_id ??= DEFAULT_TENANT_ID;
+      }
+      return data;
+    },
+  },
+];
+
+export class FileReceiptRepository extends ReceiptRepository {
+  private store: JsonFileStore<ReceiptStoreState>;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore<ReceiptStoreState>(
+      filePath,
+      () => ({ receipts: {}, pending_reextraction: [] }),
+      RECEIPT_STORE_MIGRATIONS,
+    );
+  }
+
+  async save(receipt: ReceiptResponse): Promise<ReceiptResponse> {
+    return this.store.update((state) => {
+      state.receipts[receipt.id] = structuredClone(receipt);
+      state.pending_reextraction = state.pending_reextraction.filter(
+        (name) => name !== fileNameOf(receipt),
+      );
+      return structuredClone(receipt);
+    });
+  }
+
+  async findById(id: string): Promise<ReceiptResponse | undefined> {
+    const { receipts } = await this.store.read();
+    return receipts[id] && structuredClone(receipts[id]);
+  }
+
+  async findAll(tenantId?: string): Promise<ReceiptResponse[]> {
+    const { receipts } = await this.store.read();
+    return Object.values(receipts)
+      .filter((r) => !tenantId || r.tenant_id === tenantId)
+      .map((r) => structuredClone(r));
+  }
+
+  async findByContentHash(
+    tenantId: string,
+    contentHash: string,
+  ): Promise<ReceiptResponse | undefined> {
+    const { receipts } = await this.store.read();
+    const receipt = Object.values(receipts).find(
+      (r) =>
+        r.tenant_id === tenantId && r.metadata?.content_hash === contentHash,
+    );
+    return receipt && structuredClone(receipt);
+  }
+
+  async list(
+    tenantId: string,
+    query: ListReceiptsQueryDto,
+  ): Promise<ReceiptPage<ReceiptResponse>> {
+    return applyReceiptQuery(await this.findAll(tenantId), query);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.update((state) => {
+      if (!state.receipts[id]) {
+        return false;
+      }
+      delete state.receipts[id];
+      return true;
+    });
+  }
+
+  async flagForReextraction(fileNames: string[]): Promise<void> {
+    await this.store.update((state) => {
+      const pending = new Set([...state.pending_reextraction, ...fileNames]);
+      state.pending_reextraction = Array.from(pending);
+    });
+  }
+
+  async findPendingReextraction(): Promise<string[]> {
+    const { pending_reextraction } = await this.store.read();
+    return [...pending_reextraction];
+  }
+}
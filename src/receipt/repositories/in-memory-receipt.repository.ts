@@ -0,0 +1,59 @@
+import { ReceiptResponse } from '../dto/receipt-response.dto';
+import {
+  ListReceiptsQueryDto,
+  ReceiptPage,
+} from '../dto/list-receipts-query.dto';
+import { ReceiptRepository, fileNameOf } from './receipt.repository';
+import { applyReceiptQuery } from './receipt-query';
+
+export class InMemoryReceiptRepository extends ReceiptRepository {
+  private receipts = new Map<string, ReceiptResponse>();
+  private pendingUploads = new Set<string>();
+
+  async save(receipt: ReceiptResponse): Promise<ReceiptResponse> {
+    this.receipts.set(receipt.id, structuredClone(receipt));
+    this.pendingUploads.delete(fileNameOf(receipt));
+    return structuredClone(receipt);
+  }
+
+  async findById(id: string): Promise<ReceiptResponse | undefined> {
+    const receipt = this.receipts.get(id);
+    return receipt && structuredClone(receipt);
+  }
+
+  async findAll(tenantId?: string): Promise<ReceiptResponse[]> {
+    return Array.from(this.receipts.values())
+      .filter((r) => !tenantId || r.tenant_id === tenantId)
+      .map((r) => structuredClone(r));
+  }
+
+  async findByContentHash(
+    tenantId: string,
+    contentHash: string,
+  ): Promise<ReceiptResponse | undefined> {
+    const receipt = Array.from(this.receipts.values()).find(
+      (r) =>
+        r.tenant_id === tenantId && r.metadata?.content_hash === contentHash,
+    );
+    return receipt && structuredClone(receipt);
+  }
+
+  async list(
+    tenantId: string,
+    query: ListReceiptsQueryDto,
+  ): Promise<ReceiptPage<ReceiptResponse>> {
+    return applyReceiptQuery(await this.findAll(tenantId), query);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.receipts.delete(id);
+  }
+
+  async flagForReextraction(fileNames: string[]): Promise<void> {
+    fileNames.forEach((name) => this.pendingUploads.add(name));
+  }
+
+  async findPendingReextraction(): Promise<string[]> {
+    return Array.from(this.pendingUploads);
+  }
+}
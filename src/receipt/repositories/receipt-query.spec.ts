@@ -0,0 +1,88 @@
+import { BadRequestException } from '@nestjs/common';
+import { applyReceiptQuery } from './receipt-query';
+import { ReceiptResponse } from '../dto/receipt-response.dto';
+
+describe('applyReceiptQuery', () => {
+  const receipt = (
+    id: string,
+    overrides: Partial<ReceiptResponse>,
+  ): ReceiptResponse => ({
+    id,
+    date: '2024-01-01',
+    currency: 'USD',
+    vendor_name: 'Store',
+    receipt_items: [],
+    tax: 0,
+    total: 10,
+    image_url: `/uploads/${id}.jpg`,
+    ...overrides,
+  });
+
+  const receipts = [
+    receipt('a', { vendor_name: 'Starbucks', date: '2024-01-05', total: 5 }),
+    receipt('b', { vendor_name: 'Walmart', date: '2024-02-10', total: 98 }),
+    receipt('c', {
+      vendor_name: 'Starbucks Coffee',
+      date: '2024-03-01',
+      total: 7,
+      currency: 'CAD',
+    }),
+    receipt('d', {
+      vendor_name: 'Foot Locker',
+      date: '2023-09-09',
+      total: 250,
+    }),
+  ];
+
+  const ids = (page: { data: ReceiptResponse[] }) => page.data.map((r) => r.id);
+
+  it('should sort by date descending by default', () => {
+    expect(ids(applyReceiptQuery(receipts, {}))).toEqual(['c', 'b', 'a', 'd']);
+  });
+
+  it('should filter by vendor substring, currency, date and total ranges', () => {
+    expect(ids(applyReceiptQuery(receipts, { vendor: 'starbucks' }))).toEqual([
+      'c',
+      'a',
+    ]);
+    expect(ids(applyReceiptQuery(receipts, { currency: 'cad' }))).toEqual([
+      'c',
+    ]);
+    expect(
+      ids(
+        applyReceiptQuery(receipts, {
+          date_from: '2024-01-01',
+          date_to: '2024-02-28',
+        }),
+      ),
+    ).toEqual(['b', 'a']);
+    expect(
+      ids(applyReceiptQuery(receipts, { min_total: 6, max_total: 100 })),
+    ).toEqual(['c', 'b']);
+  });
+
+  it('should page through results with a cursor', () => {
+    const query = {
+      sort_by: 'total' as const,
+      order: 'asc' as const,
+      limit: 3,
+    };
+
+    const first = applyReceiptQuery(receipts, query);
+    expect(ids(first)).toEqual(['a', 'c', 'b']);
+    expect(first.next_cursor).toEqual(expect.any(String));
+
+    const second = applyReceiptQuery(receipts, {
+      ...query,
+      cursor: first.next_cursor,
+    });
+    expect(ids(second)).toEqual(['d']);
+    expect(second.next_cursor).toBeNull();
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() =>
+      applyReceiptQuery(receipts, { cursor: 'not-a-cursor' }),
+    ).toThrow(BadRequestException);
+  });
+});
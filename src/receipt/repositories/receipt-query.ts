@@ -0,0 +1,136 @@
+import { BadRequestException } from '@nestjs/common';
+import { ReceiptResponse } from '../dto/receipt-response.dto';
+import {
+  ListReceiptsQueryDto,
+  ReceiptPage,
+  ReceiptSortField,
+} from '../dto/list-receipts-query.dto';
+import { ReceiptFilterQueryDto } from '../dto/receipt-filter-query.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+interface CursorPosition {
+  value: string | number;
+  id: string;
+}
+
+function sortValue(
+  receipt: ReceiptResponse,
+  field: ReceiptSortField,
+): string | number {
+  switch (field) {
+    case 'total':
+      return receipt.total;
+    case 'vendor_name':
+      return receipt.vendor_name.toLowerCase();
+    case 'created_at':
+      return receipt.metadata?.created_at ?? '';
+    default:
+      return receipt.date;
+  }
+}
+
+function compare(a: CursorPosition, b: CursorPosition): number {
+  if (a.value < b.value) return -1;
+  if (a.value > b.value) return 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof position?.id === 'string' && 'value' in position) {
+      return position;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new BadRequestException('Invalid pagination cursor');
+}
+
+export function matchesReceiptFilters(
+  receipt: ReceiptResponse,
+  query: ReceiptFilterQueryDto,
+): boolean {
+  if (
+    query.vendor &&
+    !receipt.vendor_name.toLowerCase().includes(query.vendor.toLowerCase())
+  ) {
+    return false;
+  }
+  if (
+    query.currency &&
+    receipt.currency.toUpperCase() !== query.currency.toUpperCase()
+  ) {
+    return false;
+  }
+  if (query.vendor_id && receipt.vendor_id !== query.vendor_id) return false;
+  if (query.category && receipt.category !== query.category) return false;
+  if (query.review_status && receipt.review?.status !== query.review_status) {
+    return false;
+  }
+  if (query.date_from && receipt.date < query.date_from) return false;
+  if (query.date_to && receipt.date > query.date_to) return false;
+  if (query.min_total !== undefined && receipt.total < query.min_total) {
+    return false;
+  }
+  if (query.max_total !== undefined && receipt.total > query.max_total) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a receipt counts toward spend totals. Receipts a reviewer rejected
+ * never do. Receipts stored with DUPLICATE_POLICY=link and flagged as
+ * possible duplicates would count the same purchase twice, so they are left
+ * out unless asked for.
+ */
+export function countsTowardSpend(
+  receipt: ReceiptResponse,
+  options: { include_duplicates?: boolean },
+): boolean {
+  if (receipt.review?.status === 'rejected') {
+    return false;
+  }
+  return options.include_duplicates || !receipt.possible_duplicate_of;
+}
+
+/**
+ * Filters, sorts and pages receipts held in memory. Sorting is stable on
+ * (sort value, id) so the cursor stays valid while receipts are added.
+ */
+export function applyReceiptQuery(
+  receipts: ReceiptResponse[],
+  query: ListReceiptsQueryDto,
+): ReceiptPage<ReceiptResponse> {
+  const field = query.sort_by ?? 'date';
+  const direction = query.order === 'asc' ? 1 : -1;
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+  let positioned = receipts
+    .filter((receipt) => matchesReceiptFilters(receipt, query))
+    .map((receipt) => ({
+      receipt,
+      position: { value: sortValue(receipt, field), id: receipt.id },
+    }))
+    .sort((a, b) => direction * compare(a.position, b.position));
+
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor);
+    positioned = positioned.filter(
+      ({ position }) => direction * compare(position, after) > 0,
+    );
+  }
+
+  const page = positioned.slice(0, limit);
+  const hasMore = positioned.length > limit;
+  return {
+    data: page.map(({ receipt }) => receipt),
+    next_cursor: hasMore ? encodeCursor(page[page.length - 1].position) : null,
+  };
+}
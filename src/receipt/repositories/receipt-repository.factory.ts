@@ -0,0 +1,23 @@
+import { FactoryProvider } from '@nestjs/common';
+import { resolveDataPath } from '../../common/persistence/data-dir';
+import { ReceiptRepository } from './receipt.repository';
+import { FileReceiptRepository } from './file-receipt.repository';
+import { InMemoryReceiptRepository } from './in-memory-receipt.repository';
+
+export function createReceiptRepository(
+  env: NodeJS.ProcessEnv = process.env,
+): ReceiptRepository {
+  switch (env.RECEIPT_STORE || 'file') {
+    case 'file':
+      return new FileReceiptRepository(resolveDataPath('receipts.json'));
+    case 'memory':
+      return new InMemoryReceiptRepository();
+    default:
+      throw new Error(`Unknown RECEIPT_STORE '${env.RECEIPT_STORE}'`);
+  }
+}
+
+export const receiptRepository: FactoryProvider<ReceiptRepository> = {
+  provide: ReceiptRepository,
+  useFactory: () => createReceiptRepository(),
+};
@@ -0,0 +1,37 @@
+import { ReceiptResponse } from '../dto/receipt-response.dto';
+import {
+  ListReceiptsQueryDto,
+  ReceiptPage,
+} from '../dto/list-receipts-query.dto';
+
+/**
+ * Storage contract for extracted receipts. Implementations must return copies
+ * so callers cannot mutate stored state by accident.
+ */
+export abstract class ReceiptRepository {
+  abstract save(receipt: ReceiptResponse): Promise<ReceiptResponse>;
+  abstract findById(id: string): Promise<ReceiptResponse | undefined>;
+  // Receipts of every tenant unless one is given
+  abstract findAll(tenantId?: string): Promise<ReceiptResponse[]>;
+  abstract findByContentHash(
+    tenantId: string,
+    contentHash: string,
+  ): Promise<ReceiptResponse | undefined>;
+  abstract list(
+    tenantId: string,
+    query: ListReceiptsQueryDto,
+  ): Promise<ReceiptPage<ReceiptResponse>>;
+  // Resolves to false when no receipt had the given ID
+  abstract delete(id: string): Promise<boolean>;
+
+  // Uploaded images that exist on disk without a stored receipt
+  abstract flagForReextraction(fileNames: string[]): Promise<void>;
+  abstract findPendingReextraction(): Promise<string[]>;
+}
+
+// Storage key of the receipt's file
+export function fileNameOf(receipt: ReceiptResponse): string {
+  return (
+    receipt.image_key ?? decodeURIComponent(receipt.image_url.split('/').pop())
+  );
+}
@@ -0,0 +1,18 @@
+import { FactoryProvider } from '@nestjs/common';
+import { JsonFileStore } from '../../common/persistence/json-file-store';
+import { resolveDataPath } from '../../common/persistence/data-dir';
+import { ReceiptAuditLog, ReceiptAuditLogState } from './receipt-audit-log';
+
+export function createReceiptAuditLog(): ReceiptAuditLog {
+  return new ReceiptAuditLog(
+    new JsonFileStore<ReceiptAuditLogState>(
+      resolveDataPath('audit-log.json'),
+      () => ({ entries: [] }),
+    ),
+  );
+}
+
+export const receiptAuditLog: FactoryProvider<ReceiptAuditLog> = {
+  provide: ReceiptAuditLog,
+  useFactory: () => createReceiptAuditLog(),
+};
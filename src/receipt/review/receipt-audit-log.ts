@@ -0,0 +1,38 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonFileStore } from '../../common/persistence/json-file-store';
+import { AuditEntry } from '../interfaces/receipt-review.interface';
+
+export interface ReceiptAuditLogState {
+  entries: AuditEntry[];
+}
+
+/**
+ * Append-only record of field changes made to receipts after extraction.
+ * Entries outlive the receipt they describe.
+ */
+export class ReceiptAuditLog {
+  constructor(private readonly store: JsonFileStore<ReceiptAuditLogState>) {}
+
+  async record(entries: Omit<AuditEntry, 'id'>[]): Promise<AuditEntry[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+    return this.store.update((state) => {
+      const recorded = entries.map((entry) => ({ id: uuidv4(), ...entry }));
+      state.entries.push(...recorded);
+      return structuredClone(recorded);
+    });
+  }
+
+  // Oldest first, in the order the changes were made
+  async list(tenantId: string, receiptId?: string): Promise<AuditEntry[]> {
+    const { entries } = await this.store.read();
+    return structuredClone(
+      entries.filter(
+        (entry) =>
+          entry.tenant_id === tenantId &&
+          (!receiptId || entry.receipt_id === receiptId),
+      ),
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { ReceiptValidation } from '../interfaces/receipt-validation.interface';
+import {
+  ReceiptReview,
+  ReviewReason,
+  ReviewReasonCode,
+} from '../interfaces/receipt-review.interface';
+
+// Warnings meaning the extracted amounts do not add up
+const ARITHMETIC_WARNINGS = new Set<ReviewReasonCode>([
+  'items_sum_mismatch',
+  'subtotal_mismatch',
+  'tax_breakdown_mismatch',
+]);
+
+/**
+ * Decides whether an extraction needs a human before it can be trusted: the
+ * model never produced a valid receipt (`schemaErrors` from the pipeline) or
+ * its amounts do not add up. Returns undefined for receipts that pass.
+ */
+export function reviewFor(
+  schemaErrors: string[] | undefined,
+  validation: ReceiptValidation,
+): ReceiptReview | undefined {
+  const reasons: ReviewReason[] = [
+    ...(schemaErrors ?? []).map((error) => ({
+      code: 'missing_field' as const,
+      // "receipt_items[2].item_cost must be a number" -> "receipt_items"
+      field: error.match(/^[a-z_]+/)?.[0],
+      message: error,
+    })),
+    ...validation.warnings
+      .filter((warning) => ARITHMETIC_WARNINGS.has(warning.code))
+      .map(({ code, field, message }) => ({ code, field, message })),
+  ];
+  return reasons.length > 0 ? { status: 'pending_review', reasons } : undefined;
+}
+
+// Fields the model failed to extract, so matching on them is meaningless
+export function hasMissingFields(review: ReceiptReview | undefined): boolean {
+  return !!review?.reasons.some((reason) => reason.code === 'missing_field');
+}
@@ -0,0 +1,61 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ReceiptService } from '../receipt.service';
+import { ReceiptResponse } from '../dto/receipt-response.dto';
+import {
+  ListReceiptsQueryDto,
+  ReceiptPage,
+} from '../dto/list-receipts-query.dto';
+import { ReviewDecisionDto } from '../dto/review-decision.dto';
+import { AuditEntry } from '../interfaces/receipt-review.interface';
+import {
+  CurrentPrincipal,
+  CurrentTenant,
+} from '../../auth/decorators/auth.decorators';
+import { Principal } from '../../auth/interfaces/auth.interface';
+
+@Controller()
+export class ReviewController {
+  constructor(private readonly receiptService: ReceiptService) {}
+
+  // Receipts waiting for a reviewer, oldest first
+  @Get('reviews')
+  listQueue(
+    @CurrentTenant() tenantId: string,
+    @Query() query: ListReceiptsQueryDto,
+  ): Promise<ReceiptPage<ReceiptResponse>> {
+    return this.receiptService.listReceipts(tenantId, {
+      ...query,
+      sort_by: query.sort_by ?? 'created_at',
+      order: query.order ?? 'asc',
+      review_status: query.review_status ?? 'pending_review',
+    });
+  }
+
+  @Post('reviews/:id')
+  @HttpCode(HttpStatus.OK)
+  review(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Body() decision: ReviewDecisionDto,
+    @CurrentPrincipal() actor: Principal,
+  ): Promise<ReceiptResponse> {
+    return this.receiptService.reviewReceipt(tenantId, id, decision, actor);
+  }
+
+  @Get('receipts/:id/audit-log')
+  getAuditLog(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<AuditEntry[]> {
+    return this.receiptService.getAuditLog(tenantId, id);
+  }
+}
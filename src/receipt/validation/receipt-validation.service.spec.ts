@@ -0,0 +1,115 @@
+import {
+  ReceiptValidationService,
+  ValidatableReceipt,
+} from './receipt-validation.service';
+
+describe('ReceiptValidationService', () => {
+  const service = new ReceiptValidationService();
+  const now = new Date('2024-06-01T12:00:00Z');
+
+  const validReceipt = {
+    date: '2024-01-15',
+    currency: 'USD',
+    receipt_items: [
+      { item_name: 'Coffee', item_cost: 4.5 },
+      { item_name: 'Sandwich', item_cost: 8.99 },
+    ],
+    tax: 1.35,
+    total: 14.84,
+  };
+
+  const codes = (receipt: ValidatableReceipt) =>
+    service.validate(receipt, now).warnings.map((w) => w.code);
+
+  it('should return full confidence for a consistent receipt', () => {
+    expect(service.validate(validReceipt, now)).toEqual({
+      warnings: [],
+      confidence: 1,
+    });
+  });
+
+  it('should accept tax-inclusive totals', () => {
+    expect(codes({ ...validReceipt, total: 13.49 })).toEqual([]);
+  });
+
+  it('should flag items that do not add up to the total', () => {
+    const result = service.validate({ ...validReceipt, total: 5 }, now);
+
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ code: 'items_sum_mismatch', field: 'total' }),
+    ]);
+    expect(result.confidence).toBe(0.7);
+  });
+
+  it('should flag dates that do not exist or are in the future', () => {
+    expect(codes({ ...validReceipt, date: '2024-02-30' })).toEqual([
+      'invalid_date',
+    ]);
+    expect(codes({ ...validReceipt, date: '15/01/2024' })).toEqual([
+      'invalid_date',
+    ]);
+    expect(codes({ ...validReceipt, date: '2024-06-02' })).toEqual([
+      'future_date',
+    ]);
+  });
+
+  it('should flag currencies outside ISO 4217', () => {
+    expect(codes({ ...validReceipt, currency: 'XYZ' })).toEqual([
+      'unknown_currency',
+    ]);
+    expect(codes({ ...validReceipt, currency: 'cad' })).toEqual([]);
+  });
+
+  it('should flag negative amounts but allow coupon lines', () => {
+    const receipt = {
+      ...validReceipt,
+      receipt_items: [
+        ...validReceipt.receipt_items,
+        { item_name: 'COUPON 23100', item_cost: -1 },
+        { item_name: 'Mystery', item_cost: -2 },
+      ],
+      total: 11.84,
+    };
+
+    expect(service.validate(receipt, now).warnings).toEqual([
+      expect.objectContaining({
+        code: 'negative_amount',
+        field: 'receipt_items[3].item_cost',
+      }),
+    ]);
+  });
+
+  it('should never drop confidence below zero', () => {
+    const result = service.validate(
+      {
+        date: '2999-01-01',
+        currency: 'XYZ',
+        receipt_items: [{ item_name: 'Thing', item_cost: -50 }],
+        tax: -1,
+        total: -5,
+      },
+      now,
+    );
+
+    expect(result.confidence).toBe(0);
+  });
+
+  it('should include tips and service charges in the total check', () => {
+    expect(
+      codes({ ...validReceipt, tip: 2, service_charge: 1, total: 17.84 }),
+    ).toEqual([]);
+  });
+
+  it('should flag subtotals and tax lines that do not add up', () => {
+    expect(
+      codes({
+        ...validReceipt,
+        subtotal: 20,
+        tax_breakdown: [
+          { label: 'GST', rate: 5, amount: 0.67 },
+          { label: 'PST', rate: 7, amount: 0.9 },
+        ],
+      }),
+    ).toEqual(['subtotal_mismatch', 'tax_breakdown_mismatch']);
+  });
+});
@@ -0,0 +1,203 @@
+import { Injectable } from '@nestjs/common';
+import { ReceiptResponse } from '../dto/receipt-response.dto';
+import {
+  ReceiptValidation,
+  ValidationWarning,
+  ValidationWarningCode,
+} from '../interfaces/receipt-validation.interface';
+import { ISO_4217_CURRENCY_CODES } from '../../currency/iso-4217';
+
+export type ValidatableReceipt = Pick<
+  ReceiptResponse,
+  'date' | 'currency' | 'receipt_items' | 'tax' | 'total'
+> &
+  Partial<
+    Pick<
+      ReceiptResponse,
+      'subtotal' | 'tip' | 'service_charge' | 'tax_breakdown'
+    >
+  >;
+
+// How much each warning lowers the confidence score
+const WARNING_PENALTIES: Record<ValidationWarningCode, number> = {
+  items_sum_mismatch: 0.3,
+  subtotal_mismatch: 0.15,
+  tax_breakdown_mismatch: 0.15,
+  invalid_date: 0.3,
+  future_date: 0.2,
+  unknown_currency: 0.2,
+  negative_amount: 0.15,
+};
+
+// Line items that are legitimately negative (coupons, refunds, ...)
+const CREDIT_LINE_PATTERN =
+  /coupon|discount|promo|saving|refund|rebate|credit/i;
+
+/**
+ * Semantic checks on data that already passed structural validation. Nothing
+ * here rejects a receipt; problems are reported as warnings so they can be
+ * reviewed instead of being stored silently.
+ */
+@Injectable()
+export class ReceiptValidationService {
+  validate(receipt: ValidatableReceipt, now = new Date()): ReceiptValidation {
+    const warnings = [
+      ...this.checkDate(receipt.date, now),
+      ...this.checkCurrency(receipt.currency),
+      ...this.checkNegativeAmounts(receipt),
+      ...this.checkItemsSum(receipt),
+      ...this.checkSubtotal(receipt),
+      ...this.checkTaxBreakdown(receipt),
+    ];
+
+    const penalty = warnings.reduce(
+      (sum, warning) => sum + WARNING_PENALTIES[warning.code],
+      0,
+    );
+    const confidence = Math.max(0, Math.round((1 - penalty) * 100) / 100);
+
+    return { warnings, confidence };
+  }
+
+  private checkDate(date: string, now: Date): ValidationWarning[] {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+    const parsed =
+      match && new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+
+    // Date.UTC rolls invalid days over (2024-02-30 -> March 1), so compare back
+    if (!parsed || parsed.toISOString().slice(0, 10) !== date) {
+      return [
+        {
+          code: 'invalid_date',
+          field: 'date',
+          message: `'${date}' is not a real YYYY-MM-DD date`,
+        },
+      ];
+    }
+
+    if (date > now.toISOString().slice(0, 10)) {
+      return [
+        {
+          code: 'future_date',
+          field: 'date',
+          message: `Receipt date ${date} is in the future`,
+        },
+      ];
+    }
+
+    return [];
+  }
+
+  private checkCurrency(currency: string): ValidationWarning[] {
+    if (ISO_4217_CURRENCY_CODES.has(currency.toUpperCase())) {
+      return [];
+    }
+    return [
+      {
+        code: 'unknown_currency',
+        field: 'currency',
+        message: `'${currency}' is not an ISO 4217 currency code`,
+      },
+    ];
+  }
+
+  private checkNegativeAmounts(
+    receipt: ValidatableReceipt,
+  ): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
+    const negative = (field: string, value: number) =>
+      warnings.push({
+        code: 'negative_amount',
+        field,
+        message: `${field} is negative (${value})`,
+      });
+
+    for (const field of ['total', 'tax', 'tip', 'service_charge'] as const) {
+      if (receipt[field] < 0) negative(field, receipt[field]);
+    }
+    receipt.receipt_items.forEach((item, index) => {
+      if (item.item_cost < 0 && !CREDIT_LINE_PATTERN.test(item.item_name)) {
+        negative(`receipt_items[${index}].item_cost`, item.item_cost);
+      }
+    });
+
+    return warnings;
+  }
+
+  private checkItemsSum(receipt: ValidatableReceipt): ValidationWarning[] {
+    if (receipt.receipt_items.length === 0) {
+      return [];
+    }
+
+    const itemsSum = receipt.receipt_items.reduce(
+      (sum, item) => sum + item.item_cost,
+      0,
+    );
+    // Allow for rounding on per-line tax and for tax-inclusive pricing
+    const tolerance = this.tolerance(receipt.total);
+    const extras = (receipt.tip ?? 0) + (receipt.service_charge ?? 0);
+    const candidates = [itemsSum + receipt.tax + extras, itemsSum + extras];
+    if (candidates.some((sum) => Math.abs(sum - receipt.total) <= tolerance)) {
+      return [];
+    }
+
+    return [
+      {
+        code: 'items_sum_mismatch',
+        field: 'total',
+        message:
+          `Items (${itemsSum.toFixed(2)}) plus tax (${receipt.tax.toFixed(2)})` +
+          (extras ? `, tip and service charge (${extras.toFixed(2)})` : '') +
+          ` do not add up to total (${receipt.total.toFixed(2)})`,
+      },
+    ];
+  }
+
+  private checkSubtotal(receipt: ValidatableReceipt): ValidationWarning[] {
+    if (receipt.subtotal === undefined || receipt.receipt_items.length === 0) {
+      return [];
+    }
+
+    const itemsSum = receipt.receipt_items.reduce(
+      (sum, item) => sum + item.item_cost,
+      0,
+    );
+    if (
+      Math.abs(itemsSum - receipt.subtotal) <= this.tolerance(receipt.subtotal)
+    ) {
+      return [];
+    }
+    return [
+      {
+        code: 'subtotal_mismatch',
+        field: 'subtotal',
+        message: `Items (${itemsSum.toFixed(2)}) do not add up to subtotal (${receipt.subtotal.toFixed(2)})`,
+      },
+    ];
+  }
+
+  private checkTaxBreakdown(receipt: ValidatableReceipt): ValidationWarning[] {
+    if (!receipt.tax_breakdown?.length) {
+      return [];
+    }
+
+    const breakdownSum = receipt.tax_breakdown.reduce(
+      (sum, line) => sum + line.amount,
+      0,
+    );
+    if (Math.abs(breakdownSum - receipt.tax) <= 0.02) {
+      return [];
+    }
+    return [
+      {
+        code: 'tax_breakdown_mismatch',
+        field: 'tax_breakdown',
+        message: `Tax lines (${breakdownSum.toFixed(2)}) do not add up to tax (${receipt.tax.toFixed(2)})`,
+      },
+    ];
+  }
+
+  private tolerance(amount: number): number {
+    return Math.max(0.05, Math.abs(amount) * 0.01);
+  }
+}
@@ -0,0 +1,21 @@
+import { ArrayNotEmpty, IsArray, IsNotEmpty, IsString } from 'class-validator';
+
+export class RenameVendorDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+}
+
+export class VendorAliasDto {
+  @IsString()
+  @IsNotEmpty()
+  alias: string;
+}
+
+export class MergeVendorsDto {
+  // Vendors folded into the one in the URL; they are deleted afterwards
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  vendor_ids: string[];
+}
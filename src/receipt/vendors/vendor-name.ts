@@ -0,0 +1,107 @@
+// Tokens that never distinguish one vendor from another
+const LEGAL_SUFFIXES = new Set([
+  'inc',
+  'llc',
+  'ltd',
+  'limited',
+  'corp',
+  'corporation',
+  'co',
+  'company',
+  'plc',
+  'gmbh',
+  'pty',
+]);
+
+// Words that name a kind of business rather than a business; on their own
+// they are too vague to merge into a longer vendor name
+const GENERIC_WORDS = new Set([
+  'bakery',
+  'bar',
+  'cafe',
+  'coffee',
+  'deli',
+  'diner',
+  'gas',
+  'grill',
+  'grocery',
+  'hotel',
+  'market',
+  'pharmacy',
+  'pizza',
+  'pub',
+  'restaurant',
+  'shop',
+  'store',
+  'supermarket',
+  'taxi',
+]);
+
+/**
+ * Reduces a printed vendor name to a comparison key: lowercase, no accents,
+ * punctuation, store numbers or legal suffixes. "STARBUCKS #1234" and
+ * "Starbucks" both become "starbucks".
+ */
+export function normalizeVendorName(name: string): string {
+  const tokens = (name ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/(#|\bno\.?|\bstore|\bunit)\s*\d+/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .split(' ')
+    .filter((token) => token && !/^\d+$/.test(token))
+    .filter((token) => !LEGAL_SUFFIXES.has(token));
+
+  return tokens.length > 0
+    ? tokens.join(' ')
+    : (name ?? '').trim().toLowerCase();
+}
+
+/**
+ * Similarity of two normalized names from 0 to 1. A name whose words all
+ * appear in the other ("starbucks" in "starbucks coffee") scores 0.9, unless
+ * it is a single generic word ("pizza" in "pizza hut"), which scores between
+ * 0.6 and 0.9 by how much of the other it covers. Otherwise the score is the
+ * Levenshtein ratio, which absorbs OCR typos.
+ */
+export function vendorSimilarity(a: string, b: string): number {
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return 1;
+  }
+
+  const ratio = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const shorterTokens = shorter.split(' ');
+  const longerTokens = new Set(longer.split(' '));
+  if (
+    shorter.length >= 4 &&
+    shorterTokens.every((token) => longerTokens.has(token))
+  ) {
+    if (shorterTokens.length === 1 && GENERIC_WORDS.has(shorter)) {
+      return Math.max(ratio, 0.6 + 0.3 * (shorter.length / longer.length));
+    }
+    return 0.9;
+  }
+  return ratio;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,29 @@
+import { FactoryProvider } from '@nestjs/common';
+import { JsonFileStore } from '../../common/persistence/json-file-store';
+import { resolveDataPath } from '../../common/persistence/data-dir';
+import {
+  VENDOR_REGISTRY_MIGRATIONS,
+  VendorRegistry,
+  VendorRegistryState,
+} from './vendor-registry.service';
+import { numberFromEnv } from '../../common/env-number';
+
+export function createVendorRegistry(
+  env: NodeJS.ProcessEnv = process.env,
+): VendorRegistry {
+  return new VendorRegistry(
+    new JsonFileStore<VendorRegistryState>(
+      resolveDataPath('vendors.json'),
+      () => ({
+        vendors: [],
+      }),
+      VENDOR_REGISTRY_MIGRATIONS,
+    ),
+    numberFromEnv(env.VENDOR_MATCH_THRESHOLD, 0.85),
+  );
+}
+
+export const vendorRegistry: FactoryProvider<VendorRegistry> = {
+  provide: VendorRegistry,
+  useFactory: () => createVendorRegistry(),
+};
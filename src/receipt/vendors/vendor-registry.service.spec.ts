@@ -0,0 +1,172 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStore } from '../../common/persistence/json-file-store';
+import { DEFAULT_TENANT_ID } from '../../auth/tenant';
+import {
+  VENDOR_REGISTRY_MIGRATIONS,
+  VendorRegistry,
+  VendorRegistryState,
+} from './vendor-registry.service';
+import { normalizeVendorName, vendorSimilarity } from './vendor-name';
+
+const TENANT = 'acme';
+
+describe('vendor names', () => {
+  it('normalizes case, store numbers, punctuation and legal suffixes', () => {
+    expect(normalizeVendorName('STARBUCKS #1234')).toBe('starbucks');
+    expect(normalizeVendorName('Starbucks Store 88')).toBe('starbucks');
+    expect(normalizeVendorName('Café Rouge, Inc.')).toBe('cafe rouge');
+    expect(normalizeVendorName('Stop & Shop')).toBe('stop and shop');
+  });
+
+  it('scores contained names and near misses above unrelated ones', () => {
+    expect(vendorSimilarity('starbucks', 'starbucks coffee')).toBe(0.9);
+    expect(vendorSimilarity('whole foods', 'whole foods market')).toBe(0.9);
+    expect(vendorSimilarity('tim hortons', 'tim hortons cafe')).toBe(0.9);
+    expect(vendorSimilarity('starbucks', 'starbcuks')).toBeGreaterThan(0.7);
+    expect(vendorSimilarity('starbucks', 'safeway')).toBeLessThan(0.5);
+  });
+
+  it('keeps single generic words below the match threshold', () => {
+    expect(vendorSimilarity('coffee', 'starbucks coffee')).toBeLessThan(0.85);
+    expect(vendorSimilarity('pizza', 'pizza hut')).toBeLessThan(0.85);
+  });
+});
+
+describe('VendorRegistry', () => {
+  let dataDir: string;
+  let registry: VendorRegistry;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vendors-'));
+    registry = new VendorRegistry(
+      new JsonFileStore<VendorRegistryState>(
+        path.join(dataDir, 'vendors.json'),
+        () => ({ vendors: [] }),
+      ),
+      0.85,
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('resolves spellings of one vendor to the same record', async () => {
+    const first = await registry.resolve(TENANT, 'STARBUCKS #1234');
+    const second = await registry.resolve(TENANT, 'Starbucks Coffee');
+    const third = await registry.resolve(TENANT, 'starbucks');
+    const other = await registry.resolve(TENANT, 'Safeway');
+
+    expect(second.id).toBe(first.id);
+    expect(third.id).toBe(first.id);
+    expect(other.id).not.toBe(first.id);
+    expect(await registry.get(TENANT, first.id)).toMatchObject({
+      name: 'STARBUCKS #1234',
+      aliases: ['Starbucks Coffee', 'starbucks'],
+    });
+  });
+
+  it('does not merge a generic word into a longer vendor name', async () => {
+    const pizzaHut = await registry.resolve(TENANT, 'Pizza Hut');
+    const pizza = await registry.resolve(TENANT, 'PIZZA');
+
+    expect(pizza.id).not.toBe(pizzaHut.id);
+    expect((await registry.get(TENANT, pizzaHut.id)).aliases).toEqual([]);
+  });
+
+  it('renames vendors and keeps the old name as an alias', async () => {
+    const vendor = await registry.resolve(TENANT, 'STARBUCKS #1234');
+
+    const renamed = await registry.rename(TENANT, vendor.id, 'Starbucks');
+
+    expect(renamed.name).toBe('Starbucks');
+    expect(renamed.aliases).toEqual(['STARBUCKS #1234']);
+  });
+
+  it('manages aliases without stealing them from other vendors', async () => {
+    const vendor = await registry.resolve(TENANT, 'Whole Foods Market');
+    const other = await registry.resolve(TENANT, 'Safeway');
+
+    const updated = await registry.addAlias(TENANT, vendor.id, 'WFM');
+    expect(updated.aliases).toContain('WFM');
+    expect((await registry.resolve(TENANT, 'wfm')).id).toBe(vendor.id);
+
+    await expect(
+      registry.addAlias(TENANT, vendor.id, 'SAFEWAY'),
+    ).rejects.toThrow(BadRequestException);
+    await expect(registry.removeAlias(TENANT, other.id, 'WFM')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(
+      (await registry.removeAlias(TENANT, vendor.id, 'wfm')).aliases,
+    ).toEqual([]);
+  });
+
+  it('merges vendors into the target', async () => {
+    const target = await registry.resolve(TENANT, 'Tim Hortons');
+    const source = await registry.resolve(TENANT, 'TH Cafe');
+
+    const merged = await registry.merge(TENANT, target.id, [source.id]);
+
+    expect(merged.aliases).toEqual(['TH Cafe']);
+    expect(await registry.list(TENANT)).toHaveLength(1);
+    expect((await registry.resolve(TENANT, 'th cafe')).id).toBe(target.id);
+    await expect(
+      registry.merge(TENANT, target.id, ['missing']),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it("keeps each tenant's vendors apart", async () => {
+    const own = await registry.resolve(TENANT, 'Tim Hortons');
+    const other = await registry.resolve('globex', 'Tim Hortons');
+
+    expect(other.id).not.toBe(own.id);
+    expect(other.tenant_id).toBe('globex');
+    expect(await registry.list(TENANT)).toEqual([own]);
+    await expect(registry.get('globex', own.id)).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(registry.rename('globex', own.id, 'Renamed')).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(registry.merge(TENANT, own.id, [other.id])).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('assigns vendors from before tenants to the default tenant', async () => {
+    const file = path.join(dataDir, 'legacy.json');
+    await fs.writeFile(
+      file,
+      JSON.stringify({
+        schema_version: 0,
+        data: {
+          vendors: [
+            {
+              id: 'v1',
+              name: 'Safeway',
+              aliases: [],
+              created_at: '2024-01-01T00:00:00.000Z',
+              updated_at: '2024-01-01T00:00:00.000Z',
+            },
+          ],
+        },
+      }),
+    );
+    const legacy = new VendorRegistry(
+      new JsonFileStore<VendorRegistryState>(
+        file,
+        () => ({ vendors: [] }),
+        VENDOR_REGISTRY_MIGRATIONS,
+      ),
+      0.85,
+    );
+
+    expect(await legacy.get(DEFAULT_TENANT_ID, 'v1')).toMatchObject({
+      tenant_id: DEFAULT_TENANT_ID,
+    });
+  });
+});
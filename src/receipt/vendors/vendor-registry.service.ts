@@ -0,0 +1,208 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  JsonFileStore,
+  JsonStoreMigration,
+} from '../../common/persistence/json-file-store';
+import { DEFAULT_TENANT_ID } from '../../auth/tenant';
+import { Vendor } from '../interfaces/vendor.interface';
+import { normalizeVendorName, vendorSimilarity } from './vendor-name';
+
+export interface VendorRegistryState {
+  vendors: Vendor[];
+}
+
+export const VENDOR_REGISTRY_MIGRATIONS: JsonStoreMigration[] = [
+  {
+    version: 1,
+    description: 'Assign vendors from before tenants to the default tenant',
+    up: (data: VendorRegistryState) => {
+      for (const vendor of data.vendors) {
+        vendor.tenant_id ??= DEFAULT_TENANT_ID;
+      }
+      return data;
+    },
+  },
+];
+
+/**
+ * Each tenant's canonical vendors that extracted names are resolved
+ * against. Names are compared after normalization, first exactly and then
+ * fuzzily; a name that matches nothing registers a new vendor. Other
+ * tenants' vendors are never matched and look like they do not exist.
+ */
+export class VendorRegistry {
+  constructor(
+    private readonly store: JsonFileStore<VendorRegistryState>,
+    private readonly matchThreshold: number,
+  ) {}
+
+  async list(tenantId: string): Promise<Vendor[]> {
+    const { vendors } = await this.store.read();
+    return structuredClone(
+      vendors.filter((vendor) => vendor.tenant_id === tenantId),
+    ).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(tenantId: string, id: string): Promise<Vendor> {
+    const vendor = (await this.store.read()).vendors.find(
+      (v) => v.id === id && v.tenant_id === tenantId,
+    );
+    if (!vendor) {
+      throw new NotFoundException(`Vendor with ID '${id}' not found`);
+    }
+    return structuredClone(vendor);
+  }
+
+  // Returns the matching vendor, remembering new spellings as aliases
+  async resolve(tenantId: string, vendorName: string): Promise<Vendor> {
+    const name = vendorName.trim();
+    const key = normalizeVendorName(name);
+
+    return this.store.update((state) => {
+      let best: { vendor: Vendor; score: number } | undefined;
+      for (const vendor of state.vendors) {
+        if (vendor.tenant_id !== tenantId) {
+          continue;
+        }
+        for (const known of [vendor.name, ...vendor.aliases]) {
+          const score = vendorSimilarity(key, normalizeVendorName(known));
+          if (!best || score > best.score) {
+            best = { vendor, score };
+          }
+        }
+      }
+
+      const now = new Date().toISOString();
+      if (best && best.score >= this.matchThreshold) {
+        const { vendor } = best;
+        if (!this.hasName(vendor, name)) {
+          vendor.aliases.push(name);
+          vendor.updated_at = now;
+        }
+        return structuredClone(vendor);
+      }
+
+      const created: Vendor = {
+        id: uuidv4(),
+        tenant_id: tenantId,
+        name,
+        aliases: [],
+        created_at: now,
+        updated_at: now,
+      };
+      state.vendors.push(created);
+      return structuredClone(created);
+    });
+  }
+
+  async rename(tenantId: string, id: string, name: string): Promise<Vendor> {
+    return this.mutate(tenantId, id, (vendor) => {
+      // Keep the old name resolvable
+      if (!this.hasName(vendor, name)) {
+        vendor.aliases.push(vendor.name);
+      }
+      vendor.aliases = vendor.aliases.filter(
+        (alias) => alias.toLowerCase() !== name.trim().toLowerCase(),
+      );
+      vendor.name = name.trim();
+    });
+  }
+
+  async addAlias(tenantId: string, id: string, alias: string): Promise<Vendor> {
+    await this.get(tenantId, id);
+    const key = normalizeVendorName(alias);
+    const { vendors } = await this.store.read();
+    const owner = vendors.find(
+      (vendor) =>
+        vendor.tenant_id === tenantId &&
+        vendor.id !== id &&
+        [vendor.name, ...vendor.aliases].some(
+          (known) => normalizeVendorName(known) === key,
+        ),
+    );
+    if (owner) {
+      throw new BadRequestException(
+        `Alias '${alias}' already belongs to vendor '${owner.name}' (${owner.id}); merge the vendors instead`,
+      );
+    }
+
+    return this.mutate(tenantId, id, (vendor) => {
+      if (!this.hasName(vendor, alias)) {
+        vendor.aliases.push(alias.trim());
+      }
+    });
+  }
+
+  async removeAlias(
+    tenantId: string,
+    id: string,
+    alias: string,
+  ): Promise<Vendor> {
+    return this.mutate(tenantId, id, (vendor) => {
+      const remaining = vendor.aliases.filter(
+        (known) => known.toLowerCase() !== alias.trim().toLowerCase(),
+      );
+      if (remaining.length === vendor.aliases.length) {
+        throw new NotFoundException(
+          `Vendor '${vendor.name}' has no alias '${alias}'`,
+        );
+      }
+      vendor.aliases = remaining;
+    });
+  }
+
+  // Folds the source vendors into the target, which keeps their names as aliases
+  async merge(
+    tenantId: string,
+    targetId: string,
+    sourceIds: string[],
+  ): Promise<Vendor> {
+    const sources = sourceIds.filter((id) => id !== targetId);
+    if (sources.length === 0) {
+      throw new BadRequestException(
+        'vendor_ids must name at least one other vendor',
+      );
+    }
+    for (const id of [targetId, ...sources]) {
+      await this.get(tenantId, id);
+    }
+
+    return this.store.update((state) => {
+      const target = state.vendors.find((v) => v.id === targetId);
+      for (const source of state.vendors.filter((v) =>
+        sources.includes(v.id),
+      )) {
+        for (const name of [source.name, ...source.aliases]) {
+          if (!this.hasName(target, name)) {
+            target.aliases.push(name);
+          }
+        }
+      }
+      state.vendors = state.vendors.filter((v) => !sources.includes(v.id));
+      target.updated_at = new Date().toISOString();
+      return structuredClone(target);
+    });
+  }
+
+  private async mutate(
+    tenantId: string,
+    id: string,
+    change: (vendor: Vendor) => void,
+  ): Promise<Vendor> {
+    await this.get(tenantId, id);
+    return this.store.update((state) => {
+      const vendor = state.vendors.find((v) => v.id === id);
+      change(vendor);
+      vendor.updated_at = new Date().toISOString();
+      return structuredClone(vendor);
+    });
+  }
+
+  private hasName(vendor: Vendor, name: string): boolean {
+    const wanted = name.trim().toLowerCase();
+    return [vendor.name, ...vendor.aliases].some(
+      (known) => known.toLowerCase() === wanted,
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { CurrentTenant } from '../../auth/decorators/auth.decorators';
+import { ReceiptService } from '../receipt.service';
+import { Vendor } from '../interfaces/vendor.interface';
+import { VendorRegistry } from './vendor-registry.service';
+import {
+  MergeVendorsDto,
+  RenameVendorDto,
+  VendorAliasDto,
+} from './dto/vendor.dto';
+
+@Controller('vendors')
+export class VendorController {
+  constructor(
+    private readonly vendorRegistry: VendorRegistry,
+    private readonly receiptService: ReceiptService,
+  ) {}
+
+  @Get()
+  listVendors(@CurrentTenant() tenantId: string): Promise<Vendor[]> {
+    return this.vendorRegistry.list(tenantId);
+  }
+
+  @Get(':id')
+  getVendor(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<Vendor> {
+    return this.vendorRegistry.get(tenantId, id);
+  }
+
+  @Patch(':id')
+  renameVendor(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Body() body: RenameVendorDto,
+  ): Promise<Vendor> {
+    return this.vendorRegistry.rename(tenantId, id, body.name);
+  }
+
+  @Post(':id/aliases')
+  @HttpCode(HttpStatus.OK)
+  addAlias(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Body() body: VendorAliasDto,
+  ): Promise<Vendor> {
+    return this.vendorRegistry.addAlias(tenantId, id, body.alias);
+  }
+
+  @Delete(':id/aliases/:alias')
+  removeAlias(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Param('alias') alias: string,
+  ): Promise<Vendor> {
+    return this.vendorRegistry.removeAlias(tenantId, id, alias);
+  }
+
+  // Receipts of the merged vendors are re-linked to this one
+  @Post(':id/merge')
+  @HttpCode(HttpStatus.OK)
+  mergeVendors(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Body() body: MergeVendorsDto,
+  ): Promise<Vendor> {
+    return this.receiptService.mergeVendors(tenantId, id, body.vendor_ids);
+  }
+}
@@ -0,0 +1,40 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsOptional, Length } from 'class-validator';
+import {
+  MatchStatus,
+  StatementDateFormat,
+} from '../interfaces/reconciliation.interface';
+
+export const STATEMENT_DATE_FORMATS: StatementDateFormat[] = [
+  'MM/DD/YYYY',
+  'DD/MM/YYYY',
+];
+export const MATCH_STATUSES: MatchStatus[] = [
+  'suggested',
+  'confirmed',
+  'rejected',
+];
+
+export class ImportStatementQueryDto {
+  // Required for CSV files without a currency column
+  @IsOptional()
+  @Length(3, 3)
+  @Transform(({ value }) => value?.toUpperCase())
+  currency?: string;
+
+  @IsOptional()
+  @IsIn(STATEMENT_DATE_FORMATS)
+  date_format?: StatementDateFormat;
+
+  // Set for card exports that list charges as positive amounts
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  debits_positive?: boolean;
+}
+
+export class ListMatchesQueryDto {
+  @IsOptional()
+  @IsIn(MATCH_STATUSES)
+  status?: MatchStatus;
+}
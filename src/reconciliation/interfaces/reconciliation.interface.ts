@@ -0,0 +1,84 @@
+export type StatementFormat = 'csv' | 'ofx';
+
+export type StatementDateFormat = 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export interface StatementParseOptions {
+  // Used when the file itself names no currency
+  currency?: string;
+  // How slash-separated dates are read; ISO dates are always accepted
+  date_format?: StatementDateFormat;
+  // Card statements often list charges as positive amounts
+  debits_positive?: boolean;
+}
+
+export interface ParsedTransaction {
+  date: string;
+  // Money spent is positive; refunds and other credits are negative
+  amount: number;
+  currency: string;
+  description: string;
+  // Bank-assigned id, e.g. the OFX FITID
+  reference?: string;
+}
+
+export interface BankTransaction extends ParsedTransaction {
+  id: string;
+  tenant_id: string;
+  statement_id: string;
+  imported_at: string;
+}
+
+export type MatchStatus = 'suggested' | 'confirmed' | 'rejected';
+
+export interface MatchScore {
+  // Weighted 0-1 score of the parts below
+  total: number;
+  amount: number;
+  date: number;
+  vendor: number;
+}
+
+export interface ReconciliationMatch {
+  id: string;
+  tenant_id: string;
+  transaction_id: string;
+  receipt_id: string;
+  status: MatchStatus;
+  score: MatchScore;
+  created_at: string;
+  decided_at?: string;
+}
+
+export interface ReceiptSummary {
+  id: string;
+  date: string;
+  vendor_name: string;
+  total: number;
+  currency: string;
+}
+
+export interface ReconciliationMatchView extends ReconciliationMatch {
+  transaction: BankTransaction;
+  // Missing when the receipt has since been deleted
+  receipt?: ReceiptSummary;
+}
+
+export interface MatchingOptions {
+  // Days a transaction may post after the receipt date
+  date_window_days: number;
+  // Relative difference allowed between transaction and receipt amounts
+  amount_tolerance: number;
+  min_score: number;
+}
+
+export interface StatementImportResult {
+  statement_id: string;
+  imported: number;
+  // Transactions already present from an earlier import
+  duplicates: number;
+  suggested_matches: number;
+}
+
+export interface AutoMatchResult {
+  suggested_matches: number;
+}
@@ -0,0 +1,95 @@
+import { scoreMatch } from './reconciliation-matcher';
+import { BankTransaction } from './interfaces/reconciliation.interface';
+import { ReceiptResponse } from '../receipt/dto/receipt-response.dto';
+
+const options = { date_window_days: 5, amount_tolerance: 0.02, min_score: 0.6 };
+
+const transaction = (overrides: Partial<BankTransaction> = {}) =>
+  ({
+    id: 't',
+    tenant_id: 'acme',
+    statement_id: 's',
+    imported_at: '2024-03-10T00:00:00.000Z',
+    date: '2024-03-03',
+    amount: 17.17,
+    currency: 'USD',
+    description: 'STOP & SHOP #0412',
+    ...overrides,
+  }) as BankTransaction;
+
+const receipt = (overrides: Partial<ReceiptResponse> = {}) =>
+  ({
+    id: 'r',
+    date: '2024-03-02',
+    currency: 'USD',
+    vendor_name: 'Stop & Shop',
+    receipt_items: [],
+    tax: 0,
+    total: 17.17,
+    image_url: '/files/r.jpg',
+    ...overrides,
+  }) as ReceiptResponse;
+
+describe('scoreMatch', () => {
+  it('scores an exact amount a day later from the same vendor highly', () => {
+    const score = scoreMatch(transaction(), receipt(), options);
+
+    expect(score.amount).toBe(1);
+    expect(score.date).toBe(0.833);
+    expect(score.vendor).toBeGreaterThan(0.8);
+    expect(score.total).toBeGreaterThan(0.9);
+  });
+
+  it('strips card processor prefixes from the description', () => {
+    const plain = scoreMatch(
+      transaction({ description: 'BLUE BOTTLE' }),
+      receipt({ vendor_name: 'Blue Bottle' }),
+      options,
+    );
+    const prefixed = scoreMatch(
+      transaction({ description: 'SQ *BLUE BOTTLE' }),
+      receipt({ vendor_name: 'Blue Bottle' }),
+      options,
+    );
+
+    expect(prefixed.vendor).toBe(plain.vendor);
+  });
+
+  it('gives near amounts within the tolerance a partial score', () => {
+    const score = scoreMatch(transaction({ amount: 17.3 }), receipt(), options);
+
+    expect(score.amount).toBeGreaterThan(0);
+    expect(score.amount).toBeLessThan(0.8);
+  });
+
+  it('rules out amounts, dates and currencies that cannot match', () => {
+    expect(scoreMatch(transaction({ amount: 18 }), receipt(), options)).toBe(
+      undefined,
+    );
+    expect(
+      scoreMatch(transaction({ date: '2024-03-09' }), receipt(), options),
+    ).toBeUndefined();
+    expect(
+      scoreMatch(transaction({ date: '2024-02-29' }), receipt(), options),
+    ).toBeUndefined();
+    expect(
+      scoreMatch(transaction({ currency: 'EUR' }), receipt(), options),
+    ).toBeUndefined();
+  });
+
+  it('matches foreign receipts on their base currency amount', () => {
+    const foreign = receipt({
+      currency: 'EUR',
+      total: 15.9,
+      base_amounts: {
+        currency: 'USD',
+        rate: 1.08,
+        rate_date: '2024-03-02',
+        tax: 0,
+        total: 17.17,
+      },
+    });
+
+    expect(scoreMatch(transaction(), foreign, options).amount).toBe(1);
+  });
+});
@@ -0,0 +1,79 @@
+import { ReceiptResponse } from '../receipt/dto/receipt-response.dto';
+import {
+  normalizeVendorName,
+  vendorSimilarity,
+} from '../receipt/vendors/vendor-name';
+import {
+  BankTransaction,
+  MatchingOptions,
+  MatchScore,
+} from './interfaces/reconciliation.interface';
+
+const WEIGHTS = { amount: 0.5, date: 0.2, vendor: 0.3 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Card processors prefix merchant names, e.g. "SQ *BLUE BOTTLE"
+const PROCESSOR_PREFIX = /^(sq|tst|sp|pp|paypal|zettle|sumup)\s*\*\s*/i;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Amount the transaction should show for this receipt, in its currency
+function receiptAmountIn(
+  receipt: ReceiptResponse,
+  currency: string,
+): number | undefined {
+  if (receipt.currency === currency) {
+    return receipt.total;
+  }
+  // Card statements show foreign purchases in the card's currency
+  if (receipt.base_amounts?.currency === currency) {
+    return receipt.base_amounts.total;
+  }
+  return undefined;
+}
+
+/**
+ * Scores how likely a bank transaction paid for a receipt. Returns undefined
+ * when the pair is ruled out: different currencies, an amount outside the
+ * tolerance, or a posting date outside the window (one day early is allowed
+ * for time zones).
+ */
+export function scoreMatch(
+  transaction: BankTransaction,
+  receipt: ReceiptResponse,
+  options: MatchingOptions,
+): MatchScore | undefined {
+  const expected = receiptAmountIn(receipt, transaction.currency);
+  if (expected === undefined) {
+    return undefined;
+  }
+  const difference = Math.abs(transaction.amount - expected);
+  const relative = difference / Math.max(Math.abs(expected), 0.01);
+  if (difference > 0.005 && relative > options.amount_tolerance) {
+    return undefined;
+  }
+
+  const days = Math.round(
+    (Date.parse(transaction.date) - Date.parse(receipt.date)) / DAY_MS,
+  );
+  if (days < -1 || days > options.date_window_days) {
+    return undefined;
+  }
+
+  // Exact amounts score 1; near misses at most 0.8
+  const amount =
+    difference <= 0.005 ? 1 : 0.8 * (1 - relative / options.amount_tolerance);
+  const date = 1 - Math.abs(days) / (options.date_window_days + 1);
+  const vendor = vendorSimilarity(
+    normalizeVendorName(receipt.vendor_name),
+    normalizeVendorName(transaction.description.replace(PROCESSOR_PREFIX, '')),
+  );
+  return {
+    total: round(
+      WEIGHTS.amount * amount + WEIGHTS.date * date + WEIGHTS.vendor * vendor,
+    ),
+    amount: round(amount),
+    date: round(date),
+    vendor: round(vendor),
+  };
+}
@@ -0,0 +1,37 @@
+import { FactoryProvider } from '@nestjs/common';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import { resolveDataPath } from '../common/persistence/data-dir';
+import { ReceiptRepository } from '../receipt/repositories/receipt.repository';
+import {
+  ReconciliationService,
+  ReconciliationState,
+} from './reconciliation.service';
+import { numberFromEnv } from '../common/env-number';
+
+export function createReconciliationService(
+  receiptRepository: ReceiptRepository,
+  env: NodeJS.ProcessEnv = process.env,
+): ReconciliationService {
+  return new ReconciliationService(
+    new JsonFileStore<ReconciliationState>(
+      resolveDataPath('reconciliation.json'),
+      () => ({ transactions: [], matches: [] }),
+    ),
+    receiptRepository,
+    {
+      date_window_days: numberFromEnv(env.RECONCILIATION_DATE_WINDOW_DAYS, 5),
+      amount_tolerance: numberFromEnv(
+        env.RECONCILIATION_AMOUNT_TOLERANCE,
+        0.02,
+      ),
+      min_score: numberFromEnv(env.RECONCILIATION_MIN_SCORE, 0.6),
+    },
+  );
+}
+
+export const reconciliationService: FactoryProvider<ReconciliationService> = {
+  provide: ReconciliationService,
+  useFactory: (receiptRepository: ReceiptRepository) =>
+    createReconciliationService(receiptRepository),
+  inject: [ReceiptRepository],
+};
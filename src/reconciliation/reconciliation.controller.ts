@@ -0,0 +1,123 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import * as path from 'path';
+import { ReconciliationService } from './reconciliation.service';
+import { parseStatement } from './statements/statement-parser';
+import {
+  ImportStatementQueryDto,
+  ListMatchesQueryDto,
+} from './dto/reconciliation-query.dto';
+import {
+  AutoMatchResult,
+  BankTransaction,
+  ReceiptSummary,
+  ReconciliationMatch,
+  ReconciliationMatchView,
+  StatementImportResult,
+} from './interfaces/reconciliation.interface';
+import { CurrentTenant } from '../auth/decorators/auth.decorators';
+import { AppException } from '../common/errors/app-exception';
+
+const STATEMENT_EXTENSIONS = {
+  '.csv': 'csv',
+  '.ofx': 'ofx',
+  '.qfx': 'ofx',
+} as const;
+
+@Controller('reconciliation')
+export class ReconciliationController {
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  // Imports a bank or card statement; the format follows the file extension
+  @Post('statements/import')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB limit
+      },
+    }),
+  )
+  async importStatement(
+    @CurrentTenant() tenantId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Query() query: ImportStatementQueryDto,
+  ): Promise<StatementImportResult> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const format =
+      STATEMENT_EXTENSIONS[path.extname(file.originalname).toLowerCase()];
+    if (!format) {
+      throw new AppException(
+        'UNSUPPORTED_MEDIA',
+        'Only .csv, .ofx and .qfx statement files are allowed',
+      );
+    }
+
+    const transactions = parseStatement(
+      file.buffer.toString('utf8'),
+      format,
+      query,
+    );
+    return this.reconciliationService.importStatement(tenantId, transactions);
+  }
+
+  @Post('auto-match')
+  @HttpCode(HttpStatus.OK)
+  async autoMatch(@CurrentTenant() tenantId: string): Promise<AutoMatchResult> {
+    return this.reconciliationService.autoMatch(tenantId);
+  }
+
+  @Get('matches')
+  async listMatches(
+    @CurrentTenant() tenantId: string,
+    @Query() query: ListMatchesQueryDto,
+  ): Promise<ReconciliationMatchView[]> {
+    return this.reconciliationService.listMatches(tenantId, query.status);
+  }
+
+  @Post('matches/:id/confirm')
+  @HttpCode(HttpStatus.OK)
+  async confirmMatch(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<ReconciliationMatch> {
+    return this.reconciliationService.confirmMatch(tenantId, id);
+  }
+
+  @Post('matches/:id/reject')
+  @HttpCode(HttpStatus.OK)
+  async rejectMatch(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<ReconciliationMatch> {
+    return this.reconciliationService.rejectMatch(tenantId, id);
+  }
+
+  @Get('transactions/unmatched')
+  async unmatchedTransactions(
+    @CurrentTenant() tenantId: string,
+  ): Promise<BankTransaction[]> {
+    return this.reconciliationService.unmatchedTransactions(tenantId);
+  }
+
+  @Get('receipts/unmatched')
+  async unmatchedReceipts(
+    @CurrentTenant() tenantId: string,
+  ): Promise<ReceiptSummary[]> {
+    return this.reconciliationService.unmatchedReceipts(tenantId);
+  }
+}
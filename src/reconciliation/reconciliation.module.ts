@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ReceiptModule } from '../receipt/receipt.module';
+import { ReconciliationController } from './reconciliation.controller';
+import { reconciliationService } from './reconciliation-service.factory';
+
+@Module({
+  imports: [ReceiptModule],
+  controllers: [ReconciliationController],
+  providers: [reconciliationService],
+})
+export class ReconciliationModule {}
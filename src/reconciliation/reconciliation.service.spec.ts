@@ -0,0 +1,261 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import { InMemoryReceiptRepository } from '../receipt/repositories/in-memory-receipt.repository';
+import { ReceiptResponse } from '../receipt/dto/receipt-response.dto';
+import {
+  ReconciliationService,
+  ReconciliationState,
+} from './reconciliation.service';
+import { ParsedTransaction } from './interfaces/reconciliation.interface';
+
+function receipt(overrides: Partial<ReceiptResponse>): ReceiptResponse {
+  return {
+    id: 'r',
+    tenant_id: 'acme',
+    date: '2024-03-02',
+    currency: 'USD',
+    vendor_name: 'Corner Store',
+    receipt_items: [],
+    tax: 0,
+    total: 0,
+    image_url: '/files/r.jpg',
+    ...overrides,
+  };
+}
+
+function transaction(overrides: Partial<ParsedTransaction>): ParsedTransaction {
+  return {
+    date: '2024-03-03',
+    amount: 0,
+    currency: 'USD',
+    description: 'CORNER STORE',
+    ...overrides,
+  };
+}
+
+describe('ReconciliationService', () => {
+  let dataDir: string;
+  let repository: InMemoryReceiptRepository;
+  let service: ReconciliationService;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'reconciliation-'));
+    repository = new InMemoryReceiptRepository();
+    await repository.save(
+      receipt({ id: 'shop', vendor_name: 'Stop & Shop', total: 17.17 }),
+    );
+    await repository.save(
+      receipt({
+        id: 'cafe',
+        date: '2024-03-05',
+        vendor_name: 'Blue Bottle Coffee',
+        total: 4.5,
+      }),
+    );
+    await repository.save(
+      receipt({
+        id: 'other-tenant',
+        tenant_id: 'globex',
+        vendor_name: 'Stop & Shop',
+        total: 17.17,
+      }),
+    );
+    service = new ReconciliationService(
+      new JsonFileStore<ReconciliationState>(
+        path.join(dataDir, 'reconciliation.json'),
+        () => ({ transactions: [], matches: [] }),
+      ),
+      repository,
+      { date_window_days: 5, amount_tolerance: 0.02, min_score: 0.6 },
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const statement = [
+    transaction({ description: 'STOP & SHOP #0412', amount: 17.17 }),
+    transaction({
+      date: '2024-03-05',
+      description: 'SQ *BLUE BOTTLE',
+      amount: 4.5,
+    }),
+    transaction({ description: 'RENT', amount: 1200 }),
+  ];
+
+  it('imports a statement and suggests one receipt per transaction', async () => {
+    const result = await service.importStatement('acme', statement);
+
+    expect(result).toMatchObject({
+      imported: 3,
+      duplicates: 0,
+      suggested_matches: 2,
+    });
+    const matches = await service.listMatches('acme');
+    expect(
+      matches.map((m) => [m.transaction.description, m.receipt.id, m.status]),
+    ).toEqual([
+      ['SQ *BLUE BOTTLE', 'cafe', 'suggested'],
+      ['STOP & SHOP #0412', 'shop', 'suggested'],
+    ]);
+    expect(matches[0].score.total).toBeGreaterThanOrEqual(0.6);
+    expect(
+      (await service.unmatchedTransactions('acme')).map((t) => t.description),
+    ).toEqual(['RENT']);
+    expect(await service.unmatchedReceipts('acme')).toEqual([]);
+  });
+
+  it('skips transactions that were already imported', async () => {
+    await service.importStatement('acme', statement);
+
+    const result = await service.importStatement('acme', [
+      ...statement,
+      transaction({ description: 'RENT', amount: 1200 }),
+    ]);
+
+    expect(result).toMatchObject({ imported: 1, duplicates: 3 });
+    expect(await service.unmatchedTransactions('acme')).toHaveLength(2);
+  });
+
+  it('gives the receipt to the best scoring transaction', async () => {
+    await service.importStatement('acme', [
+      transaction({
+        date: '2024-03-06',
+        description: 'STOP & SHOP',
+        amount: 17.17,
+      }),
+      transaction({
+        date: '2024-03-02',
+        description: 'STOP & SHOP',
+        amount: 17.17,
+      }),
+    ]);
+
+    const [match] = await service.listMatches('acme');
+    expect(match.transaction.date).toBe('2024-03-02');
+    expect(match.receipt.id).toBe('shop');
+  });
+
+  it('confirms a match', async () => {
+    await service.importStatement('acme', statement);
+    const [match] = await service.listMatches('acme');
+
+    const confirmed = await service.confirmMatch('acme', match.id);
+
+    expect(confirmed).toMatchObject({ id: match.id, status: 'confirmed' });
+    expect(confirmed.decided_at).toBeDefined();
+    expect(await service.listMatches('acme', 'confirmed')).toHaveLength(1);
+  });
+
+  it('does not confirm a second match for the same receipt', async () => {
+    await service.importStatement('acme', [
+      transaction({ description: 'STOP & SHOP', amount: 17.17 }),
+    ]);
+    const [first] = await service.listMatches('acme');
+    await service.confirmMatch('acme', first.id);
+    await service.rejectMatch('acme', first.id);
+    await service.importStatement('acme', [
+      transaction({
+        date: '2024-03-04',
+        description: 'STOP & SHOP',
+        amount: 17.17,
+      }),
+    ]);
+    const [second] = await service.listMatches('acme', 'suggested');
+    await service.confirmMatch('acme', second.id);
+
+    await expect(service.confirmMatch('acme', first.id)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('never suggests a rejected pair again and looks for another match', async () => {
+    await service.importStatement('acme', [
+      transaction({
+        date: '2024-03-02',
+        description: 'STOP & SHOP',
+        amount: 17.17,
+      }),
+      transaction({
+        date: '2024-03-06',
+        description: 'STOP & SHOP',
+        amount: 17.17,
+      }),
+    ]);
+    const [best] = await service.listMatches('acme');
+
+    await service.rejectMatch('acme', best.id);
+    await service.autoMatch('acme');
+
+    const suggested = await service.listMatches('acme', 'suggested');
+    expect(suggested).toHaveLength(1);
+    expect(suggested[0].transaction.date).toBe('2024-03-06');
+    expect(await service.listMatches('acme', 'rejected')).toHaveLength(1);
+  });
+
+  it('drops suggestions for deleted receipts', async () => {
+    await service.importStatement('acme', statement);
+    await repository.delete('cafe');
+
+    await service.autoMatch('acme');
+
+    expect(
+      (await service.listMatches('acme')).map((m) => m.receipt_id),
+    ).toEqual(['shop']);
+  });
+
+  it('never matches receipts a reviewer rejected', async () => {
+    await service.importStatement('acme', statement);
+    await repository.save({
+      ...(await repository.findById('cafe')),
+      review: { status: 'rejected', reasons: [] },
+    });
+
+    await service.autoMatch('acme');
+
+    expect(
+      (await service.listMatches('acme')).map((m) => m.receipt_id),
+    ).toEqual(['shop']);
+    expect(
+      (await service.unmatchedTransactions('acme')).map((t) => t.description),
+    ).toEqual(['RENT', 'SQ *BLUE BOTTLE']);
+    expect(await service.unmatchedReceipts('acme')).toEqual([]);
+  });
+
+  it('matches the original receipt rather than a flagged duplicate', async () => {
+    await repository.save(
+      receipt({
+        id: 'cafe-copy',
+        date: '2024-03-05',
+        vendor_name: 'Blue Bottle Coffee',
+        total: 4.5,
+        possible_duplicate_of: 'cafe',
+      }),
+    );
+
+    await service.importStatement('acme', statement);
+
+    expect(
+      (await service.listMatches('acme')).map((m) => m.receipt_id),
+    ).toEqual(['cafe', 'shop']);
+    expect(await service.unmatchedReceipts('acme')).toEqual([]);
+  });
+
+  it('keeps tenants apart', async () => {
+    await service.importStatement('acme', statement);
+    const [match] = await service.listMatches('acme');
+
+    expect(await service.listMatches('globex')).toEqual([]);
+    expect(await service.unmatchedTransactions('globex')).toEqual([]);
+    expect(
+      (await service.unmatchedReceipts('globex')).map((r) => r.id),
+    ).toEqual(['other-tenant']);
+    await expect(service.confirmMatch('globex', match.id)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
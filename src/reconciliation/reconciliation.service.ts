@@ -0,0 +1,283 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { JsonFileStore } from '../common/persistence/json-file-store';
+import { countsTowardSpend } from '../receipt/repositories/receipt-query';
+import { ReceiptRepository } from '../receipt/repositories/receipt.repository';
+import { ReceiptResponse } from '../receipt/dto/receipt-response.dto';
+import { scoreMatch } from './reconciliation-matcher';
+import {
+  AutoMatchResult,
+  BankTransaction,
+  MatchingOptions,
+  MatchStatus,
+  ParsedTransaction,
+  ReceiptSummary,
+  ReconciliationMatch,
+  ReconciliationMatchView,
+  StatementImportResult,
+} from './interfaces/reconciliation.interface';
+
+export interface ReconciliationState {
+  transactions: BankTransaction[];
+  matches: ReconciliationMatch[];
+}
+
+const duplicateKey = (t: ParsedTransaction) =>
+  t.reference
+    ? `ref|${t.currency}|${t.reference}`
+    : `${t.date}|${t.amount}|${t.currency}|${t.description.toLowerCase()}`;
+
+function summarize(receipt: ReceiptResponse): ReceiptSummary {
+  const { id, date, vendor_name, total, currency } = receipt;
+  return { id, date, vendor_name, total, currency };
+}
+
+/**
+ * Ties imported bank and card transactions to the receipts that explain them.
+ * Matching suggests at most one receipt per transaction and vice versa; a
+ * user then confirms or rejects each suggestion, and rejected pairs are never
+ * suggested again.
+ */
+export class ReconciliationService {
+  constructor(
+    private readonly store: JsonFileStore<ReconciliationState>,
+    private readonly receiptRepository: ReceiptRepository,
+    private readonly options: MatchingOptions,
+  ) {}
+
+  async importStatement(
+    tenantId: string,
+    parsed: ParsedTransaction[],
+  ): Promise<StatementImportResult> {
+    const statementId = uuidv4();
+    const importedAt = new Date().toISOString();
+
+    const imported = await this.store.update((state) => {
+      // Re-importing an overlapping statement only adds what is new; equal
+      // transactions within one file (two identical coffees) are kept
+      const existing = new Map<string, number>();
+      for (const t of state.transactions) {
+        if (t.tenant_id === tenantId) {
+          existing.set(
+            duplicateKey(t),
+            (existing.get(duplicateKey(t)) ?? 0) + 1,
+          );
+        }
+      }
+      const added: BankTransaction[] = [];
+      for (const transaction of parsed) {
+        const key = duplicateKey(transaction);
+        if (existing.get(key) > 0) {
+          existing.set(key, existing.get(key) - 1);
+          continue;
+        }
+        added.push({
+          ...transaction,
+          id: uuidv4(),
+          tenant_id: tenantId,
+          statement_id: statementId,
+          imported_at: importedAt,
+        });
+      }
+      state.transactions.push(...added);
+      return added.length;
+    });
+
+    const { suggested_matches } = await this.autoMatch(tenantId);
+    return {
+      statement_id: statementId,
+      imported,
+      duplicates: parsed.length - imported,
+      suggested_matches,
+    };
+  }
+
+  // Suggests matches for transactions and receipts that have none yet
+  async autoMatch(tenantId: string): Promise<AutoMatchResult> {
+    const receipts = await this.matchableReceipts(tenantId);
+    const receiptIds = new Set(receipts.map((r) => r.id));
+
+    return this.store.update((state) => {
+      // Suggestions for deleted or rejected receipts are dropped
+      state.matches = state.matches.filter(
+        (m) =>
+          m.tenant_id !== tenantId ||
+          m.status !== 'suggested' ||
+          receiptIds.has(m.receipt_id),
+      );
+      const matches = state.matches.filter((m) => m.tenant_id === tenantId);
+      const rejected = new Set(
+        matches
+          .filter((m) => m.status === 'rejected')
+          .map((m) => `${m.transaction_id}|${m.receipt_id}`),
+      );
+      const active = matches.filter((m) => m.status !== 'rejected');
+      const usedTransactions = new Set(active.map((m) => m.transaction_id));
+      const usedReceipts = new Set(active.map((m) => m.receipt_id));
+
+      const candidates = state.transactions
+        .filter((t) => t.tenant_id === tenantId && !usedTransactions.has(t.id))
+        .flatMap((transaction) =>
+          receipts
+            .filter(
+              (receipt) =>
+                !usedReceipts.has(receipt.id) &&
+                !rejected.has(`${transaction.id}|${receipt.id}`),
+            )
+            .map((receipt) => ({
+              transaction,
+              receipt,
+              score: scoreMatch(transaction, receipt, this.options),
+            })),
+        )
+        .filter(({ score }) => score && score.total >= this.options.min_score)
+        .sort((a, b) => b.score.total - a.score.total);
+
+      // Best pairs first, each transaction and receipt used once
+      let suggested = 0;
+      for (const { transaction, receipt, score } of candidates) {
+        if (
+          usedTransactions.has(transaction.id) ||
+          usedReceipts.has(receipt.id)
+        ) {
+          continue;
+        }
+        usedTransactions.add(transaction.id);
+        usedReceipts.add(receipt.id);
+        state.matches.push({
+          id: uuidv4(),
+          tenant_id: tenantId,
+          transaction_id: transaction.id,
+          receipt_id: receipt.id,
+          status: 'suggested',
+          score,
+          created_at: new Date().toISOString(),
+        });
+        suggested++;
+      }
+      return { suggested_matches: suggested };
+    });
+  }
+
+  async listMatches(
+    tenantId: string,
+    status?: MatchStatus,
+  ): Promise<ReconciliationMatchView[]> {
+    const { transactions, matches } = await this.store.read();
+    const receipts = new Map(
+      (await this.receiptRepository.findAll(tenantId)).map((r) => [r.id, r]),
+    );
+    const transactionsById = new Map(transactions.map((t) => [t.id, t]));
+    return matches
+      .filter(
+        (m) => m.tenant_id === tenantId && (!status || m.status === status),
+      )
+      .sort((a, b) => b.score.total - a.score.total)
+      .map((match) => {
+        const receipt = receipts.get(match.receipt_id);
+        return structuredClone({
+          ...match,
+          transaction: transactionsById.get(match.transaction_id),
+          receipt: receipt && summarize(receipt),
+        });
+      });
+  }
+
+  async confirmMatch(
+    tenantId: string,
+    id: string,
+  ): Promise<ReconciliationMatch> {
+    return this.store.update((state) => {
+      const match = this.findMatch(state, tenantId, id);
+      const conflict = state.matches.find(
+        (m) =>
+          m.id !== id &&
+          m.status === 'confirmed' &&
+          (m.transaction_id === match.transaction_id ||
+            m.receipt_id === match.receipt_id),
+      );
+      if (conflict) {
+        throw new BadRequestException(
+          'The transaction or receipt is already matched; reject that match first',
+        );
+      }
+      match.status = 'confirmed';
+      match.decided_at = new Date().toISOString();
+      // Competing suggestions for either side are no longer relevant
+      state.matches = state.matches.filter(
+        (m) =>
+          m.status !== 'suggested' ||
+          (m.transaction_id !== match.transaction_id &&
+            m.receipt_id !== match.receipt_id),
+      );
+      return structuredClone(match);
+    });
+  }
+
+  // Rejecting frees both sides, so other matches are looked for right away
+  async rejectMatch(
+    tenantId: string,
+    id: string,
+  ): Promise<ReconciliationMatch> {
+    const rejected = await this.store.update((state) => {
+      const match = this.findMatch(state, tenantId, id);
+      match.status = 'rejected';
+      match.decided_at = new Date().toISOString();
+      return structuredClone(match);
+    });
+    await this.autoMatch(tenantId);
+    return rejected;
+  }
+
+  // Transactions with neither a confirmed nor a suggested receipt
+  async unmatchedTransactions(tenantId: string): Promise<BankTransaction[]> {
+    const { transactions, matches } = await this.store.read();
+    const matched = new Set(
+      matches
+        .filter((m) => m.tenant_id === tenantId && m.status !== 'rejected')
+        .map((m) => m.transaction_id),
+    );
+    return transactions
+      .filter((t) => t.tenant_id === tenantId && !matched.has(t.id))
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map((t) => structuredClone(t));
+  }
+
+  // Receipts with neither a confirmed nor a suggested transaction
+  async unmatchedReceipts(tenantId: string): Promise<ReceiptSummary[]> {
+    const { matches } = await this.store.read();
+    const matched = new Set(
+      matches
+        .filter((m) => m.tenant_id === tenantId && m.status !== 'rejected')
+        .map((m) => m.receipt_id),
+    );
+    return (await this.matchableReceipts(tenantId))
+      .filter((r) => !matched.has(r.id))
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(summarize);
+  }
+
+  // Rejected receipts and flagged duplicates are not expenses of their own,
+  // so a payment belongs to the original receipt instead
+  private async matchableReceipts(
+    tenantId: string,
+  ): Promise<ReceiptResponse[]> {
+    return (await this.receiptRepository.findAll(tenantId)).filter((receipt) =>
+      countsTowardSpend(receipt, {}),
+    );
+  }
+
+  private findMatch(
+    state: ReconciliationState,
+    tenantId: string,
+    id: string,
+  ): ReconciliationMatch {
+    const match = state.matches.find(
+      (m) => m.id === id && m.tenant_id === tenantId,
+    );
+    if (!match) {
+      throw new NotFoundException(`Match with ID '${id}' not found`);
+    }
+    return match;
+  }
+}
@@ -0,0 +1,147 @@
+import { BadRequestException } from '@nestjs/common';
+import { parseStatement } from './statement-parser';
+
+describe('parseStatement', () => {
+  describe('csv', () => {
+    it('reads signed amounts with quoted fields and the currency column', () => {
+      const csv = [
+        '\uFEFFDate,Description,Amount,Currency,Reference',
+        '2024-03-02,"STOP & SHOP, #0412",-17.17,usd,T1',
+        '2024-03-04,Refund,"1,020.00",USD,',
+      ].join('\r\n');
+
+      expect(parseStatement(csv, 'csv')).toEqual([
+        {
+          date: '2024-03-02',
+          amount: 17.17,
+          currency: 'USD',
+          description: 'STOP & SHOP, #0412',
+          reference: 'T1',
+        },
+        {
+          date: '2024-03-04',
+          amount: -1020,
+          currency: 'USD',
+          description: 'Refund',
+          reference: undefined,
+        },
+      ]);
+    });
+
+    it('reads debit/credit columns, slash dates and the currency option', () => {
+      const csv = [
+        'Posted Date,Payee,Debit,Credit',
+        '03/02/2024,Cafe,(4.50),',
+        '05/02/2024,Refund,,2.00',
+      ].join('\n');
+
+      const transactions = parseStatement(csv, 'csv', {
+        currency: 'eur',
+        date_format: 'DD/MM/YYYY',
+      });
+
+      expect(transactions).toMatchObject([
+        { date: '2024-02-03', amount: 4.5, currency: 'EUR' },
+        { date: '2024-02-05', amount: -2, currency: 'EUR' },
+      ]);
+    });
+
+    it('keeps charges positive for card exports', () => {
+      const csv = 'Date,Merchant,Amount\n2024-03-02,Cafe,$4.50\n';
+
+      expect(
+        parseStatement(csv, 'csv', { currency: 'USD', debits_positive: true }),
+      ).toMatchObject([{ amount: 4.5 }]);
+    });
+
+    it('reports every bad row at once', () => {
+      const csv = [
+        'Date,Description,Amount,Currency',
+        '2024-13-40,A,1.00,USD',
+        '2024-03-02,B,abc,XXX',
+      ].join('\n');
+
+      expect.assertions(2);
+      try {
+        parseStatement(csv, 'csv');
+      } catch (error) {
+        expect(error).toBeInstanceOf(BadRequestException);
+        expect(error.getResponse().message).toEqual([
+          'line 2: date is not a valid date',
+          'line 3: amount must be a number',
+          'line 3: currency must be an ISO 4217 currency code',
+        ]);
+      }
+    });
+
+    it('requires a currency when the file has none', () => {
+      expect(() =>
+        parseStatement('Date,Description,Amount\n2024-03-02,A,1', 'csv'),
+      ).toThrow('CSV statement has no currency column; pass currency');
+    });
+
+    it('rejects files without the required columns', () => {
+      expect(() => parseStatement('When,What\n2024-03-02,A', 'csv')).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('ofx', () => {
+    it('reads SGML statements with one currency per account', () => {
+      const ofx = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240302120000[-5:EST]<TRNAMT>-17.17<FITID>A1<NAME>STOP &amp; SHOP
+</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240304<TRNAMT>5.00<FITID>A2<MEMO>Refund
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1>
+<CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<CURDEF>EUR
+<STMTTRN><DTPOSTED>20240305<TRNAMT>-9.99<FITID>B1<NAME>Bakery</STMTTRN>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+      expect(parseStatement(ofx, 'ofx')).toEqual([
+        {
+          date: '2024-03-02',
+          amount: 17.17,
+          currency: 'USD',
+          description: 'STOP & SHOP',
+          reference: 'A1',
+        },
+        {
+          date: '2024-03-04',
+          amount: -5,
+          currency: 'USD',
+          description: 'Refund',
+          reference: 'A2',
+        },
+        {
+          date: '2024-03-05',
+          amount: 9.99,
+          currency: 'EUR',
+          description: 'Bakery',
+          reference: 'B1',
+        },
+      ]);
+    });
+
+    it('rejects documents that are not OFX', () => {
+      expect(() => parseStatement('hello', 'ofx')).toThrow(
+        'Statement is not an OFX document',
+      );
+    });
+
+    it('rejects statements without transactions', () => {
+      expect(() =>
+        parseStatement('<OFX><STMTRS><CURDEF>USD</STMTRS></OFX>', 'ofx'),
+      ).toThrow(BadRequestException);
+    });
+  });
+});
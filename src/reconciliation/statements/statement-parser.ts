@@ -0,0 +1,223 @@
+import { BadRequestException } from '@nestjs/common';
+import { readCsv } from '../../common/csv-reader';
+import { ISO_4217_CURRENCY_CODES } from '../../currency/iso-4217';
+import {
+  ParsedTransaction,
+  StatementFormat,
+  StatementParseOptions,
+} from '../interfaces/reconciliation.interface';
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const SLASH_DATE = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/;
+
+// Header names used by common bank and card exports, lower-cased
+const CSV_COLUMNS = {
+  date: [
+    'date',
+    'transaction date',
+    'posted date',
+    'posting date',
+    'booking date',
+  ],
+  description: ['description', 'payee', 'name', 'merchant', 'details', 'memo'],
+  amount: ['amount'],
+  debit: ['debit', 'withdrawal', 'money out'],
+  credit: ['credit', 'deposit', 'money in'],
+  currency: ['currency'],
+  reference: ['reference', 'transaction id', 'id', 'fitid'],
+};
+
+/**
+ * Parses an uploaded bank or card statement. Every problem is reported at
+ * once, as with rate tables, so a bad file can be fixed in one pass.
+ */
+export function parseStatement(
+  content: string,
+  format: StatementFormat,
+  options: StatementParseOptions = {},
+): ParsedTransaction[] {
+  const { transactions, errors } =
+    format === 'csv'
+      ? readCsvStatement(content, options)
+      : readOfxStatement(content, options);
+
+  if (transactions.length === 0 && errors.length === 0) {
+    errors.push('Statement contains no transactions');
+  }
+  if (errors.length > 0) {
+    throw new BadRequestException(errors);
+  }
+  return transactions;
+}
+
+interface ParseOutcome {
+  transactions: ParsedTransaction[];
+  errors: string[];
+}
+
+function readCsvStatement(
+  content: string,
+  options: StatementParseOptions,
+): ParseOutcome {
+  const [header = [], ...rows] = readCsv(content);
+  const names = header.map((h) => h.trim().toLowerCase());
+  const column = (field: keyof typeof CSV_COLUMNS) =>
+    names.findIndex((name) => CSV_COLUMNS[field].includes(name));
+  const columns = {
+    date: column('date'),
+    description: column('description'),
+    amount: column('amount'),
+    debit: column('debit'),
+    credit: column('credit'),
+    currency: column('currency'),
+    reference: column('reference'),
+  };
+  if (
+    columns.date < 0 ||
+    columns.description < 0 ||
+    (columns.amount < 0 && columns.debit < 0)
+  ) {
+    throw new BadRequestException(
+      'CSV header must include date, description and amount (or debit/credit) columns',
+    );
+  }
+  if (columns.currency < 0 && !options.currency) {
+    throw new BadRequestException(
+      'CSV statement has no currency column; pass currency',
+    );
+  }
+
+  const errors: string[] = [];
+  const transactions = rows.map((cells, index) => {
+    const cell = (i: number) => (i >= 0 ? (cells[i] ?? '').trim() : '');
+    let amount: number;
+    if (columns.amount >= 0) {
+      const signed = parseAmount(cell(columns.amount));
+      amount = options.debits_positive ? signed : -signed;
+    } else {
+      const debit = Math.abs(parseAmount(cell(columns.debit)) || 0);
+      const credit = Math.abs(parseAmount(cell(columns.credit)) || 0);
+      amount = debit - credit;
+    }
+    const transaction: ParsedTransaction = {
+      date: parseDate(cell(columns.date), options),
+      amount: roundCents(amount),
+      currency: (cell(columns.currency) || options.currency).toUpperCase(),
+      description: cell(columns.description),
+      reference: cell(columns.reference) || undefined,
+    };
+    errors.push(
+      ...collectTransactionErrors(transaction).map(
+        (error) => `line ${index + 2}: ${error}`,
+      ),
+    );
+    return transaction;
+  });
+  return { transactions, errors };
+}
+
+// Reads both SGML (OFX 1.x, unclosed tags) and XML (OFX 2.x) statements
+function readOfxStatement(
+  content: string,
+  options: StatementParseOptions,
+): ParseOutcome {
+  if (!/<OFX>/i.test(content)) {
+    throw new BadRequestException('Statement is not an OFX document');
+  }
+  const value = (block: string, tag: string) => {
+    const text = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block)?.[1];
+    return text === undefined ? undefined : decodeEntities(text.trim());
+  };
+
+  const errors: string[] = [];
+  const transactions: ParsedTransaction[] = [];
+  // Each STMTRS is one account statement with its own currency
+  const statements = content.split(/<STMTRS>|<CCSTMTRS>/i).slice(1);
+  for (const statement of statements) {
+    const currency = (
+      value(statement, 'CURDEF') ||
+      options.currency ||
+      ''
+    ).toUpperCase();
+    const blocks = statement.split(/<STMTTRN>/i).slice(1);
+    for (const block of blocks) {
+      const posted = value(block, 'DTPOSTED') ?? '';
+      const transaction: ParsedTransaction = {
+        date: posted.replace(/^(\d{4})(\d{2})(\d{2}).*$/, '$1-$2-$3'),
+        amount: roundCents(-parseAmount(value(block, 'TRNAMT') ?? '')),
+        currency,
+        description: value(block, 'NAME') || value(block, 'MEMO') || '',
+        reference: value(block, 'FITID'),
+      };
+      errors.push(
+        ...collectTransactionErrors(transaction).map(
+          (error) => `transaction ${transactions.length + 1}: ${error}`,
+        ),
+      );
+      transactions.push(transaction);
+    }
+  }
+  return { transactions, errors };
+}
+
+const OFX_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(\w+);/g,
+    (entity, name) => OFX_ENTITIES[name] ?? entity,
+  );
+}
+
+function collectTransactionErrors(transaction: ParsedTransaction): string[] {
+  const errors: string[] = [];
+  if (
+    !ISO_DATE.test(transaction.date) ||
+    isNaN(Date.parse(`${transaction.date}T00:00:00Z`))
+  ) {
+    errors.push('date is not a valid date');
+  }
+  if (!Number.isFinite(transaction.amount)) {
+    errors.push('amount must be a number');
+  }
+  if (!ISO_4217_CURRENCY_CODES.has(transaction.currency)) {
+    errors.push('currency must be an ISO 4217 currency code');
+  }
+  return errors;
+}
+
+// Accepts "1,234.56", "$12.00", "-3.50" and accounting-style "(3.50)"
+function parseAmount(text: string): number {
+  const negative = /^\(.*\)$/.test(text) || text.includes('-');
+  const digits = text.replace(/[^\d.]/g, '');
+  if (digits === '') {
+    return NaN;
+  }
+  const amount = Number(digits);
+  return negative ? -amount : amount;
+}
+
+function parseDate(text: string, options: StatementParseOptions): string {
+  if (ISO_DATE.test(text)) {
+    return text;
+  }
+  const match = SLASH_DATE.exec(text);
+  if (!match) {
+    return text;
+  }
+  const [, first, second, year] = match;
+  const [month, day] =
+    options.date_format === 'DD/MM/YYYY' ? [second, first] : [first, second];
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
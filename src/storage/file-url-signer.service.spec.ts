@@ -0,0 +1,67 @@
+import { FileUrlSigner } from './file-url-signer.service';
+
+describe('FileUrlSigner', () => {
+  let signer: FileUrlSigner;
+  const now = Date.UTC(2024, 0, 1);
+
+  beforeEach(() => {
+    process.env.FILE_URL_SECRET = 'test-secret';
+    process.env.FILE_URL_TTL_SECONDS = '60';
+    signer = new FileUrlSigner();
+  });
+
+  afterEach(() => {
+    delete process.env.FILE_URL_SECRET;
+    delete process.env.FILE_URL_TTL_SECONDS;
+  });
+
+  function parse(url: string) {
+    const parsed = new URL(url, 'http://localhost');
+    return {
+      key: decodeURIComponent(parsed.pathname.replace('/files/', '')),
+      expires: parsed.searchParams.get('expires'),
+      signature: parsed.searchParams.get('signature'),
+    };
+  }
+
+  it('accepts its own links until they expire', () => {
+    const { key, expires, signature } = parse(
+      signer.sign('abc_my receipt.jpg', now),
+    );
+
+    expect(key).toBe('abc_my receipt.jpg');
+    expect(Number(expires)).toBe(now / 1000 + 60);
+    expect(signer.verify(key, expires, signature, now + 59_000)).toBe(true);
+    expect(signer.verify(key, expires, signature, now + 61_000)).toBe(false);
+  });
+
+  it('uses the default lifetime when FILE_URL_TTL_SECONDS is not a number', () => {
+    process.env.FILE_URL_TTL_SECONDS = 'fifteen minutes';
+    const { key, expires, signature } = parse(
+      new FileUrlSigner().sign('abc_1.jpg', now),
+    );
+
+    expect(Number(expires)).toBe(now / 1000 + 900);
+    expect(signer.verify(key, expires, signature, now)).toBe(true);
+  });
+
+  it('rejects tampered keys, expiries and signatures', () => {
+    const { key, expires, signature } = parse(signer.sign('abc_1.jpg', now));
+
+    expect(signer.verify('abc_2.jpg', expires, signature, now)).toBe(false);
+    expect(
+      signer.verify(key, String(Number(expires) + 3600), signature, now),
+    ).toBe(false);
+    expect(signer.verify(key, expires, 'forged', now)).toBe(false);
+    expect(signer.verify(key, expires, undefined, now)).toBe(false);
+  });
+
+  it('rejects links signed with another secret', () => {
+    const { key, expires, signature } = parse(signer.sign('abc_1.jpg', now));
+    process.env.FILE_URL_SECRET = 'rotated';
+
+    expect(new FileUrlSigner().verify(key, expires, signature, now)).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { numberFromEnv } from '../common/env-number';
+
+/**
+ * Issues and checks time-limited links to stored receipt files. A link is
+ * `/files/<key>?expires=<unix seconds>&signature=<hmac>`, where the HMAC-SHA256
+ * covers both the key and the expiry so neither can be altered.
+ */
+@Injectable()
+export class FileUrlSigner {
+  private readonly logger = new Logger(FileUrlSigner.name);
+  private readonly secret = this.resolveSecret();
+  private readonly ttlSeconds = numberFromEnv(
+    process.env.FILE_URL_TTL_SECONDS,
+    900,
+    1,
+  );
+
+  sign(key: string, now = Date.now()): string {
+    const expires = Math.floor(now / 1000) + this.ttlSeconds;
+    const signature = this.signatureFor(key, expires);
+    return `/files/${encodeURIComponent(key)}?expires=${expires}&signature=${signature}`;
+  }
+
+  verify(
+    key: string,
+    expires: string,
+    signature: string,
+    now = Date.now(),
+  ): boolean {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt * 1000 < now) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.signatureFor(key, expiresAt));
+    const given = Buffer.from(String(signature ?? ''));
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  private signatureFor(key: string, expires: number): string {
+    return createHmac('sha256', this.secret)
+      .update(`${key}:${expires}`)
+      .digest('base64url');
+  }
+
+  private resolveSecret(): string {
+    if (process.env.FILE_URL_SECRET) {
+      return process.env.FILE_URL_SECRET;
+    }
+    this.logger.warn(
+      'FILE_URL_SECRET is not set; image links will stop working after a restart',
+    );
+    return randomBytes(32).toString('hex');
+  }
+}
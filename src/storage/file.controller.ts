@@ -0,0 +1,47 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  Header,
+  NotFoundException,
+  Param,
+  Query,
+  StreamableFile,
+} from '@nestjs/common';
+import { ReceiptStorage } from './receipt-storage';
+import { FileUrlSigner } from './file-url-signer.service';
+import { mimeTypeForFile } from '../receipt/receipt-file-types';
+import { Public } from '../auth/decorators/auth.decorators';
+
+@Controller('files')
+export class FileController {
+  constructor(
+    private readonly storage: ReceiptStorage,
+    private readonly urlSigner: FileUrlSigner,
+  ) {}
+
+  // Serves a stored receipt file only through a valid, unexpired signed link.
+  // Links are only handed out with the owning tenant's receipts, so the
+  // signature stands in for authentication (e.g. in <img> tags).
+  @Get(':key')
+  @Public()
+  @Header('Cache-Control', 'private, no-store')
+  async getFile(
+    @Param('key') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+  ): Promise<StreamableFile> {
+    if (!this.urlSigner.verify(key, expires, signature)) {
+      throw new ForbiddenException('Invalid or expired file link');
+    }
+
+    const data = await this.storage.get(key);
+    if (!data) {
+      throw new NotFoundException(`File '${key}' not found`);
+    }
+    return new StreamableFile(data, {
+      type: mimeTypeForFile(key) ?? 'application/octet-stream',
+      disposition: 'inline',
+    });
+  }
+}
@@ -0,0 +1,23 @@
+import { ReceiptStorage } from './receipt-storage';
+
+export class InMemoryReceiptStorage extends ReceiptStorage {
+  readonly name = 'memory';
+  private objects = new Map<string, Buffer>();
+
+  async put(key: string, data: Buffer): Promise<void> {
+    this.objects.set(key, Buffer.from(data));
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const data = this.objects.get(key);
+    return data && Buffer.from(data);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.objects.keys());
+  }
+}
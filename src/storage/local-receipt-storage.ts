@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ReceiptStorage } from './receipt-storage';
+
+export class LocalReceiptStorage extends ReceiptStorage {
+  readonly name = 'local';
+
+  constructor(private readonly directory: string) {
+    super();
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.pathFor(key), data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.pathFor(key));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      return await fs.readdir(this.directory);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // Keys never contain directories, so '../' cannot escape the storage root
+  private pathFor(key: string): string {
+    return path.join(this.directory, path.basename(key));
+  }
+}
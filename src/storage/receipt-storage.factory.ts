@@ -0,0 +1,49 @@
+import { FactoryProvider } from '@nestjs/common';
+import { S3Client } from '@aws-sdk/client-s3';
+import * as path from 'path';
+import { ReceiptStorage } from './receipt-storage';
+import { LocalReceiptStorage } from './local-receipt-storage';
+import { S3ReceiptStorage } from './s3-receipt-storage';
+import { InMemoryReceiptStorage } from './in-memory-receipt-storage';
+
+export function createReceiptStorage(
+  env: NodeJS.ProcessEnv = process.env,
+): ReceiptStorage {
+  switch (env.STORAGE_DRIVER || 'local') {
+    case 'local':
+      return new LocalReceiptStorage(
+        env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'uploads'),
+      );
+    case 's3':
+      if (!env.S3_BUCKET) {
+        throw new Error('S3_BUCKET environment variable is required');
+      }
+      return new S3ReceiptStorage(
+        new S3Client({
+          region: env.S3_REGION || 'us-east-1',
+          endpoint: env.S3_ENDPOINT || undefined,
+          // MinIO and most self-hosted stand-ins only support path-style URLs
+          forcePathStyle: env.S3_FORCE_PATH_STYLE
+            ? env.S3_FORCE_PATH_STYLE === 'true'
+            : Boolean(env.S3_ENDPOINT),
+          credentials: env.S3_ACCESS_KEY_ID
+            ? {
+                accessKeyId: env.S3_ACCESS_KEY_ID,
+                secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+              }
+            : undefined,
+        }),
+        env.S3_BUCKET,
+        env.S3_PREFIX || '',
+      );
+    case 'memory':
+      return new InMemoryReceiptStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER '${env.STORAGE_DRIVER}'`);
+  }
+}
+
+export const receiptStorage: FactoryProvider<ReceiptStorage> = {
+  provide: ReceiptStorage,
+  useFactory: () => createReceiptStorage(),
+};
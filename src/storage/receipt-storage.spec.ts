@@ -0,0 +1,133 @@
+import {
+  CreateBucketCommand,
+  S3Client,
+  BucketAlreadyOwnedByYou,
+} from '@aws-sdk/client-s3';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReceiptStorage } from './receipt-storage';
+import { LocalReceiptStorage } from './local-receipt-storage';
+import { InMemoryReceiptStorage } from './in-memory-receipt-storage';
+import { S3ReceiptStorage } from './s3-receipt-storage';
+
+// The S3 implementation runs against a local stand-in such as MinIO:
+//   docker compose up -d minio
+//   S3_TEST_ENDPOINT=http://localhost:9000 npm test
+const S3_TEST_ENDPOINT = process.env.S3_TEST_ENDPOINT;
+
+interface StorageFixture {
+  create(): Promise<ReceiptStorage>;
+  cleanup?(): Promise<void>;
+}
+
+function localFixture(): StorageFixture {
+  let directory: string;
+  return {
+    async create() {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+      return new LocalReceiptStorage(path.join(directory, 'uploads'));
+    },
+    cleanup: () => fs.rm(directory, { recursive: true, force: true }),
+  };
+}
+
+function s3Fixture(): StorageFixture {
+  return {
+    async create() {
+      const client = new S3Client({
+        region: 'us-east-1',
+        endpoint: S3_TEST_ENDPOINT,
+        forcePathStyle: true,
+        credentials: {
+          accessKeyId: process.env.S3_TEST_ACCESS_KEY_ID ?? 'minioadmin',
+          secretAccessKey:
+            process.env.S3_TEST_SECRET_ACCESS_KEY ?? 'minioadmin',
+        },
+      });
+      try {
+        await client.send(new CreateBucketCommand({ Bucket: 'receipts-test' }));
+      } catch (error) {
+        if (!(error instanceof BucketAlreadyOwnedByYou)) {
+          throw error;
+        }
+      }
+      // A fresh prefix per test keeps runs independent
+      return new S3ReceiptStorage(
+        client,
+        'receipts-test',
+        `run-${Date.now()}-${Math.random().toString(36).slice(2)}/`,
+      );
+    },
+  };
+}
+
+const fixtures: [string, () => StorageFixture][] = [
+  ['local', localFixture],
+  ['memory', () => ({ create: async () => new InMemoryReceiptStorage() })],
+];
+
+describe.each(fixtures)('%s ReceiptStorage', (_, makeFixture) => {
+  storageContract(makeFixture);
+});
+
+(S3_TEST_ENDPOINT ? describe : describe.skip)('s3 ReceiptStorage', () => {
+  storageContract(s3Fixture);
+});
+
+function storageContract(makeFixture: () => StorageFixture) {
+  let fixture: StorageFixture;
+  let storage: ReceiptStorage;
+
+  beforeEach(async () => {
+    fixture = makeFixture();
+    storage = await fixture.create();
+  });
+
+  afterEach(async () => {
+    await fixture.cleanup?.();
+  });
+
+  it('stores, lists and returns files', async () => {
+    await storage.put('r1_receipt.jpg', Buffer.from('jpeg'), 'image/jpeg');
+    await storage.put(
+      'r2_receipt.pdf',
+      Buffer.from('%PDF-'),
+      'application/pdf',
+    );
+
+    expect((await storage.get('r1_receipt.jpg')).toString()).toBe('jpeg');
+    expect((await storage.list()).sort()).toEqual([
+      'r1_receipt.jpg',
+      'r2_receipt.pdf',
+    ]);
+  });
+
+  it('returns undefined for missing files and ignores missing deletes', async () => {
+    expect(await storage.get('missing.jpg')).toBeUndefined();
+    await expect(storage.delete('missing.jpg')).resolves.toBeUndefined();
+    expect(await storage.list()).toEqual([]);
+  });
+
+  it('deletes files', async () => {
+    await storage.put('r1_receipt.jpg', Buffer.from('jpeg'), 'image/jpeg');
+
+    await storage.delete('r1_receipt.jpg');
+
+    expect(await storage.get('r1_receipt.jpg')).toBeUndefined();
+  });
+}
+
+describe('LocalReceiptStorage', () => {
+  it('keeps keys inside the storage directory', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+    const storage: ReceiptStorage = new LocalReceiptStorage(
+      path.join(directory, 'uploads'),
+    );
+
+    await storage.put('../escape.jpg', Buffer.from('x'), 'image/jpeg');
+
+    expect(await storage.list()).toEqual(['escape.jpg']);
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Where uploaded receipt images and documents are kept. Keys are flat file
+ * names such as `<receipt id>_<original name>`.
+ */
+export abstract class ReceiptStorage {
+  abstract readonly name: string;
+
+  abstract put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Resolves to undefined when nothing is stored under the key
+  abstract get(key: string): Promise<Buffer | undefined>;
+  // Deleting a missing key is not an error
+  abstract delete(key: string): Promise<void>;
+  abstract list(): Promise<string[]>;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { FileController } from './file.controller';
+import { FileUrlSigner } from './file-url-signer.service';
+import { receiptStorage } from './receipt-storage.factory';
+import { ReceiptStorage } from './receipt-storage';
+
+@Module({
+  controllers: [FileController],
+  providers: [receiptStorage, FileUrlSigner],
+  exports: [ReceiptStorage, FileUrlSigner],
+})
+export class StorageModule {}
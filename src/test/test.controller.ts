@@ -1,6 +1,18 @@
-import { Controller, Get, Post, Param, UseInterceptors, UploadedFile, BadRequestException } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  NotFoundException,
+} from '@nestjs/common';
 import { ReceiptService } from '../receipt/receipt.service';
+import {
+  mimeTypeForFile,
+  unsupportedFileType,
+} from '../receipt/receipt-file-types';
+import { AdminOnly, CurrentTenant } from '../auth/decorators/auth.decorators';
+import { PromptVersionQueryDto } from '../prompts/dto/prompt-selection.dto';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -15,50 +27,41 @@ export class TestController {
       const files = fs.readdirSync(sampleReceiptsDir);
       return {
         message: 'Available sample receipt files',
-        files: files.filter(file => 
-          file.toLowerCase().match(/\.(jpg|jpeg|png|webp)$/)
-        ),
-        usage: 'POST /test/process-sample/:filename to process a sample receipt'
+        files: files.filter((file) => mimeTypeForFile(file)),
+        usage:
+          'POST /test/process-sample/:filename to process a sample receipt',
       };
-    } catch (error) {
+    } catch {
       return {
         message: 'Sample receipts directory not found',
-        files: []
+        files: [],
       };
     }
   }
 
   @Post('process-sample/:filename')
-  async processSampleReceipt(@Param('filename') filename: string) {
+  async processSampleReceipt(
+    @CurrentTenant() tenantId: string,
+    @Param('filename') filename: string,
+    @Query() query: PromptVersionQueryDto,
+  ) {
     const sampleReceiptsDir = path.join(process.cwd(), 'sample-receipts');
     const filePath = path.join(sampleReceiptsDir, filename);
-    
-    // Check if file exists
-    if (!fs.existsSync(filePath)) {
-      throw new BadRequestException(`Sample receipt '${filename}' not found`);
+
+    // Only plain file names, so "../uploads/<key>" cannot reach other files
+    if (path.basename(filename) !== filename || !fs.existsSync(filePath)) {
+      throw new NotFoundException(`Sample receipt '${filename}' not found`);
+    }
+
+    // Determine mimetype based on extension
+    const mimetype = mimeTypeForFile(filename);
+    if (!mimetype) {
+      throw unsupportedFileType();
     }
 
     // Read the file
     const buffer = fs.readFileSync(filePath);
     const stats = fs.statSync(filePath);
-    
-    // Determine mimetype based on extension
-    const ext = path.extname(filename).toLowerCase();
-    let mimetype: string;
-    switch (ext) {
-      case '.jpg':
-      case '.jpeg':
-        mimetype = 'image/jpeg';
-        break;
-      case '.png':
-        mimetype = 'image/png';
-        break;
-      case '.webp':
-        mimetype = 'image/webp';
-        break;
-      default:
-        throw new BadRequestException('Unsupported file type');
-    }
 
     // Create mock Multer file object
     const mockFile: Express.Multer.File = {
@@ -74,35 +77,46 @@ export class TestController {
       stream: null as any,
     };
 
-    // Process the receipt
-    try {
-      const result = await this.receiptService.extractReceiptDetails(mockFile);
-      return {
-        message: `Successfully processed sample receipt: ${filename}`,
-        result: result
-      };
-    } catch (error) {
-      return {
-        message: `Failed to process sample receipt: ${filename}`,
-        error: error.message
-      };
-    }
+    // Process the receipt; failures use the regular error envelope
+    const result = await this.receiptService.extractReceiptDetails(
+      tenantId,
+      mockFile,
+      query.prompt_version,
+    );
+    return {
+      message: `Successfully processed sample receipt: ${filename}`,
+      result: result,
+    };
   }
 
   @Get('receipts')
-  getAllReceipts() {
+  async getAllReceipts(@CurrentTenant() tenantId: string) {
     return {
       message: 'All processed receipts',
-      receipts: this.receiptService.getAllReceipts()
+      receipts: await this.receiptService.getAllReceipts(tenantId),
     };
   }
 
   @Get('receipts/:id')
-  getReceiptById(@Param('id') id: string) {
-    const receipt = this.receiptService.getReceiptById(id);
-    if (!receipt) {
-      throw new BadRequestException(`Receipt with ID '${id}' not found`);
-    }
-    return receipt;
+  getReceiptById(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.receiptService.getReceipt(tenantId, id);
+  }
+
+  // Orphaned uploads have no known tenant, so only admins may see them
+  @Get('pending-uploads')
+  @AdminOnly()
+  async getPendingUploads() {
+    return {
+      message: 'Uploaded images without a stored receipt',
+      files: await this.receiptService.getPendingReextraction(),
+      usage:
+        'POST /test/pending-uploads/:filename/reextract to re-run extraction',
+    };
+  }
+
+  @Post('pending-uploads/:filename/reextract')
+  @AdminOnly()
+  async reextractUpload(@Param('filename') filename: string) {
+    return this.receiptService.reextractUpload(filename);
   }
 }